@@ -8,6 +8,9 @@ import { generateLPStructure } from '@/src/mastra/tools/structureTool';
 import type { ReactNode } from 'react';
 import { LpDisplay } from '@/app/components/LpDisplay';
 import { StructureConfirmation } from '@/app/components/StructureConfirmation';
+import { lpStructureSchema, type LPDocument } from '@/src/mastra/schemas';
+import { headers } from 'next/headers';
+import { createProject, createStoredUsageRecorder, resolveModelRouting, resolveUsageUserId, updateProject } from '@/src/mastra/storage';
 
 export type AIState = Array<CoreMessage>;
 export type UIState = Array<{
@@ -16,6 +19,52 @@ export type UIState = Array<{
   display: ReactNode;
 }>;
 
+// 構成案の確認・編集はボタン操作の合図で、変更のきっかけとなったプロンプトではない
+const CONTROL_MESSAGE_PATTERN = /^(CONFIRM_STRUCTURE$|EDIT_STRUCTURE:)/;
+
+function findTriggeringPrompt(messages: AIState): string | null {
+  const prompt = [...messages]
+    .reverse()
+    .find(msg => msg.role === 'user' && typeof msg.content === 'string' && !CONTROL_MESSAGE_PATTERN.test(msg.content));
+  return typeof prompt?.content === 'string' ? prompt.content : null;
+}
+
+/**
+ * Saves an action's result as a project, or as a new version of the project
+ * an earlier result was saved to, recording a revision with the tool that
+ * produced it and the triggering prompt. Returns the project id, or null if
+ * saving failed; the result is still shown in the chat then.
+ */
+async function saveActionResult(
+  lpObject: { htmlContent: string; cssContent?: string; structure?: unknown; document: LPDocument },
+  { projectId, source, prompt, usageSessionId }: { projectId: string | null; source: string; prompt: string | null; usageSessionId: string }
+): Promise<string | null> {
+  const { document } = lpObject;
+  const content = {
+    htmlContent: lpObject.htmlContent,
+    cssContent: lpObject.cssContent ?? document.cssContent,
+    sections: document.sections,
+    revision: { source, prompt },
+    usageSessionId,
+  };
+  try {
+    const updated = projectId ? await updateProject(projectId, content) : null;
+    if (updated) return updated.id;
+
+    const created = await createProject({
+      ...content,
+      title: document.title || 'Landing Page',
+      structure: lpObject.structure ?? null,
+      colorScheme: document.colorScheme ?? null,
+      designStyle: document.designStyle ?? null,
+      messages: [],
+    });
+    return created.id;
+  } catch (error) {
+    console.error('❌ Failed to save the action result as a project:', error);
+    return null;
+  }
+}
 
 async function submitUserMessage(userInput: string, selectedElementId: string | null) {
   'use server';
@@ -45,6 +94,19 @@ async function submitUserMessage(userInput: string, selectedElementId: string |
   (async () => {
     try {
       let lpObject;
+      let source: 'generateUnifiedLP' | 'partialUpdateLP' = 'generateUnifiedLP';
+      // 部分更新は前回の結果を保存したプロジェクトに、新規生成は新しいプロジェクトに保存する
+      let projectId: string | null = null;
+      const lastLpState = [...aiState.get()]
+        .reverse()
+        .find(msg => msg.role === 'assistant' && typeof msg.content === 'string' && msg.content.startsWith('{') && !msg.content.includes('"type":"structure"'));
+      if (selectedElementId && typeof lastLpState?.content === 'string') {
+        projectId = JSON.parse(lastLpState.content).projectId ?? null;
+      }
+      const routing = await resolveModelRouting(projectId);
+      // 保存前の使用量は、保存時にこの ID でプロジェクトに紐付ける
+      const usageSessionId = crypto.randomUUID();
+      const usage = createStoredUsageRecorder({ projectId, userId: resolveUsageUserId(await headers()), sessionId: usageSessionId });
       
       if (selectedElementId) {
         // 更新の場合
@@ -58,19 +120,19 @@ async function submitUserMessage(userInput: string, selectedElementId: string |
           </div>
         );
         
-        const lastLpState = [...aiState.get()]
-          .reverse()
-          .find(msg => msg.role === 'assistant' && typeof msg.content === 'string' && msg.content.startsWith('{'));
-        
         if (!lastLpState || typeof lastLpState.content !== 'string') {
           throw new Error("Could not find the previous LP state to update.");
         }
         const currentLP = JSON.parse(lastLpState.content);
+        delete currentLP.projectId;
         
+        source = 'partialUpdateLP';
         lpObject = await partialUpdateLP({
           currentLP,
           modificationPrompt: userInput,
           selectedElementId,
+          routing,
+          usage,
         });
 
       } else {
@@ -103,15 +165,25 @@ async function submitUserMessage(userInput: string, selectedElementId: string |
           }
           
           const structureData = JSON.parse(lastStructureState.content);
-          const topic = structureData.data.title || "Landing Page";
+          const parsedStructure = lpStructureSchema.safeParse(structureData.data);
+          if (!parsedStructure.success) {
+            throw new Error(`Invalid structure: ${parsedStructure.error.issues.map(issue => issue.message).join(', ')}`);
+          }
+          const structure = parsedStructure.data;
+          const topic = structure.title || "Landing Page";
           
+          // 承認された構成案のセクションを、その順番どおりに生成する
           console.log('🚀 Starting LP generation for:', topic);
-          lpObject = await generateUnifiedLP({ topic });
+          lpObject = await generateUnifiedLP({ topic, structure, routing, usage });
           console.log('✅ LP generation completed successfully');
         } else if (userInput.startsWith('EDIT_STRUCTURE:')) {
           // 構成案編集の場合
           const newStructureJson = userInput.replace('EDIT_STRUCTURE:', '');
-          const newStructure = JSON.parse(newStructureJson);
+          const parsedStructure = lpStructureSchema.safeParse(JSON.parse(newStructureJson));
+          if (!parsedStructure.success) {
+            throw new Error(`Invalid structure: ${parsedStructure.error.issues.map(issue => issue.message).join(', ')}`);
+          }
+          const newStructure = parsedStructure.data;
           
           aiState.done([
             ...aiState.get(),
@@ -142,7 +214,7 @@ async function submitUserMessage(userInput: string, selectedElementId: string |
             </div>
           );
           
-          const structure = await generateLPStructure(userInput);
+          const structure = await generateLPStructure(userInput, routing, usage);
           
           aiState.done([
             ...aiState.get(),
@@ -175,18 +247,25 @@ async function submitUserMessage(userInput: string, selectedElementId: string |
           
           const topic = userInput;
           
-          lpObject = await generateUnifiedLP({ topic });
+          lpObject = await generateUnifiedLP({ topic, routing, usage });
         }
       }
 
       // lpObjectが生成された場合のみ状態を更新
       if (lpObject) {
+        const savedProjectId = await saveActionResult(lpObject, {
+          projectId,
+          source,
+          prompt: selectedElementId ? userInput : findTriggeringPrompt(aiState.get()),
+          usageSessionId,
+        });
+
         console.log('📝 Updating AI state with LP object');
         aiState.done([
           ...aiState.get(),
           {
             role: 'assistant',
-            content: JSON.stringify(lpObject),
+            content: JSON.stringify({ ...lpObject, projectId: savedProjectId }),
           },
         ]);
 
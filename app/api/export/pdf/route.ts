@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pdfExportInputSchema, renderPdf } from '@/src/mastra/export';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+// ヘッドレス Chromium で指定ビューポートのPDFを生成
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = pdfExportInputSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid export payload', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const pdf = await renderPdf(parsed.data);
+    const fileName = `${parsed.data.title}.pdf`;
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+        'Content-Disposition': `attachment; filename="page.pdf"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error('[Export] PDF export failed:', error);
+    return NextResponse.json({ error: 'Failed to export PDF', details: message }, { status: 500 });
+  }
+}
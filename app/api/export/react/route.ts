@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildReactExportZip, reactExportInputSchema } from '@/src/mastra/export';
+
+export const dynamic = 'force-dynamic';
+
+// セクションごとの React コンポーネントと content.json を ZIP で返す
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = reactExportInputSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid export payload', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const zip = buildReactExportZip(parsed.data);
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Length': String(zip.length),
+        'Content-Disposition': `attachment; filename="${parsed.data.componentName}.zip"`,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error('[Export] React export failed:', error);
+    return NextResponse.json({ error: 'Failed to export components', details: message }, { status: 500 });
+  }
+}
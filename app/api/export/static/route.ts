@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildStaticExport, staticExportInputSchema } from '@/src/mastra/export';
+
+export const dynamic = 'force-dynamic';
+
+// CDN に依存しない index.html + styles.css を生成
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = staticExportInputSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid export payload', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const bundle = await buildStaticExport(parsed.data);
+    return NextResponse.json({ files: bundle.files });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error('[Export] Static export failed:', error);
+    return NextResponse.json({ error: 'Failed to export page', details: message }, { status: 500 });
+  }
+}
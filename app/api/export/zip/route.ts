@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildSiteZip, siteBundleInputSchema } from '@/src/mastra/export';
+
+export const dynamic = 'force-dynamic';
+
+// ホスティングにそのまま渡せるサイト一式を ZIP で返す
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = siteBundleInputSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid export payload', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const zip = await buildSiteZip(parsed.data);
+    const fileName = `${parsed.data.title}.zip`;
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Length': String(zip.length),
+        'Content-Disposition': `attachment; filename="site.zip"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error('[Export] ZIP export failed:', error);
+    return NextResponse.json({ error: 'Failed to export site', details: message }, { status: 500 });
+  }
+}
@@ -1,9 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from 'next/server';
-import { createLPCreatorAgent, createModel } from '@/src/mastra/agents/lpCreatorAgent';
+import { createLPCreatorAgent } from '@/src/mastra/agents/lpCreatorAgent';
+import { DEFAULT_MODEL, modelSelectionSchema, type ModelSelection } from '@/src/mastra/providers';
+import { createStoredUsageRecorder, resolveModelRouting, resolveUsageUserId } from '@/src/mastra/storage';
 
-import { Message } from 'ai';
-import { streamText } from 'ai';
+import { Message, JSONValue } from 'ai';
+import { createDataStreamResponse } from 'ai';
 
 // 開発環境のみログを出力する関数
 function devLog(message: string, data?: any) {
@@ -22,7 +24,7 @@ export const dynamic = 'force-dynamic';
 
 export async function POST(req: NextRequest) {
   try {
-    const { messages, model: requestModel } = await req.json();
+    const { id: sessionId, messages, model: requestModel, projectId } = await req.json();
     
     // メッセージの検証と処理
     if (!messages || !Array.isArray(messages) || messages.length === 0) {
@@ -35,58 +37,63 @@ export async function POST(req: NextRequest) {
     
     devLog('Processing LP creation request', { userContent: userContent.substring(0, 100) + '...' });
     
-    // デフォルトモデル設定
-    let currentModel = {
-      provider: 'claude',
-      modelName: 'claude-3-5-sonnet-20241022'
-    };
+    // プロジェクト（未保存なら共通設定）のステップ別モデル設定
+    const routing = await resolveModelRouting(typeof projectId === 'string' ? projectId : null);
     
-    // リクエストからモデル設定を取得
-    if (requestModel && requestModel.provider && requestModel.modelName) {
-      currentModel = requestModel;
-      devLog(`Using model from request: ${currentModel.provider} - ${currentModel.modelName}`);
-    }
-    
-    // OpenAIモデルの場合は、Agentを介さずに直接streamTextを呼び出す
-    if (currentModel.provider === 'openai') {
-      devLog('Bypassing agent for OpenAI model, using streamText directly.');
-      const model = createModel(currentModel.provider, currentModel.modelName);
-      const response = await streamText({
-        model: model,
-        messages: messages,
-      });
-      return response.toDataStreamResponse();
-    }
-    
-    // 選択されたモデルでlpCreatorAgentを動的に作成
-    const lpCreatorAgent = createLPCreatorAgent(currentModel.provider, currentModel.modelName);
-    
-    devLog('Starting LP creation with agent');
+    // このリクエストのトークン使用量（プロジェクト未保存なら保存時にチャットの ID で紐付ける）
+    const usage = createStoredUsageRecorder({
+      projectId: typeof projectId === 'string' ? projectId : null,
+      userId: resolveUsageUserId(req.headers),
+      sessionId: typeof sessionId === 'string' ? sessionId : null,
+    });
     
-    // 動的に作成されたlpCreatorAgentを使用してストリーミングレスポンスを取得
-    const mastraStreamResult = await lpCreatorAgent.stream(messages);
+    // デフォルトモデル設定（chat ステップの設定があればそれを使う）
+    let currentModel: ModelSelection = routing.chat ?? DEFAULT_MODEL;
     
-    // Stream オブジェクトの詳細をログ出力
-    devLog('Mastra Stream Result Type', typeof mastraStreamResult);
-    if (mastraStreamResult && typeof mastraStreamResult === 'object') {
-      devLog('Mastra Stream Result Keys', Object.keys(mastraStreamResult));
-      
-      // toDataStreamResponse メソッドの有無を確認
-      if (typeof (mastraStreamResult as any).toDataStreamResponse === 'function') {
-        devLog('Mastra Stream Result has toDataStreamResponse method');
+    // リクエストからモデル設定を取得（どのプロバイダーも同じエージェントとツールで処理する）
+    if (requestModel) {
+      const parsedModel = modelSelectionSchema.safeParse(requestModel);
+      if (!parsedModel.success) {
+        return NextResponse.json({ error: 'Invalid model', details: parsedModel.error.flatten() }, { status: 400 });
       }
+      currentModel = parsedModel.data;
+      devLog(`Using model from request: ${currentModel.provider} - ${currentModel.modelName}`);
     }
     
-    // mastraStreamResult を適切なレスポンスに変換
-    if (typeof (mastraStreamResult as any).toDataStreamResponse === 'function') {
-      return (mastraStreamResult as any).toDataStreamResponse();
-    } else {
-      // toDataStreamResponse が利用できない場合のエラー報告
-      return NextResponse.json(
-        { error: 'Internal server error: Stream processing failed.' },
-        { status: 500 }
-      );
-    }
+    devLog('Starting LP creation with agent');
+    
+    return createDataStreamResponse({
+      execute: async (dataStream) => {
+        // 選択されたモデルでlpCreatorAgentを動的に作成し、生成中の構成・完成したセクションを逐次クライアントへ送る
+        const lpCreatorAgent = createLPCreatorAgent(currentModel.provider, currentModel.modelName, {
+          onGenerationProgress: (event) => dataStream.writeData(event as unknown as JSONValue),
+          routing,
+          usage,
+        });
+        
+        // 動的に作成されたlpCreatorAgentを使用してストリーミングレスポンスを取得
+        const mastraStreamResult = await lpCreatorAgent.stream(messages, {
+          temperature: routing.chat?.temperature,
+          maxTokens: routing.chat?.maxTokens,
+        });
+        
+        // Stream オブジェクトの詳細をログ出力
+        devLog('Mastra Stream Result Type', typeof mastraStreamResult);
+        if (mastraStreamResult && typeof mastraStreamResult === 'object') {
+          devLog('Mastra Stream Result Keys', Object.keys(mastraStreamResult));
+        }
+        
+        // mastraStreamResult を進捗データと同じストリームに統合
+        if (typeof (mastraStreamResult as any).mergeIntoDataStream !== 'function') {
+          throw new Error('Internal server error: Stream processing failed.');
+        }
+        (mastraStreamResult as any).mergeIntoDataStream(dataStream);
+      },
+      onError: (error) => {
+        console.error('[LP Creator] Stream error:', error);
+        return error instanceof Error ? error.message : 'Internal server error';
+      },
+    });
   } catch (error: any) {
     // エラー詳細をログ出力
     const message = error instanceof Error ? error.message : 'Internal server error';
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { modelRoutingSchema } from '@/src/mastra/providers';
+import { getModelRouting, getProject, resolveModelRouting, saveModelRouting } from '@/src/mastra/storage';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// プロジェクト固有のルーティングと、共通設定を合わせた実効ルーティングを取得
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    if (!(await getProject(id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    const [routing, effective] = await Promise.all([getModelRouting(id), resolveModelRouting(id)]);
+    return NextResponse.json({ routing, effective });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[ModelRouting] Get ${id} failed:`, error);
+    return NextResponse.json({ error: 'Failed to load model routing', details: message }, { status: 500 });
+  }
+}
+
+// プロジェクト固有のルーティングを置き換える（省略したステップは共通設定に従う）
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const parsed = modelRoutingSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid model routing', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    if (!(await getProject(id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const routing = await saveModelRouting(id, parsed.data);
+    return NextResponse.json({ routing, effective: await resolveModelRouting(id) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[ModelRouting] Update ${id} failed:`, error);
+    return NextResponse.json({ error: 'Failed to update model routing', details: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { restoreRevision } from '@/src/mastra/storage';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string; revisionId: string }>;
+}
+
+// リビジョンを現在のページとして復元（復元自体も履歴に追記される）
+export async function POST(_req: NextRequest, { params }: RouteContext) {
+  const { id, revisionId } = await params;
+  try {
+    const restored = await restoreRevision(id, revisionId);
+    if (!restored) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+    return NextResponse.json(restored);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[Projects] Restore revision ${revisionId} of ${id} failed:`, error);
+    return NextResponse.json({ error: 'Failed to restore revision', details: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRevision } from '@/src/mastra/storage';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string; revisionId: string }>;
+}
+
+// 特定のリビジョンの内容を取得
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { id, revisionId } = await params;
+  try {
+    const revision = await getRevision(id, revisionId);
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+    return NextResponse.json({ revision });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[Projects] Get revision ${revisionId} of ${id} failed:`, error);
+    return NextResponse.json({ error: 'Failed to load revision', details: message }, { status: 500 });
+  }
+}
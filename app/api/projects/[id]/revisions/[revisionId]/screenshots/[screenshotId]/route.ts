@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getScreenshot } from '@/src/mastra/storage';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string; revisionId: string; screenshotId: string }>;
+}
+
+// スクリーンショット画像を返す（リビジョンは変更されないので長期キャッシュ可）
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { id, revisionId, screenshotId } = await params;
+  try {
+    const screenshot = await getScreenshot(revisionId, screenshotId);
+    if (!screenshot || screenshot.projectId !== id) {
+      return NextResponse.json({ error: 'Screenshot not found' }, { status: 404 });
+    }
+    return new NextResponse(new Uint8Array(screenshot.image), {
+      headers: {
+        'Content-Type': screenshot.mimeType,
+        'Content-Length': String(screenshot.image.length),
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[Projects] Get screenshot ${screenshotId} failed:`, error);
+    return NextResponse.json({ error: 'Failed to load screenshot', details: message }, { status: 500 });
+  }
+}
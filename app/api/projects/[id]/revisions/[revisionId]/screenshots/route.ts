@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureRevisionScreenshots, getProject, getRevision } from '@/src/mastra/storage';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string; revisionId: string }>;
+}
+
+// リビジョンのスクリーンショット一覧を取得（未撮影なら撮影して保存）
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { id, revisionId } = await params;
+  try {
+    const [project, revision] = await Promise.all([getProject(id), getRevision(id, revisionId)]);
+    if (!project || !revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+    const screenshots = await ensureRevisionScreenshots(revision, project.title);
+    return NextResponse.json({ screenshots });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[Projects] Screenshots of revision ${revisionId} of ${id} failed:`, error);
+    return NextResponse.json({ error: 'Failed to capture screenshots', details: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { compareRevisions } from '@/src/mastra/storage';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const compareQuerySchema = z.object({
+  from: z.string().min(1).describe('The older revision'),
+  to: z.string().min(1).describe('The newer revision'),
+});
+
+// 2つのリビジョン間で data-editable-id 単位の構造差分を取得
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const parsed = compareQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid compare query', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const comparison = await compareRevisions(id, parsed.data.from, parsed.data.to);
+    if (!comparison) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+    return NextResponse.json({ comparison });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[Projects] Compare revisions of ${id} failed:`, error);
+    return NextResponse.json({ error: 'Failed to compare revisions', details: message }, { status: 500 });
+  }
+}
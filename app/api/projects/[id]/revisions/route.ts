@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProject, listRevisions } from '@/src/mastra/storage';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// プロジェクトの変更履歴（新しい順）を取得
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    if (!(await getProject(id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    const revisions = await listRevisions(id);
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[Projects] List revisions of ${id} failed:`, error);
+    return NextResponse.json({ error: 'Failed to list revisions', details: message }, { status: 500 });
+  }
+}
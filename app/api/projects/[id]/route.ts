@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteProject, getProject, projectUpdateSchema, updateProject } from '@/src/mastra/storage';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// プロジェクトを取得
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const project = await getProject(id);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    return NextResponse.json({ project });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[Projects] Get ${id} failed:`, error);
+    return NextResponse.json({ error: 'Failed to load project', details: message }, { status: 500 });
+  }
+}
+
+// プロジェクトを更新
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    // 壊れた JSON はサーバーエラーではなく入力エラーとして返す
+    const body = await req.json().catch(() => undefined);
+    if (body === undefined) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const parsed = projectUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid project payload', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const project = await updateProject(id, parsed.data);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    return NextResponse.json({ project });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[Projects] Update ${id} failed:`, error);
+    return NextResponse.json({ error: 'Failed to update project', details: message }, { status: 500 });
+  }
+}
+
+// プロジェクトを削除
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const deleted = await deleteProject(id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[Projects] Delete ${id} failed:`, error);
+    return NextResponse.json({ error: 'Failed to delete project', details: message }, { status: 500 });
+  }
+}
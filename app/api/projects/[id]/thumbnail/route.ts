@@ -0,0 +1,75 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SCREENSHOT_VIEWPORTS } from '@/src/mastra/export';
+import { getLatestRevision, getProject, getScreenshot, requestRevisionScreenshots } from '@/src/mastra/storage';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const viewportSchema = z.enum(SCREENSHOT_VIEWPORTS).default('desktop');
+
+// 撮影中に返す画像と、再取得までの目安（秒）
+const PENDING_PLACEHOLDER = '<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="800"><rect width="100%" height="100%" fill="#f3f4f6"/></svg>';
+const PENDING_RETRY_AFTER_SECONDS = 5;
+
+// 最新リビジョンのページ全体のスクリーンショット（プロジェクト一覧のサムネイル用）。撮影中は 202 とプレースホルダーを返す
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const viewport = viewportSchema.safeParse(req.nextUrl.searchParams.get('viewport') ?? undefined);
+    if (!viewport.success) {
+      return NextResponse.json(
+        { error: 'Invalid viewport', details: viewport.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const [project, revision] = await Promise.all([getProject(id), getLatestRevision(id)]);
+    if (!project || !revision) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    // 新しいリビジョンが保存されるまではブラウザのキャッシュを使わせる
+    const etag = `"${revision.id}-${viewport.data}"`;
+    if (req.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    // 未撮影なら撮影をバックグラウンドで始め、一覧の表示を待たせない
+    const screenshots = await requestRevisionScreenshots(revision, project.title);
+    if (screenshots.status === 'pending') {
+      after(() => screenshots.render);
+      return new NextResponse(PENDING_PLACEHOLDER, {
+        status: 202,
+        headers: {
+          'Content-Type': 'image/svg+xml',
+          'Cache-Control': 'no-store',
+          'Retry-After': String(PENDING_RETRY_AFTER_SECONDS),
+        },
+      });
+    }
+
+    const pageScreenshot = screenshots.screenshots.find(screenshot => screenshot.kind === 'page' && screenshot.viewport === viewport.data);
+    const screenshot = pageScreenshot && await getScreenshot(revision.id, pageScreenshot.id);
+    if (!screenshot) {
+      return NextResponse.json({ error: 'Thumbnail not available' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(screenshot.image), {
+      headers: {
+        'Content-Type': screenshot.mimeType,
+        'Content-Length': String(screenshot.image.length),
+        'Cache-Control': 'private, no-cache',
+        ETag: etag,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[Projects] Thumbnail of ${id} failed:`, error);
+    return NextResponse.json({ error: 'Failed to load thumbnail', details: message }, { status: 500 });
+  }
+}
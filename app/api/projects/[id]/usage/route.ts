@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProject, getProjectUsage } from '@/src/mastra/storage';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// プロジェクトのトークン使用量と推定コスト（ステップ別・セクション別の内訳付き）
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    if (!(await getProject(id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    return NextResponse.json(await getProjectUsage(id));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[Usage] Get ${id} failed:`, error);
+    return NextResponse.json({ error: 'Failed to load usage', details: message }, { status: 500 });
+  }
+}
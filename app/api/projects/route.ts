@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createProject, listProjects, projectInputSchema } from '@/src/mastra/storage';
+
+export const dynamic = 'force-dynamic';
+
+// プロジェクト一覧を取得
+export async function GET() {
+  try {
+    const projects = await listProjects();
+    return NextResponse.json({ projects });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error('[Projects] List failed:', error);
+    return NextResponse.json({ error: 'Failed to list projects', details: message }, { status: 500 });
+  }
+}
+
+// 新しいプロジェクトを保存
+export async function POST(req: NextRequest) {
+  try {
+    // 壊れた JSON はサーバーエラーではなく入力エラーとして返す
+    const body = await req.json().catch(() => undefined);
+    if (body === undefined) {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const parsed = projectInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid project payload', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const project = await createProject(parsed.data);
+    return NextResponse.json({ project }, { status: 201 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error('[Projects] Create failed:', error);
+    return NextResponse.json({ error: 'Failed to create project', details: message }, { status: 500 });
+  }
+}
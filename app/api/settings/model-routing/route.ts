@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { modelRoutingSchema } from '@/src/mastra/providers';
+import { GLOBAL_ROUTING_SCOPE, getModelRouting, saveModelRouting } from '@/src/mastra/storage';
+
+export const dynamic = 'force-dynamic';
+
+// 全プロジェクト共通のモデルルーティングを取得
+export async function GET() {
+  try {
+    const routing = await getModelRouting(GLOBAL_ROUTING_SCOPE);
+    return NextResponse.json({ routing });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error('[ModelRouting] Get global routing failed:', error);
+    return NextResponse.json({ error: 'Failed to load model routing', details: message }, { status: 500 });
+  }
+}
+
+// 全プロジェクト共通のモデルルーティングを置き換える
+export async function PUT(req: NextRequest) {
+  try {
+    const parsed = modelRoutingSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid model routing', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const routing = await saveModelRouting(GLOBAL_ROUTING_SCOPE, parsed.data);
+    return NextResponse.json({ routing });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error('[ModelRouting] Update global routing failed:', error);
+    return NextResponse.json({ error: 'Failed to update model routing', details: message }, { status: 500 });
+  }
+}
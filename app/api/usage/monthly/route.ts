@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getMonthlyUsage, resolveUsageUserId } from '@/src/mastra/storage';
+
+export const dynamic = 'force-dynamic';
+
+const monthlyUsageQuerySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected YYYY-MM')
+    .default(() => new Date().toISOString().slice(0, 7)),
+});
+
+// 月間（UTC）のトークン使用量と推定コストを集計する（?month=YYYY-MM）
+// 他のユーザーの使用量は返さず、リクエストしたユーザーの分だけを返す
+export async function GET(req: NextRequest) {
+  const parsed = monthlyUsageQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid usage query', details: parsed.error.flatten() }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await getMonthlyUsage(parsed.data.month, resolveUsageUserId(req.headers)));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error('[Usage] Monthly report failed:', error);
+    return NextResponse.json({ error: 'Failed to load usage report', details: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AlertTriangle, RotateCcw, X } from 'lucide-react';
+import type { LPDocumentSection } from '@/src/mastra/schemas';
+import type { SectionOutputReport } from '@/src/mastra/tools/lpGeneratorTool';
+import { SECTION_TYPE_LABELS } from './sectionLabels';
+
+interface GenerationNoticeProps {
+  sections: LPDocumentSection[];
+  // セクションIDごとの生成結果
+  outputs: Record<string, SectionOutputReport>;
+  onRegenerate: (sectionIndex: number) => void;
+  regeneratingSectionIndex?: number | null;
+}
+
+// 代替モデルで生成されたセクションと、生成に失敗して仮の内容を表示しているセクションを知らせる
+export const GenerationNotice: React.FC<GenerationNoticeProps> = ({
+  sections,
+  outputs,
+  onRegenerate,
+  regeneratingSectionIndex = null,
+}) => {
+  // 閉じた後も、新しい生成結果が届いたら再び表示する
+  const [dismissedOutputs, setDismissedOutputs] = useState<GenerationNoticeProps['outputs'] | null>(null);
+
+  const affected = sections
+    .map((section, index) => ({ section, index, output: outputs[section.id] }))
+    .filter(({ output }) => output && (output.status === 'fallback' || output.failedOver));
+
+  if (dismissedOutputs === outputs || affected.length === 0) return null;
+
+  return (
+    <div className="mx-4 mt-3 rounded border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900" role="status">
+      <div className="flex items-start gap-2">
+        <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+        <div className="flex-1">
+          <p className="font-semibold">一部のセクションは通常どおり生成されませんでした</p>
+          <ul className="mt-1 space-y-1">
+            {affected.map(({ section, index, output }) => (
+              <li key={section.id} className="flex items-center gap-2">
+                <span className="flex-1">
+                  {index + 1}. {section.type === 'custom' ? 'カスタム' : SECTION_TYPE_LABELS[section.type]}：
+                  {output.status === 'fallback'
+                    ? '生成に失敗したため仮の内容を表示しています'
+                    : `代替モデル（${output.model}）で生成しました`}
+                </span>
+                {output.status === 'fallback' && (
+                  <button
+                    onClick={() => onRegenerate(index)}
+                    disabled={regeneratingSectionIndex !== null}
+                    className="inline-flex items-center gap-1 rounded px-2 py-0.5 text-xs bg-amber-600 text-white hover:bg-amber-700 disabled:bg-gray-400"
+                  >
+                    <RotateCcw size={12} />
+                    {regeneratingSectionIndex === index ? '再生成中...' : '再生成'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <button onClick={() => setDismissedOutputs(outputs)} className="text-amber-700 hover:text-amber-900" aria-label="閉じる">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
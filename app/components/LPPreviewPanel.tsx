@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { LPViewer } from './LPViewer';
-import { X, RotateCcw, Download, FileText, Code, GripVertical, Monitor } from 'lucide-react';
+import { X, RotateCcw, Download, FileText, Code, GripVertical, Monitor, Archive } from 'lucide-react';
 import { Button } from '@/app/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/app/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/app/components/ui/tabs';
@@ -11,6 +11,10 @@ import { Label } from '@/app/components/ui/label';
 import { Textarea } from '@/app/components/ui/textarea';
 import { Badge } from '@/app/components/ui/badge';
 import { Separator } from '@/app/components/ui/separator';
+import { UndoRedoControls } from './UndoRedoControls';
+import { useUndoRedo, createHtmlChangeCommand } from '../contexts/UndoRedoContext';
+import { downloadPdf, downloadSiteZip, downloadStaticExport } from './exportDownloads';
+import type { PdfViewport } from '@/src/mastra/export';
 
 interface LPPreviewPanelProps {
   htmlContent: string;
@@ -35,10 +39,13 @@ export const LPPreviewPanel: React.FC<LPPreviewPanelProps> = ({
   const [panelWidth, setPanelWidth] = useState<number>(80);
   const [isDragging, setIsDragging] = useState<boolean>(false);
   const [isExportingHTML, setIsExportingHTML] = useState<boolean>(false);
+  const [isExportingZip, setIsExportingZip] = useState<boolean>(false);
   const [isExportingPDF, setIsExportingPDF] = useState<boolean>(false);
+  const [pdfViewport, setPdfViewport] = useState<PdfViewport>('desktop');
   const resizeHandleRef = useRef<HTMLDivElement>(null);
   const lpContainerRef = useRef<HTMLDivElement>(null);
   const isDraggingRef = useRef<boolean>(false);
+  const { execute } = useUndoRedo();
   
   useEffect(() => {
     setEditedHtml(htmlContent);
@@ -85,84 +92,61 @@ export const LPPreviewPanel: React.FC<LPPreviewPanelProps> = ({
     setPreviewHtml(htmlContent);
   }, [htmlContent]);
 
-  // HTMLを適用
+  // HTMLを適用（取り消し可能な操作として記録）
   const handleApplyHtml = useCallback(() => {
-    setPreviewHtml(editedHtml);
-  }, [editedHtml]);
+    if (editedHtml === previewHtml) return;
 
-  // HTML出力
+    execute(createHtmlChangeCommand({
+      type: 'html-edit',
+      label: 'HTML編集',
+      before: previewHtml,
+      after: editedHtml,
+      apply: (html) => {
+        setPreviewHtml(html);
+        setEditedHtml(html);
+      }
+    }));
+  }, [editedHtml, previewHtml, execute]);
+
+  // HTML出力（Tailwindをコンパイル済みの index.html + styles.css）
   const handleExportHTML = useCallback(async () => {
     setIsExportingHTML(true);
     try {
-      // 完全なHTMLドキュメントを生成
-      const fullHtml = `<!DOCTYPE html>
-<html lang="ja">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${title}</title>
-  <script src="https://cdn.tailwindcss.com"></script>
-  <link href="https://fonts.googleapis.com/css2?family=Noto+Sans+JP:wght@400;500;700&display=swap" rel="stylesheet">
-  <style>
-    body {
-      font-family: 'Noto Sans JP', 'Hiragino Sans', sans-serif;
-      margin: 0;
-      padding: 0;
-      line-height: 1.6;
-    }
-    /* スクロールバーのカスタマイズ */
-    ::-webkit-scrollbar {
-      width: 8px;
-    }
-    ::-webkit-scrollbar-track {
-      background: #f1f1f1;
-    }
-    ::-webkit-scrollbar-thumb {
-      background: #888;
-      border-radius: 4px;
-    }
-    ::-webkit-scrollbar-thumb:hover {
-      background: #555;
-    }
-  </style>
-</head>
-<body>
-${previewHtml}
-</body>
-</html>`;
-
-      // ファイルダウンロード
-      const blob = new Blob([fullHtml], { type: 'text/html;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${title.replace(/[^a-z0-9]/gi, '_')}.html`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-      
+      await downloadStaticExport({ title, htmlContent: previewHtml, cssContent });
       console.log('HTML export completed successfully');
     } catch (error) {
       console.error('HTML export failed:', error);
     } finally {
       setIsExportingHTML(false);
     }
-  }, [previewHtml, title]);
+  }, [previewHtml, cssContent, title]);
+
+  // サイト一式をZIPで出力
+  const handleExportZip = useCallback(async () => {
+    setIsExportingZip(true);
+    try {
+      await downloadSiteZip({ title, htmlContent: previewHtml, cssContent });
+    } catch (error) {
+      console.error('ZIP export failed:', error);
+    } finally {
+      setIsExportingZip(false);
+    }
+  }, [previewHtml, cssContent, title]);
 
   // PDF出力（将来実装）
   const handleExportPDF = useCallback(async () => {
     setIsExportingPDF(true);
     try {
-      // TODO: Puppeteer またはNutrient APIを使用してPDF変換
-      console.log('PDF export will be implemented in Phase 3');
-      alert('PDF出力機能は Phase 3 で実装予定です');
+      // サーバー側のヘッドレス Chromium でページ分割されたPDFを生成
+      await downloadPdf({ title, htmlContent: previewHtml, cssContent, viewport: pdfViewport });
+      console.log('PDF export completed successfully');
     } catch (error) {
       console.error('PDF export failed:', error);
+      alert(`PDF出力に失敗しました: ${error instanceof Error ? error.message : error}`);
     } finally {
       setIsExportingPDF(false);
     }
-  }, [previewHtml, title]);
+  }, [previewHtml, cssContent, title, pdfViewport]);
 
   if (!isOpen) return null;
 
@@ -221,6 +205,7 @@ ${previewHtml}
               </TabsList>
               
               <div className="flex items-center space-x-2">
+                <UndoRedoControls />
                 <Button
                   onClick={handleExportHTML}
                   disabled={isExportingHTML}
@@ -230,6 +215,26 @@ ${previewHtml}
                   <Download className="h-4 w-4 mr-1" />
                   {isExportingHTML ? 'HTML出力中...' : 'HTML'}
                 </Button>
+                <Button
+                  onClick={handleExportZip}
+                  disabled={isExportingZip}
+                  size="sm"
+                  variant="outline"
+                >
+                  <Archive className="h-4 w-4 mr-1" />
+                  {isExportingZip ? 'ZIP出力中...' : 'ZIP'}
+                </Button>
+                <select
+                  value={pdfViewport}
+                  onChange={(e) => setPdfViewport(e.target.value as PdfViewport)}
+                  disabled={isExportingPDF}
+                  className="h-9 px-2 text-sm text-gray-700 border border-gray-300 rounded-md bg-white"
+                  title="PDFのビューポート"
+                >
+                  <option value="desktop">デスクトップ</option>
+                  <option value="tablet">タブレット</option>
+                  <option value="mobile">モバイル</option>
+                </select>
                 <Button
                   onClick={handleExportPDF}
                   disabled={isExportingPDF}
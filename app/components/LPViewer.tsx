@@ -3,32 +3,80 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { Maximize2, Minimize2 } from 'lucide-react';
 import { useEditMode } from '../contexts/EditModeContext';
+import { useUndoRedo } from '../contexts/UndoRedoContext';
 import { InlineTextEditor } from './InlineTextEditor';
 import { SmartHoverMenu } from './SmartHoverMenu';
+import { SectionToolbar, type RegenerateSectionOptions } from './SectionToolbar';
+import type { LPDocument } from '@/src/mastra/schemas';
+import {
+  isCompleteHtmlDocument,
+  sanitizeCssContent,
+  sanitizeDocument,
+  sanitizeHtml,
+  summarizeSanitizeReport,
+  type SanitizeResult,
+} from '@/src/mastra/security/htmlSanitizer';
 
 interface LPViewerProps {
   htmlContent: string;
+  lpDocument?: LPDocument | null;
   cssContent?: string;
   width?: string;
   height?: string;
   enableFullscreen?: boolean;
   onTextUpdate?: (elementId: string, newText: string) => void;
   onAIImprove?: (elementId: string, currentText: string) => void;
+  onRegenerateSection?: (sectionIndex: number, options: RegenerateSectionOptions) => void;
+  regeneratingSectionIndex?: number | null;
 }
 
+// 生成待ちセクションのスケルトン
+const renderSectionSkeleton = (section: LPDocument['sections'][number]) => `
+  <section class="lp-section-skeleton py-16 animate-pulse" aria-busy="true">
+    <div class="container mx-auto px-4 max-w-3xl text-center">
+      <p class="text-xs font-semibold uppercase tracking-widest text-gray-400 mb-6">${section.type} を生成中...</p>
+      <div class="h-8 bg-gray-200 rounded w-2/3 mx-auto mb-4"></div>
+      <div class="h-4 bg-gray-200 rounded w-full mb-2"></div>
+      <div class="h-4 bg-gray-200 rounded w-5/6 mx-auto mb-8"></div>
+      <div class="h-10 bg-gray-200 rounded w-40 mx-auto"></div>
+    </div>
+  </section>`;
+
+// iframe は同一オリジンでスクリプトを実行できるため、書き込む前に必ず無害化する
+const sanitizePreviewHtml = (html: string): SanitizeResult => {
+  if (isCompleteHtmlDocument(html)) {
+    const parsed = new DOMParser().parseFromString(html, 'text/html');
+    const report = sanitizeDocument(parsed);
+    return { html: `<!DOCTYPE html>\n${parsed.documentElement.outerHTML}`, report };
+  }
+  return sanitizeHtml(html, document);
+};
+
+// セクションごとに目印付きのラッパーで囲む（レイアウトには影響させない）
+const renderSectionSlots = (lpDocument: LPDocument) =>
+  lpDocument.sections
+    .map((section, index) =>
+      `<div class="lp-section-slot" data-lp-section-id="${section.id}" data-lp-section-index="${index}" style="display: contents">${section.html || renderSectionSkeleton(section)}</div>`
+    )
+    .join('\n\n');
+
 export const LPViewer: React.FC<LPViewerProps> = ({ 
   htmlContent, 
+  lpDocument,
   cssContent = '',
   width = '100%',
   height = '100%',
   enableFullscreen = true,
   onTextUpdate,
-  onAIImprove
+  onAIImprove,
+  onRegenerateSection,
+  regeneratingSectionIndex = null
 }) => {
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const { isEditMode, selectedElementId, selectElement } = useEditMode();
+  const { handleShortcut } = useUndoRedo();
   
   // インライン編集の状態管理
   const [inlineEditingId, setInlineEditingId] = useState<string | null>(null);
@@ -36,6 +84,13 @@ export const LPViewer: React.FC<LPViewerProps> = ({
   const [hoverMenuPosition, setHoverMenuPosition] = useState({ x: 0, y: 0 });
   const [hoveredElementId, setHoveredElementId] = useState<string | null>(null);
 
+  // セクションツールバーの状態管理
+  const [toolbarSection, setToolbarSection] = useState<{ index: number; position: { x: number; y: number } } | null>(null);
+  const onRegenerateSectionRef = useRef(onRegenerateSection);
+  useEffect(() => {
+    onRegenerateSectionRef.current = onRegenerateSection;
+  }, [onRegenerateSection]);
+
   // フルスクリーン切り替え
   const toggleFullscreen = useCallback(async () => {
     if (!containerRef.current) return;
@@ -152,6 +207,9 @@ export const LPViewer: React.FC<LPViewerProps> = ({
         el.removeAttribute('data-edit-listener');
       });
 
+      // iframe内でも Ctrl+Z / Ctrl+Shift+Z を有効にする（同一関数の登録は重複しない）
+      doc.addEventListener('keydown', handleShortcut);
+
       // 編集可能な要素を取得
       const editableElements = doc.querySelectorAll('[data-editable-id]');
       console.log(`📝 Found ${editableElements.length} editable elements`);
@@ -301,7 +359,51 @@ export const LPViewer: React.FC<LPViewerProps> = ({
       console.error('❌ Error setting up editable elements:', error);
       // エラーが発生しても続行できるようにする
     }
-  }, [isEditMode, selectElement, selectedElementId, hoveredElementId, inlineEditingId, startInlineEdit]);
+  }, [isEditMode, selectElement, selectedElementId, hoveredElementId, inlineEditingId, startInlineEdit, handleShortcut]);
+
+  // セクションのツールバー表示と「再生成する」ボタンのイベント設定
+  const setupSectionToolbar = useCallback(() => {
+    const iframe = iframeRef.current;
+    const doc = iframe?.contentDocument;
+    if (!iframe || !doc || !lpDocument?.sections.length) return;
+
+    // セクションの右上（フルスクリーンボタンを避けた位置）に表示する
+    const locateSection = (slot: Element) => {
+      const target = slot.firstElementChild;
+      if (!target) return null;
+      const rect = target.getBoundingClientRect();
+      const iframeRect = iframe.getBoundingClientRect();
+      if (rect.bottom < 0 || rect.top > iframeRect.height) return null;
+      return {
+        x: iframeRect.left + Math.min(rect.right, iframeRect.width) - 64,
+        y: iframeRect.top + Math.max(rect.top, 0) + 8,
+      };
+    };
+
+    let activeSlot: Element | null = null;
+    const updateToolbar = () => {
+      const position = activeSlot && locateSection(activeSlot);
+      const index = Number(activeSlot?.getAttribute('data-lp-section-index'));
+      setToolbarSection(position ? { index, position } : null);
+    };
+
+    doc.addEventListener('mouseover', (e) => {
+      const slot = (e.target as Element | null)?.closest?.('[data-lp-section-index]') ?? null;
+      if (slot && slot !== activeSlot) {
+        activeSlot = slot;
+        updateToolbar();
+      }
+    });
+    doc.addEventListener('scroll', updateToolbar);
+
+    doc.addEventListener('click', (e) => {
+      const button = (e.target as Element | null)?.closest?.('[data-lp-action="regenerate-section"]');
+      const slot = button?.closest('[data-lp-section-index]');
+      if (!slot || !onRegenerateSectionRef.current) return;
+      e.preventDefault();
+      onRegenerateSectionRef.current(Number(slot.getAttribute('data-lp-section-index')), {});
+    });
+  }, [lpDocument]);
 
   // 選択された要素のハイライトを更新
   useEffect(() => {
@@ -328,43 +430,24 @@ export const LPViewer: React.FC<LPViewerProps> = ({
 
   // LPHTMLをiframeに展開する
   useEffect(() => {
-    if (iframeRef.current && htmlContent) {
+    if (iframeRef.current && (htmlContent || lpDocument?.sections.length)) {
       const doc = iframeRef.current.contentDocument;
       if (doc) {
-        // HTMLコンテンツのエスケープ処理を修正
-        let processedContent = htmlContent;
-        
-        // 二重エンコーディングされたURLを修正
-        processedContent = processedContent.replace(/&quot;/g, '"');
-        processedContent = processedContent.replace(/&#x27;/g, "'");
-        processedContent = processedContent.replace(/&lt;/g, '<');
-        processedContent = processedContent.replace(/&gt;/g, '>');
-        processedContent = processedContent.replace(/&amp;/g, '&');
-        
-        // 不正なSVGパス属性を修正（より厳密なパターン）
-        processedContent = processedContent.replace(/d="\\*"/g, 'd=""');
-        processedContent = processedContent.replace(/d="\\+"([^"]*)"\\*"/g, 'd="$1"');
-        processedContent = processedContent.replace(/d="\\"([^"]*)\\""/g, 'd="$1"');
-        processedContent = processedContent.replace(/d="\\\"([^"]*)\\\"/g, 'd="$1"');
-        
-        // 不正なイメージソースを修正（data URIも含む）
-        processedContent = processedContent.replace(/src="\\"([^"]*)\\""/g, 'src="$1"');
-        processedContent = processedContent.replace(/src="\\\"([^"]*)\\\"/g, 'src="$1"');
-        processedContent = processedContent.replace(/href="\\"([^"]*)\\""/g, 'href="$1"');
-        processedContent = processedContent.replace(/href="\\\"([^"]*)\\\"/g, 'href="$1"');
-        
-        // data URIの二重クォートエスケープを修正
-        processedContent = processedContent.replace(/"data:image\/svg\+xml,[^"]*"/g, (match) => {
-          return match.replace(/\\"/g, '"').replace(/""/g, '"');
-        });
+        // 壊れた属性や画像の修復はサーバー側の正規化で済んでいる（セクション文書があればセクション単位で描画）
+        let processedContent = lpDocument?.sections.length ? renderSectionSlots(lpDocument) : htmlContent;
         
-        // 不正な外部リソースパスを修正
-        processedContent = processedContent.replace(/src="[^"]*\.jpg"\/"/g, 'src=""');
-        processedContent = processedContent.replace(/src="\/[^"]*\.jpg\/"/g, 'src=""');
-        processedContent = processedContent.replace(/href="\/[^"]*\.jpg\/"/g, 'href=""');
-        
-        // 空のsrc属性を持つ画像を隠す
-        processedContent = processedContent.replace(/<img[^>]*src=""[^>]*>/g, '<div class="bg-gray-200 rounded-lg h-48 flex items-center justify-center"><span class="text-gray-500">画像プレースホルダー</span></div>');
+        // スクリプト・イベントハンドラ・javascript: URL を除去
+        const sanitized = sanitizePreviewHtml(processedContent);
+        if (sanitized.report.removed.length > 0) {
+          console.warn('[LPViewer] Removed unsafe markup:', summarizeSanitizeReport(sanitized.report));
+        }
+        processedContent = sanitized.html;
+
+        // CSS も <style> にそのまま書き込むため、HTML と同じく無害化する（</style> で抜け出せないようにする）
+        const { html: pageCss, report: cssReport } = sanitizeCssContent(cssContent);
+        if (cssReport.removed.length > 0) {
+          console.warn('[LPViewer] Removed unsafe CSS:', summarizeSanitizeReport(cssReport));
+        }
         
         // htmlContentに<style>タグやHTML構造が含まれているか確認
         const hasStyleTag = processedContent.includes('<style>') && processedContent.includes('</style>');
@@ -388,7 +471,7 @@ export const LPViewer: React.FC<LPViewerProps> = ({
               <meta name="viewport" content="width=device-width, initial-scale=1.0">
               <script src="https://cdn.tailwindcss.com"></script>
               <link href="https://fonts.googleapis.com/css2?family=Noto+Sans+JP:wght@400;500;700&display=swap" rel="stylesheet">
-              ${cssContent}
+              ${pageCss}
               <style>
                 body {
                   margin: 0;
@@ -467,7 +550,7 @@ export const LPViewer: React.FC<LPViewerProps> = ({
               <meta name="viewport" content="width=device-width, initial-scale=1.0">
               <script src="https://cdn.tailwindcss.com"></script>
               <link href="https://fonts.googleapis.com/css2?family=Noto+Sans+JP:wght@400;500;700&display=swap" rel="stylesheet">
-              ${cssContent}
+              ${pageCss}
               <style>
                 body {
                   margin: 0;
@@ -539,7 +622,7 @@ export const LPViewer: React.FC<LPViewerProps> = ({
               <meta charset="UTF-8">
               <meta name="viewport" content="width=device-width, initial-scale=1.0">
               <script src="https://cdn.tailwindcss.com"></script>
-              ${cssContent}
+              ${pageCss}
               <style>
                 body {
                   font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
@@ -566,11 +649,13 @@ export const LPViewer: React.FC<LPViewerProps> = ({
           // iframeがまだ存在し、コンテンツがロードされていることを確認
           if (iframeRef.current && iframeRef.current.contentDocument?.body) {
             setupEditableElements();
+            setupSectionToolbar();
           }
         }, 200);
       }
     }
-  }, [htmlContent, cssContent, isFullscreen, setupEditableElements]);
+    setToolbarSection(null);
+  }, [htmlContent, lpDocument, cssContent, isFullscreen, setupEditableElements, setupSectionToolbar]);
 
   // 編集モードが変更された時の処理
   useEffect(() => {
@@ -700,6 +785,17 @@ export const LPViewer: React.FC<LPViewerProps> = ({
         }}
       />
 
+      {/* セクションツールバー */}
+      {onRegenerateSection && lpDocument && toolbarSection && lpDocument.sections[toolbarSection.index] && (
+        <SectionToolbar
+          section={lpDocument.sections[toolbarSection.index]}
+          sectionIndex={toolbarSection.index}
+          position={toolbarSection.position}
+          isRegenerating={regeneratingSectionIndex === toolbarSection.index}
+          onRegenerate={onRegenerateSection}
+        />
+      )}
+
       {/* インライン編集エディター */}
       {inlineEditingId && (
         <div className="absolute inset-0 z-30 bg-black bg-opacity-20 flex items-center justify-center">
@@ -721,7 +817,7 @@ export const LPViewer: React.FC<LPViewerProps> = ({
         </div>
       )}
 
-      {/* メインのiframe */}
+      {/* メインのiframe（編集機能が contentDocument を操作するため allow-same-origin が必要。書き込む HTML と CSS はすべて無害化済み） */}
       <iframe
         ref={iframeRef}
         className={`w-full h-full border-none rounded-lg ${
@@ -1,6 +1,7 @@
 'use client';
 
 import { LPViewer } from './LPViewer';
+import { UsageBadge } from './UsageBadge';
 
 export function LpDisplay({ lpObject }: { lpObject: any }) {
   // デバッグ用ログ
@@ -35,7 +36,12 @@ export function LpDisplay({ lpObject }: { lpObject: any }) {
   
   return (
     <div className="h-full w-full bg-white rounded-lg overflow-hidden">
-      <LPViewer htmlContent={lpObject.htmlContent} />
+      {lpObject.metadata?.usage && (
+        <div className="flex justify-end p-2 border-b border-gray-100">
+          <UsageBadge usage={lpObject.metadata.usage} label="今回の生成" />
+        </div>
+      )}
+      <LPViewer htmlContent={lpObject.htmlContent} lpDocument={lpObject.document} />
     </div>
   );
 }
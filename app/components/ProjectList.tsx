@@ -0,0 +1,119 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { FolderOpen, Trash2 } from 'lucide-react';
+import { useProject } from '../contexts/ProjectContext';
+
+interface ProjectListProps {
+  onOpen: (projectId: string) => void;
+}
+
+interface ProjectThumbnailProps {
+  projectId: string;
+  updatedAt: string;
+  title: string;
+}
+
+// 最新リビジョンのスクリーンショット。撮影中（202）の間は Retry-After ごとに取得し直す
+const ProjectThumbnail: React.FC<ProjectThumbnailProps> = ({ projectId, updatedAt, title }) => {
+  const [status, setStatus] = useState<'loading' | 'loaded' | 'error'>('loading');
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    setStatus('loading');
+    setImageUrl(null);
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/thumbnail?updated=${encodeURIComponent(updatedAt)}`);
+        if (cancelled) return;
+        if (response.status === 202) {
+          const retryAfter = Number(response.headers.get('Retry-After')) || 5;
+          retryTimer = setTimeout(load, retryAfter * 1000);
+          return;
+        }
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const image = await response.blob();
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(image);
+        setImageUrl(objectUrl);
+      } catch {
+        if (!cancelled) setStatus('error');
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(retryTimer);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [projectId, updatedAt]);
+
+  return (
+    <div className="relative aspect-[16/10] bg-gray-100 border-b border-gray-200 overflow-hidden">
+      {imageUrl && status !== 'error' && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={imageUrl}
+          alt={`${title} のプレビュー`}
+          onLoad={() => setStatus('loaded')}
+          onError={() => setStatus('error')}
+          className={`w-full h-full object-cover object-top transition-opacity ${status === 'loaded' ? 'opacity-100' : 'opacity-0'}`}
+        />
+      )}
+      {status !== 'loaded' && (
+        <div className="absolute inset-0 flex items-center justify-center text-gray-400">
+          <FolderOpen className={`h-8 w-8 ${status === 'loading' ? 'animate-pulse' : ''}`} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ProjectList: React.FC<ProjectListProps> = ({ onOpen }) => {
+  const { projects, refreshProjects, removeProject } = useProject();
+
+  useEffect(() => {
+    refreshProjects();
+  }, [refreshProjects]);
+
+  if (projects.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-4xl px-8 pb-8">
+      <h2 className="text-sm font-semibold text-gray-700 mb-3">保存済みのプロジェクト</h2>
+      <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {projects.map(project => (
+          <li key={project.id} className="group relative border border-gray-200 rounded-lg bg-white overflow-hidden hover:shadow-md transition-shadow">
+            <button onClick={() => onOpen(project.id)} className="block w-full text-left">
+              <ProjectThumbnail projectId={project.id} updatedAt={project.updatedAt} title={project.title} />
+              <div className="p-3 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate group-hover:text-blue-700">{project.title}</p>
+                <p className="text-xs text-gray-500">
+                  {project.sectionCount} セクション・最終更新 {new Date(project.updatedAt).toLocaleString('ja-JP')}
+                </p>
+              </div>
+            </button>
+            <button
+              onClick={() => {
+                if (confirm(`「${project.title}」を削除しますか？`)) {
+                  removeProject(project.id);
+                }
+              }}
+              className="absolute top-2 right-2 p-1.5 bg-white/90 text-gray-400 hover:text-red-600 rounded shadow-sm transition-colors"
+              title="削除"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
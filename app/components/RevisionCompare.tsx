@@ -0,0 +1,239 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Columns2, GitCompare, Layers, Loader2, X } from 'lucide-react';
+import type { ScreenshotViewport } from '@/src/mastra/export';
+import type { ElementChange, ElementChangeType, LPScreenshotSummary, RevisionComparison } from '@/src/mastra/storage';
+
+interface RevisionCompareProps {
+  projectId: string;
+  fromRevisionId: string;
+  toRevisionId: string;
+  onClose: () => void;
+}
+
+type CompareMode = 'side-by-side' | 'overlay' | 'difference';
+
+const MODE_OPTIONS: Array<{ value: CompareMode; label: string; icon: React.ElementType }> = [
+  { value: 'side-by-side', label: '並べて表示', icon: Columns2 },
+  { value: 'overlay', label: '重ねて表示', icon: Layers },
+  { value: 'difference', label: '差分のみ', icon: GitCompare },
+];
+
+const CHANGE_LABELS: Record<ElementChangeType, { label: string; className: string }> = {
+  added: { label: '追加', className: 'bg-green-100 text-green-800' },
+  removed: { label: '削除', className: 'bg-red-100 text-red-800' },
+  text: { label: 'テキスト', className: 'bg-blue-100 text-blue-800' },
+  attributes: { label: '属性', className: 'bg-amber-100 text-amber-800' },
+};
+
+const fetchJson = async <T,>(url: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new Error(errorData?.details || errorData?.error || `HTTP ${response.status}`);
+  }
+  return response.json();
+};
+
+const ChangeDetail: React.FC<{ change: ElementChange }> = ({ change }) => {
+  if (change.type === 'text' && change.text) {
+    return (
+      <p className="text-xs text-gray-700 break-words">
+        {change.text.prefix}
+        {change.text.removed && <del className="bg-red-100 text-red-800">{change.text.removed}</del>}
+        {change.text.added && <ins className="bg-green-100 text-green-800 no-underline">{change.text.added}</ins>}
+        {change.text.suffix}
+      </p>
+    );
+  }
+  return (
+    <div className="text-xs break-words space-y-0.5">
+      {change.before !== null && <p className="text-red-700 line-through">{change.before || `<${change.tagName}>`}</p>}
+      {change.after !== null && <p className="text-green-700">{change.after || `<${change.tagName}>`}</p>}
+    </div>
+  );
+};
+
+export const RevisionCompare: React.FC<RevisionCompareProps> = ({ projectId, fromRevisionId, toRevisionId, onClose }) => {
+  const [comparison, setComparison] = useState<RevisionComparison | null>(null);
+  const [screenshots, setScreenshots] = useState<{ from: LPScreenshotSummary[]; to: LPScreenshotSummary[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [viewport, setViewport] = useState<ScreenshotViewport>('desktop');
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [overlayOpacity, setOverlayOpacity] = useState(50);
+
+  useEffect(() => {
+    const revisionsUrl = `/api/projects/${projectId}/revisions`;
+    setComparison(null);
+    setScreenshots(null);
+    setError(null);
+
+    fetchJson<{ comparison: RevisionComparison }>(`${revisionsUrl}/compare?from=${fromRevisionId}&to=${toRevisionId}`)
+      .then(data => setComparison(data.comparison))
+      .catch(error => setError(error.message));
+
+    // スクリーンショットは未撮影だとレンダリングに時間がかかるので構造差分とは別に取得
+    Promise.all([
+      fetchJson<{ screenshots: LPScreenshotSummary[] }>(`${revisionsUrl}/${fromRevisionId}/screenshots`),
+      fetchJson<{ screenshots: LPScreenshotSummary[] }>(`${revisionsUrl}/${toRevisionId}/screenshots`),
+    ])
+      .then(([from, to]) => setScreenshots({ from: from.screenshots, to: to.screenshots }))
+      .catch(error => {
+        console.error('[RevisionCompare] Failed to load screenshots:', error);
+        setScreenshots({ from: [], to: [] });
+      });
+  }, [projectId, fromRevisionId, toRevisionId]);
+
+  const getImageUrl = (revisionId: string, list: LPScreenshotSummary[]) => {
+    const screenshot = list.find(item => item.kind === 'page' && item.viewport === viewport);
+    return screenshot ? `/api/projects/${projectId}/revisions/${revisionId}/screenshots/${screenshot.id}` : null;
+  };
+  const fromImage = screenshots && getImageUrl(fromRevisionId, screenshots.from);
+  const toImage = screenshots && getImageUrl(toRevisionId, screenshots.to);
+
+  const renderVisualDiff = () => {
+    if (!screenshots) {
+      return (
+        <div className="flex items-center justify-center gap-2 h-64 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          スクリーンショットを撮影中...
+        </div>
+      );
+    }
+    if (!fromImage || !toImage) {
+      return <p className="p-6 text-sm text-gray-500">スクリーンショットを取得できませんでした</p>;
+    }
+
+    /* eslint-disable @next/next/no-img-element */
+    if (mode === 'side-by-side') {
+      return (
+        <div className="grid grid-cols-2 gap-4">
+          {[{ label: '変更前', src: fromImage }, { label: '変更後', src: toImage }].map(image => (
+            <figure key={image.label} className="min-w-0">
+              <figcaption className="text-xs font-medium text-gray-600 mb-1">{image.label}</figcaption>
+              <img src={image.src} alt={image.label} className="w-full border border-gray-200 rounded" />
+            </figure>
+          ))}
+        </div>
+      );
+    }
+    // 重ねて表示は不透明度で比較、差分のみは difference 合成で同じピクセルが黒になり変更箇所だけが浮かび上がる
+    return (
+      <div className="relative mx-auto" style={{ maxWidth: viewport === 'mobile' ? 390 : undefined }}>
+        <img src={fromImage} alt="変更前" className="w-full border border-gray-200 rounded" />
+        <img
+          src={toImage}
+          alt="変更後"
+          className="absolute top-0 left-0 w-full rounded"
+          style={mode === 'overlay' ? { opacity: overlayOpacity / 100 } : { mixBlendMode: 'difference' }}
+        />
+      </div>
+    );
+    /* eslint-enable @next/next/no-img-element */
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* オーバーレイ */}
+      <div className="absolute inset-0 bg-black bg-opacity-50 backdrop-blur-sm" onClick={onClose} />
+
+      {/* モーダル本体 */}
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-6xl mx-4 h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-blue-600" />
+            <h2 className="text-base font-semibold text-gray-900">バージョン比較</h2>
+            {comparison && (
+              <span className="text-xs text-gray-500">
+                {new Date(comparison.from.createdAt).toLocaleString('ja-JP')} → {new Date(comparison.to.createdAt).toLocaleString('ja-JP')}
+              </span>
+            )}
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded" title="閉じる">
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* 見た目の差分 */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="flex items-center gap-3 px-4 py-2 border-b border-gray-100">
+              <div className="flex rounded-md border border-gray-200 overflow-hidden">
+                {MODE_OPTIONS.map(({ value, label, icon: Icon }) => (
+                  <button
+                    key={value}
+                    onClick={() => setMode(value)}
+                    className={`flex items-center gap-1 px-2 py-1 text-xs ${
+                      mode === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <Icon className="h-3 w-3" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <select
+                value={viewport}
+                onChange={(e) => setViewport(e.target.value as ScreenshotViewport)}
+                className="px-2 py-1 text-xs border border-gray-200 rounded-md bg-white"
+                title="ビューポート"
+              >
+                <option value="desktop">デスクトップ</option>
+                <option value="mobile">モバイル</option>
+              </select>
+              {mode === 'overlay' && (
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  変更後の不透明度
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={overlayOpacity}
+                    onChange={(e) => setOverlayOpacity(Number(e.target.value))}
+                  />
+                </label>
+              )}
+            </div>
+            <div className="flex-1 overflow-auto p-4 bg-gray-50">{renderVisualDiff()}</div>
+          </div>
+
+          {/* 構造の差分 */}
+          <aside className="w-80 flex-shrink-0 border-l border-gray-200 flex flex-col">
+            <div className="px-4 py-2 border-b border-gray-100">
+              <h3 className="text-sm font-semibold text-gray-800">変更された要素</h3>
+              {comparison && (
+                <p className="text-xs text-gray-500">
+                  追加 {comparison.summary.added}・削除 {comparison.summary.removed}・テキスト {comparison.summary.text}・属性 {comparison.summary.attributes}
+                </p>
+              )}
+            </div>
+            <div className="flex-1 overflow-y-auto p-3">
+              {error ? (
+                <p className="text-xs text-red-600">比較に失敗しました: {error}</p>
+              ) : !comparison ? (
+                <p className="text-xs text-gray-500">読み込み中...</p>
+              ) : comparison.changes.length === 0 ? (
+                <p className="text-xs text-gray-500">編集可能な要素に変更はありません</p>
+              ) : (
+                <ul className="space-y-3">
+                  {comparison.changes.map(change => (
+                    <li key={`${change.id}-${change.type}`} className="border border-gray-200 rounded p-2">
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <code className="text-[11px] text-gray-600 truncate" title={change.id}>{change.id}</code>
+                        <span className={`text-[11px] px-1.5 py-0.5 rounded ${CHANGE_LABELS[change.type].className}`}>
+                          {CHANGE_LABELS[change.type].label}
+                        </span>
+                      </div>
+                      <ChangeDetail change={change} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+};
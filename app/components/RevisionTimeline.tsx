@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useEffect, useState, useCallback } from 'react';
+import { GitCompare, History, RotateCcw, X } from 'lucide-react';
+import { useProject } from '../contexts/ProjectContext';
+import { RevisionCompare } from './RevisionCompare';
+import type { LPProject, LPRevisionSummary } from '@/src/mastra/storage';
+
+interface RevisionTimelineProps {
+  onRestore: (project: LPProject) => void;
+  onClose: () => void;
+}
+
+// 変更元ごとの表示ラベル
+const SOURCE_LABELS: Record<string, string> = {
+  create: '作成',
+  update: '更新',
+  restore: '復元',
+  undo: '元に戻す',
+  redo: 'やり直し',
+  'manual-edit': '手動編集',
+  'regenerate-section': 'セクション再生成',
+  'section-reorder': 'セクション並べ替え',
+  'section-delete': 'セクション削除',
+  'section-visibility': 'セクション表示切替',
+  enhancedLPGeneratorTool: 'AI生成',
+  htmlLPTool: 'セクション生成',
+  partialUpdateMastraTool: 'テキスト更新',
+  aiPartialUpdateTool: 'AI改善',
+  partialUpdateLP: 'セクション再生成',
+  generateUnifiedLP: 'AI生成',
+};
+
+export const RevisionTimeline: React.FC<RevisionTimelineProps> = ({ onRestore, onClose }) => {
+  const { currentProjectId, lastSavedAt, restoreRevision } = useProject();
+  const [revisions, setRevisions] = useState<LPRevisionSummary[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [comparing, setComparing] = useState<{ from: string; to: string } | null>(null);
+
+  // 保存のたびに履歴を再取得
+  useEffect(() => {
+    if (!currentProjectId) {
+      setRevisions([]);
+      return;
+    }
+
+    fetch(`/api/projects/${currentProjectId}/revisions`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then(data => setRevisions(data.revisions))
+      .catch(error => console.error('[RevisionTimeline] Failed to load revisions:', error));
+  }, [currentProjectId, lastSavedAt]);
+
+  const handleRestore = useCallback(async (revisionId: string) => {
+    setRestoringId(revisionId);
+    const project = await restoreRevision(revisionId);
+    setRestoringId(null);
+    if (project) {
+      onRestore(project);
+    }
+  }, [restoreRevision, onRestore]);
+
+  return (
+    <aside className="w-72 flex-shrink-0 border-l border-gray-200 bg-gray-50 flex flex-col">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <History className="h-4 w-4 text-blue-600" />
+          <h3 className="text-sm font-semibold text-gray-800">変更履歴</h3>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded" title="閉じる">
+          <X className="h-4 w-4 text-gray-500" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3">
+        {!currentProjectId ? (
+          <p className="text-xs text-gray-500">LPを保存すると履歴が表示されます</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-xs text-gray-500">履歴はまだありません</p>
+        ) : (
+          <ol className="relative border-l border-gray-300 ml-2 space-y-4">
+            {revisions.map((revision, index) => (
+              <li key={revision.id} className="ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${
+                    index === 0 ? 'bg-blue-600' : 'bg-gray-400'
+                  }`}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-semibold text-gray-900">
+                    {SOURCE_LABELS[revision.source] || revision.source}
+                  </span>
+                  <time className="text-xs text-gray-500">
+                    {new Date(revision.createdAt).toLocaleString('ja-JP')}
+                  </time>
+                </div>
+                {revision.prompt && (
+                  <p className="text-xs text-gray-700 mt-1 line-clamp-2" title={revision.prompt}>
+                    {revision.prompt}
+                  </p>
+                )}
+                <div className="flex items-center justify-between mt-1">
+                  <span className="text-xs text-gray-500 font-mono">±{revision.diffSize.toLocaleString()} 文字</span>
+                  {/* 直前のリビジョンとの差分 */}
+                  {revisions[index + 1] && (
+                    <button
+                      onClick={() => setComparing({ from: revisions[index + 1].id, to: revision.id })}
+                      className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+                    >
+                      <GitCompare className="h-3 w-3" />
+                      差分
+                    </button>
+                  )}
+                  {index === 0 ? (
+                    <span className="text-xs text-blue-600 font-medium">現在</span>
+                  ) : (
+                    <button
+                      onClick={() => handleRestore(revision.id)}
+                      disabled={restoringId !== null}
+                      className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      {restoringId === revision.id ? '復元中...' : '復元'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {comparing && currentProjectId && (
+        <RevisionCompare
+          projectId={currentProjectId}
+          fromRevisionId={comparing.from}
+          toRevisionId={comparing.to}
+          onClose={() => setComparing(null)}
+        />
+      )}
+    </aside>
+  );
+};
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Eye, EyeOff, GripVertical, ListTree, Trash2, X } from 'lucide-react';
+import { isLPSectionHidden, type LPDocumentSection } from '@/src/mastra/schemas';
+import { SECTION_TYPE_LABELS, getSectionIcon } from './sectionLabels';
+
+interface SectionOutlineProps {
+  sections: LPDocumentSection[];
+  onMove: (from: number, to: number) => void;
+  onToggleHidden: (index: number, hidden: boolean) => void;
+  onDelete: (index: number) => void;
+  onClose: () => void;
+}
+
+interface OutlineItem {
+  id: string;
+  type: LPDocumentSection['type'];
+  rootId: string;
+  heading: string;
+  hidden: boolean;
+}
+
+// セクションのルート要素ID（section-N-root）と最初の見出しを抽出
+const toOutlineItem = (section: LPDocumentSection, index: number, parser: DOMParser): OutlineItem => {
+  const doc = parser.parseFromString(section.html, 'text/html');
+  const root = doc.querySelector('[data-editable-id$="-root"]');
+  const heading = doc.querySelector('h1, h2, h3')?.textContent?.trim().replace(/\s+/g, ' ');
+  return {
+    id: section.id,
+    type: section.type,
+    rootId: root?.getAttribute('data-editable-id') ?? `section-${index}`,
+    heading: heading || '(見出しなし)',
+    hidden: isLPSectionHidden(section.html),
+  };
+};
+
+export const SectionOutline: React.FC<SectionOutlineProps> = ({
+  sections,
+  onMove,
+  onToggleHidden,
+  onDelete,
+  onClose,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+
+  const items = useMemo(() => {
+    const parser = new DOMParser();
+    return sections.map((section, index) => toOutlineItem(section, index, parser));
+  }, [sections]);
+
+  const handleDragEnd = () => {
+    setDragIndex(null);
+    setDragOverIndex(null);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLIElement>, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null && dragIndex !== index) {
+      onMove(dragIndex, index);
+    }
+    handleDragEnd();
+  };
+
+  return (
+    <aside className="w-64 flex-shrink-0 border-r border-gray-200 bg-gray-50 flex flex-col">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <ListTree className="h-4 w-4 text-blue-600" />
+          <h3 className="text-sm font-semibold text-gray-800">セクション構成</h3>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded" title="閉じる">
+          <X className="h-4 w-4 text-gray-500" />
+        </button>
+      </div>
+
+      <ol className="flex-1 overflow-y-auto p-2 space-y-1">
+        {items.map((item, index) => (
+          <li
+            key={item.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragIndex(index);
+            }}
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'move';
+              setDragOverIndex(index);
+            }}
+            onDrop={(e) => handleDrop(e, index)}
+            onDragEnd={handleDragEnd}
+            className={`group flex items-center gap-2 p-2 bg-white rounded border cursor-grab ${
+              dragOverIndex === index && dragIndex !== index ? 'border-blue-500 border-dashed' : 'border-gray-200'
+            } ${dragIndex === index ? 'opacity-50' : ''}`}
+          >
+            <GripVertical className="h-4 w-4 flex-shrink-0 text-gray-400" />
+            <span className="text-base">{getSectionIcon(item.type)}</span>
+            <div className={`flex-1 min-w-0 ${item.hidden ? 'opacity-50' : ''}`}>
+              <p className="text-xs font-medium text-gray-800 truncate" title={item.heading}>{item.heading}</p>
+              <p className="text-[10px] text-gray-500 font-mono truncate">
+                {item.rootId} · {item.type === 'custom' ? 'カスタム' : SECTION_TYPE_LABELS[item.type]}
+              </p>
+            </div>
+            <button
+              onClick={() => onToggleHidden(index, !item.hidden)}
+              className="p-1 text-gray-400 hover:text-gray-700 rounded"
+              title={item.hidden ? '表示する' : '非表示にする'}
+            >
+              {item.hidden ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+            </button>
+            <button
+              onClick={() => onDelete(index)}
+              className="p-1 text-gray-400 hover:text-red-600 rounded"
+              title="削除"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </li>
+        ))}
+      </ol>
+    </aside>
+  );
+};
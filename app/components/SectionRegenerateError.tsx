@@ -0,0 +1,42 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, RotateCcw, X } from 'lucide-react';
+
+interface SectionRegenerateErrorProps {
+  sectionIndex: number;
+  message: string;
+  onRetry: () => void;
+  onDismiss: () => void;
+  isRegenerating?: boolean;
+}
+
+// セクションの再生成に失敗したことを知らせ、同じ指示で再試行できるようにする
+export const SectionRegenerateError: React.FC<SectionRegenerateErrorProps> = ({
+  sectionIndex,
+  message,
+  onRetry,
+  onDismiss,
+  isRegenerating = false,
+}) => (
+  <div className="mx-4 mt-3 rounded border border-red-200 bg-red-50 p-3 text-sm text-red-900" role="alert">
+    <div className="flex items-start gap-2">
+      <AlertCircle size={16} className="mt-0.5 shrink-0" />
+      <div className="flex-1">
+        <p className="font-semibold">セクション {sectionIndex + 1} を再生成できませんでした</p>
+        <p className="mt-1 break-words">{message}</p>
+      </div>
+      <button
+        onClick={onRetry}
+        disabled={isRegenerating}
+        className="inline-flex items-center gap-1 rounded px-2 py-0.5 text-xs bg-red-600 text-white hover:bg-red-700 disabled:bg-gray-400"
+      >
+        <RotateCcw size={12} />
+        {isRegenerating ? '再生成中...' : '再試行'}
+      </button>
+      <button onClick={onDismiss} className="text-red-700 hover:text-red-900" aria-label="閉じる">
+        <X size={16} />
+      </button>
+    </div>
+  </div>
+);
@@ -0,0 +1,106 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { RefreshCw, MessageSquarePlus, LayoutTemplate, Send } from 'lucide-react';
+import { LP_LAYOUT_TYPES, type LPDocumentSection, type LPLayoutType } from '@/src/mastra/schemas';
+import { LAYOUT_LABELS } from './sectionLabels';
+
+export interface RegenerateSectionOptions {
+  instructions?: string;
+  layoutType?: LPLayoutType;
+}
+
+interface SectionToolbarProps {
+  section: LPDocumentSection;
+  sectionIndex: number;
+  position: { x: number; y: number };
+  isRegenerating: boolean;
+  onRegenerate: (sectionIndex: number, options: RegenerateSectionOptions) => void;
+}
+
+export const SectionToolbar: React.FC<SectionToolbarProps> = ({
+  section,
+  sectionIndex,
+  position,
+  isRegenerating,
+  onRegenerate,
+}) => {
+  const [isInstructionOpen, setIsInstructionOpen] = useState(false);
+  const [instructions, setInstructions] = useState('');
+
+  // 別のセクションに移ったら指示入力を閉じる
+  useEffect(() => {
+    setIsInstructionOpen(false);
+    setInstructions('');
+  }, [section.id]);
+
+  const handleSubmitInstructions = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instructions.trim()) return;
+    onRegenerate(sectionIndex, { instructions: instructions.trim() });
+    setIsInstructionOpen(false);
+    setInstructions('');
+  };
+
+  return (
+    <div
+      className="fixed z-20 -translate-x-full bg-white border border-gray-200 rounded-lg shadow-lg text-black"
+      style={{ left: position.x, top: position.y }}
+    >
+      <div className="flex items-center gap-1 p-1">
+        <span className="px-2 text-xs font-medium text-gray-500">{section.type}</span>
+        <button
+          onClick={() => onRegenerate(sectionIndex, {})}
+          disabled={isRegenerating}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded hover:bg-blue-50 hover:text-blue-600 disabled:opacity-50"
+          title="このセクションを再生成"
+        >
+          <RefreshCw className={`h-3.5 w-3.5 ${isRegenerating ? 'animate-spin' : ''}`} />
+          {isRegenerating ? '再生成中...' : '再生成'}
+        </button>
+        <button
+          onClick={() => setIsInstructionOpen(prev => !prev)}
+          disabled={isRegenerating}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded hover:bg-purple-50 hover:text-purple-600 disabled:opacity-50"
+          title="指示を追加して再生成"
+        >
+          <MessageSquarePlus className="h-3.5 w-3.5" />
+          指示して再生成
+        </button>
+        <label className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600" title="レイアウトを変更して再生成">
+          <LayoutTemplate className="h-3.5 w-3.5" />
+          <select
+            value={section.layoutType}
+            disabled={isRegenerating}
+            onChange={(e) => onRegenerate(sectionIndex, { layoutType: e.target.value as LPLayoutType })}
+            className="text-xs bg-transparent border border-gray-200 rounded px-1 py-0.5"
+          >
+            {LP_LAYOUT_TYPES.map(layoutType => (
+              <option key={layoutType} value={layoutType}>{LAYOUT_LABELS[layoutType]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {isInstructionOpen && (
+        <form onSubmit={handleSubmitInstructions} className="flex items-center gap-1 p-1 border-t border-gray-100">
+          <input
+            autoFocus
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder="例: もっとシンプルに、実績の数字を入れて"
+            className="flex-1 min-w-[240px] px-2 py-1 text-xs border border-gray-300 rounded outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!instructions.trim()}
+            className="p-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400"
+            title="再生成"
+          >
+            <Send className="h-3.5 w-3.5" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
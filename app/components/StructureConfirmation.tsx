@@ -1,15 +1,5 @@
 import { StructureConfirmationClient } from './StructureConfirmationClient';
-
-interface LPSection {
-  type: 'hero' | 'features' | 'testimonials' | 'cta' | 'faq' | 'footer';
-  title: string;
-  description: string;
-}
-
-interface LPStructure {
-  title: string;
-  sections: LPSection[];
-}
+import type { LPStructure } from '@/src/mastra/schemas';
 
 interface StructureConfirmationProps {
   structure: LPStructure;
@@ -1,19 +1,14 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, type DragEvent } from 'react';
 import { useActions } from 'ai/rsc';
+import { GripVertical, Plus, Trash2 } from 'lucide-react';
 import { AI } from '../action';
+import { LP_LAYOUT_TYPES, LP_SECTION_TYPES, type LPLayoutType, type LPSectionType, type LPStructure } from '@/src/mastra/schemas';
+import { LAYOUT_LABELS, SECTION_TYPE_LABELS, getSectionIcon } from './sectionLabels';
 
-interface LPSection {
-  type: 'hero' | 'features' | 'testimonials' | 'cta' | 'faq' | 'footer';
-  title: string;
-  description: string;
-}
-
-interface LPStructure {
-  title: string;
-  sections: LPSection[];
-}
+// 構成案スキーマで許可されているセクション数の上限
+const MAX_SECTIONS = 12;
 
 interface StructureConfirmationClientProps {
   structure: LPStructure;
@@ -22,6 +17,9 @@ interface StructureConfirmationClientProps {
 export function StructureConfirmationClient({ structure }: StructureConfirmationClientProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editedStructure, setEditedStructure] = useState<LPStructure>(structure);
+  const [newSectionType, setNewSectionType] = useState<LPSectionType>('features');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
   const { submitUserMessage } = useActions<typeof AI>() as { submitUserMessage: (userInput: string, selectedElementId: string | null) => Promise<any> };
 
   const handleConfirm = async () => {
@@ -56,28 +54,64 @@ export function StructureConfirmationClient({ structure }: StructureConfirmation
     setIsEditing(false);
   };
 
-  const updateSectionTitle = (index: number, title: string) => {
+  const updateSection = (index: number, patch: Partial<LPStructure['sections'][number]>) => {
     const newSections = [...editedStructure.sections];
-    newSections[index] = { ...newSections[index], title };
+    newSections[index] = { ...newSections[index], ...patch };
     setEditedStructure({ ...editedStructure, sections: newSections });
   };
 
-  const updateSectionDescription = (index: number, description: string) => {
+  const addSection = () => {
+    if (editedStructure.sections.length >= MAX_SECTIONS) return;
+    const newSection = {
+      type: newSectionType,
+      title: SECTION_TYPE_LABELS[newSectionType],
+      description: '',
+      prompt: '',
+      layoutType: 'default' as const,
+    };
+    setEditedStructure({ ...editedStructure, sections: [...editedStructure.sections, newSection] });
+  };
+
+  const removeSection = (index: number) => {
+    // 構成案には最低1セクションが必要
+    if (editedStructure.sections.length <= 1) return;
+    setEditedStructure({
+      ...editedStructure,
+      sections: editedStructure.sections.filter((_, i) => i !== index),
+    });
+  };
+
+  const moveSection = (from: number, to: number) => {
+    if (from === to) return;
     const newSections = [...editedStructure.sections];
-    newSections[index] = { ...newSections[index], description };
+    const [moved] = newSections.splice(from, 1);
+    newSections.splice(to, 0, moved);
     setEditedStructure({ ...editedStructure, sections: newSections });
   };
 
-  const getSectionIcon = (type: string) => {
-    switch (type) {
-      case 'hero': return '🎯';
-      case 'features': return '⭐';
-      case 'testimonials': return '💬';
-      case 'cta': return '🚀';
-      case 'faq': return '❓';
-      case 'footer': return '📄';
-      default: return '📝';
+  const handleDragStart = (e: DragEvent<HTMLDivElement>, index: number) => {
+    e.dataTransfer.effectAllowed = 'move';
+    setDragIndex(index);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>, index: number) => {
+    if (dragIndex === null) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDragOverIndex(index);
+  };
+
+  const handleDragEnd = () => {
+    setDragIndex(null);
+    setDragOverIndex(null);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null) {
+      moveSection(dragIndex, index);
     }
+    handleDragEnd();
   };
 
   return (
@@ -102,7 +136,22 @@ export function StructureConfirmationClient({ structure }: StructureConfirmation
 
       <div className="space-y-4 mb-6">
         {(isEditing ? editedStructure : structure).sections.map((section, index) => (
-          <div key={index} className="flex items-start gap-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <div
+            key={index}
+            draggable={isEditing}
+            onDragStart={(e) => handleDragStart(e, index)}
+            onDragOver={(e) => handleDragOver(e, index)}
+            onDrop={(e) => handleDrop(e, index)}
+            onDragEnd={handleDragEnd}
+            className={`flex items-start gap-4 p-4 bg-gray-50 rounded-lg border ${
+              dragOverIndex === index && dragIndex !== index ? 'border-blue-500 border-dashed' : 'border-gray-200'
+            } ${dragIndex === index ? 'opacity-50' : ''}`}
+          >
+            {isEditing && (
+              <div className="pt-1 text-gray-400 cursor-grab" title="ドラッグして並べ替え">
+                <GripVertical className="h-5 w-5" />
+              </div>
+            )}
             <div className="text-2xl">{getSectionIcon(section.type)}</div>
             <div className="flex-1">
               <div className="flex items-center gap-2 mb-2">
@@ -112,13 +161,39 @@ export function StructureConfirmationClient({ structure }: StructureConfirmation
                 <span className="text-xs bg-gray-200 text-gray-600 px-2 py-1 rounded-full">
                   セクション {index + 1}
                 </span>
+                {isEditing ? (
+                  <>
+                    <select
+                      value={section.layoutType}
+                      onChange={(e) => updateSection(index, { layoutType: e.target.value as LPLayoutType })}
+                      className="ml-auto text-xs text-gray-700 border border-gray-300 rounded-md px-2 py-1"
+                      title="レイアウト"
+                    >
+                      {LP_LAYOUT_TYPES.map(layoutType => (
+                        <option key={layoutType} value={layoutType}>{LAYOUT_LABELS[layoutType]}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => removeSection(index)}
+                      disabled={editedStructure.sections.length <= 1}
+                      className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400"
+                      title="セクションを削除"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-xs bg-blue-50 text-blue-600 px-2 py-1 rounded-full">
+                    {LAYOUT_LABELS[section.layoutType]}
+                  </span>
+                )}
               </div>
               <h3 className="text-lg font-semibold text-gray-800 mb-2">
                 {isEditing ? (
                   <input
                     type="text"
-                    value={editedStructure.sections[index].title}
-                    onChange={(e) => updateSectionTitle(index, e.target.value)}
+                    value={section.title}
+                    onChange={(e) => updateSection(index, { title: e.target.value })}
                     className="w-full px-3 py-1 border border-gray-300 rounded-md"
                   />
                 ) : (
@@ -128,8 +203,9 @@ export function StructureConfirmationClient({ structure }: StructureConfirmation
               <p className="text-gray-600 text-sm">
                 {isEditing ? (
                   <textarea
-                    value={editedStructure.sections[index].description}
-                    onChange={(e) => updateSectionDescription(index, e.target.value)}
+                    value={section.description}
+                    onChange={(e) => updateSection(index, { description: e.target.value })}
+                    placeholder="このセクションに含めたい内容"
                     className="w-full px-3 py-2 border border-gray-300 rounded-md resize-none"
                     rows={2}
                   />
@@ -142,6 +218,28 @@ export function StructureConfirmationClient({ structure }: StructureConfirmation
         ))}
       </div>
 
+      {isEditing && (
+        <div className="flex items-center gap-2 mb-6">
+          <select
+            value={newSectionType}
+            onChange={(e) => setNewSectionType(e.target.value as LPSectionType)}
+            className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md"
+          >
+            {LP_SECTION_TYPES.map(type => (
+              <option key={type} value={type}>{getSectionIcon(type)} {SECTION_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <button
+            onClick={addSection}
+            disabled={editedStructure.sections.length >= MAX_SECTIONS}
+            className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="h-4 w-4" />
+            セクションを追加
+          </button>
+        </div>
+      )}
+
       <div className="flex justify-end gap-3">
         {isEditing ? (
           <>
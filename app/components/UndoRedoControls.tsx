@@ -0,0 +1,30 @@
+'use client';
+
+import React from 'react';
+import { Undo2, Redo2 } from 'lucide-react';
+import { useUndoRedo } from '../contexts/UndoRedoContext';
+
+export const UndoRedoControls: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { canUndo, canRedo, undoLabel, redoLabel, undo, redo } = useUndoRedo();
+
+  return (
+    <div className={`flex items-center gap-1 ${className}`}>
+      <button
+        onClick={undo}
+        disabled={!canUndo}
+        className="p-1.5 rounded text-gray-700 hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        title={undoLabel ? `元に戻す: ${undoLabel} (Ctrl+Z)` : '元に戻す (Ctrl+Z)'}
+      >
+        <Undo2 className="h-4 w-4" />
+      </button>
+      <button
+        onClick={redo}
+        disabled={!canRedo}
+        className="p-1.5 rounded text-gray-700 hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        title={redoLabel ? `やり直し: ${redoLabel} (Ctrl+Shift+Z)` : 'やり直し (Ctrl+Shift+Z)'}
+      >
+        <Redo2 className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+'use client';
+
+import React from 'react';
+import { Coins } from 'lucide-react';
+import type { UsageTotals } from '@/src/mastra/providers';
+
+interface UsageBadgeProps {
+  usage: UsageTotals;
+  label?: string;
+}
+
+function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(costUsd > 0 && costUsd < 0.01 ? 4 : 2)}`;
+}
+
+// トークン使用量と推定コストの表示（価格不明のモデルの呼び出しはコストに含まれない）
+export const UsageBadge: React.FC<UsageBadgeProps> = ({ usage, label = '使用量' }) => (
+  <span
+    className="inline-flex items-center gap-1 rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-600"
+    title={`入力 ${usage.promptTokens.toLocaleString()} / 出力 ${usage.completionTokens.toLocaleString()} トークン（${usage.calls} 回の呼び出し）`}
+  >
+    <Coins size={12} />
+    {label}: {usage.totalTokens.toLocaleString()} トークン・{formatCost(usage.costUsd)}
+    {usage.unpricedCalls > 0 && <span className="text-amber-600">（一部価格不明）</span>}
+  </span>
+);
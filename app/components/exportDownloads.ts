@@ -0,0 +1,77 @@
+import type { PdfViewport, StaticExportFile } from '@/src/mastra/export';
+import type { LPColorScheme, LPDocumentSection } from '@/src/mastra/schemas';
+
+interface ExportRequest {
+  title: string;
+  htmlContent: string;
+  cssContent?: string;
+}
+
+interface SiteExportRequest extends ExportRequest {
+  description?: string;
+  siteUrl?: string;
+  colorScheme?: LPColorScheme | null;
+}
+
+// ファイル名に使えない文字を置き換える
+const toFileBaseName = (title: string) => title.replace(/[^a-z0-9]/gi, '_') || 'landing_page';
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// サーバーで Tailwind をコンパイルした静的エクスポート（index.html + styles.css）を取得
+export const requestStaticExport = async (request: ExportRequest): Promise<StaticExportFile[]> => {
+  const response = await fetch('/api/export/static', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `HTTP ${response.status}`);
+  }
+  return data.files;
+};
+
+// 静的エクスポートの各ファイルをダウンロード
+export const downloadStaticExport = async (request: ExportRequest) => {
+  const files = await requestStaticExport(request);
+  for (const file of files) {
+    const type = file.path.endsWith('.css') ? 'text/css;charset=utf-8' : 'text/html;charset=utf-8';
+    downloadBlob(new Blob([file.content], { type }), file.path);
+  }
+};
+
+// サーバーで生成したファイル（ZIP・PDFなど）を取得してダウンロード
+const downloadGeneratedFile = async (endpoint: string, request: object, fileName: string) => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.details || data.error || `HTTP ${response.status}`);
+  }
+  downloadBlob(await response.blob(), fileName);
+};
+
+// index.html・CSS・画像・robots.txt・sitemap.xml などをまとめたZIPをダウンロード
+export const downloadSiteZip = (request: SiteExportRequest) =>
+  downloadGeneratedFile('/api/export/zip', request, `${toFileBaseName(request.title)}.zip`);
+
+// 指定したビューポート幅でレンダリングしたPDFをダウンロード
+export const downloadPdf = (request: ExportRequest & { viewport: PdfViewport }) =>
+  downloadGeneratedFile('/api/export/pdf', request, `${toFileBaseName(request.title)}_${request.viewport}.pdf`);
+
+// セクションごとの React コンポーネント（Next.js 用フォルダ）をZIPでダウンロード
+export const downloadReactProject = (request: { title: string; sections: LPDocumentSection[]; cssContent?: string }) =>
+  downloadGeneratedFile('/api/export/react', request, `${toFileBaseName(request.title)}_react.zip`);
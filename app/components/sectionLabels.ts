@@ -0,0 +1,45 @@
+import type { LPLayoutType, LPSectionType } from '@/src/mastra/schemas';
+
+// セクションタイプの表示ラベル
+export const SECTION_TYPE_LABELS: Record<LPSectionType, string> = {
+  hero: 'ヒーロー',
+  features: '特徴',
+  testimonials: 'お客様の声',
+  cta: 'CTA',
+  faq: 'よくある質問',
+  footer: 'フッター',
+  about: '会社概要',
+  pricing: '料金',
+  contact: 'お問い合わせ',
+};
+
+// レイアウトタイプの表示ラベル
+export const LAYOUT_LABELS: Record<LPLayoutType, string> = {
+  default: 'デフォルト',
+  'image-left': '画像左',
+  'image-right': '画像右',
+  'full-graphic': 'フルグラフィック',
+  quote: '引用',
+  comparison: '比較',
+  timeline: 'タイムライン',
+  list: 'リスト',
+  title: 'タイトル',
+  'section-break': '区切り',
+  'data-visualization': 'データ可視化',
+  'photo-with-caption': '写真とキャプション',
+};
+
+export const getSectionIcon = (type: string) => {
+  switch (type) {
+    case 'hero': return '🎯';
+    case 'features': return '⭐';
+    case 'testimonials': return '💬';
+    case 'cta': return '🚀';
+    case 'faq': return '❓';
+    case 'footer': return '📄';
+    case 'about': return '🏢';
+    case 'pricing': return '💰';
+    case 'contact': return '✉️';
+    default: return '📝';
+  }
+};
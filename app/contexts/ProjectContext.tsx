@@ -0,0 +1,160 @@
+'use client';
+
+import React, { createContext, useState, useContext, useCallback, useRef, ReactNode } from 'react';
+import type { LPProject, LPProjectSummary, ProjectInput } from '@/src/mastra/storage';
+
+interface ProjectContextType {
+  projects: LPProjectSummary[];
+  currentProjectId: string | null;
+  isSaving: boolean;
+  lastSavedAt: string | null;
+  refreshProjects: () => Promise<void>;
+  saveProject: (payload: ProjectInput) => Promise<LPProject | null>;
+  openProject: (id: string) => Promise<LPProject | null>;
+  removeProject: (id: string) => Promise<void>;
+  restoreRevision: (revisionId: string) => Promise<LPProject | null>;
+  closeProject: () => void;
+}
+
+const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
+
+export const ProjectProvider = ({ children }: { children: ReactNode }) => {
+  const [projects, setProjects] = useState<LPProjectSummary[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  // 保存処理は非同期に完了するため、最新のプロジェクトIDは ref から読む
+  const currentProjectIdRef = useRef<string | null>(null);
+  // 保存は直列に実行する（初回の作成が終わる前の保存で重複したプロジェクトを作らないため）
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  // 開く・閉じる・削除で切り替わるページの世代。前のページで予約された保存は破棄する
+  const sessionRef = useRef(0);
+
+  const selectProject = useCallback((id: string | null, savedAt: string | null) => {
+    currentProjectIdRef.current = id;
+    setCurrentProjectId(id);
+    setLastSavedAt(savedAt);
+  }, []);
+
+  const switchProject = useCallback((id: string | null, savedAt: string | null) => {
+    sessionRef.current++;
+    selectProject(id, savedAt);
+  }, [selectProject]);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      const response = await fetch('/api/projects');
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setProjects(data.projects);
+    } catch (error) {
+      console.error('[Projects] Failed to load project list:', error);
+    }
+  }, []);
+
+  // 現在のプロジェクトがあれば更新、なければ新規作成（前の保存が終わってから実行する）
+  const saveProject = useCallback((payload: ProjectInput) => {
+    const session = sessionRef.current;
+    const save = saveQueueRef.current.then(async () => {
+      if (sessionRef.current !== session) return null;
+      // 同じページの先行する保存で作成されたIDはここで引き継ぐ
+      const projectId = currentProjectIdRef.current;
+      setIsSaving(true);
+      try {
+        const response = await fetch(projectId ? `/api/projects/${projectId}` : '/api/projects', {
+          method: projectId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const { project } = (await response.json()) as { project: LPProject };
+        // 保存中に閉じた・別のプロジェクトを開いた場合は選択を戻さない
+        if (sessionRef.current === session) {
+          selectProject(project.id, project.updatedAt);
+        }
+        return project;
+      } catch (error) {
+        console.error('[Projects] Failed to save project:', error);
+        return null;
+      } finally {
+        setIsSaving(false);
+      }
+    });
+    saveQueueRef.current = save;
+    return save;
+  }, [selectProject]);
+
+  const openProject = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/projects/${id}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const { project } = (await response.json()) as { project: LPProject };
+      switchProject(project.id, project.updatedAt);
+      return project;
+    } catch (error) {
+      console.error(`[Projects] Failed to open project ${id}:`, error);
+      return null;
+    }
+  }, [switchProject]);
+
+  const removeProject = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/projects/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setProjects(prev => prev.filter(project => project.id !== id));
+      if (currentProjectIdRef.current === id) {
+        switchProject(null, null);
+      }
+    } catch (error) {
+      console.error(`[Projects] Failed to delete project ${id}:`, error);
+    }
+  }, [switchProject]);
+
+  // 過去のリビジョンを現在のページとして復元
+  const restoreRevision = useCallback(async (revisionId: string) => {
+    if (!currentProjectId) return null;
+    try {
+      const response = await fetch(`/api/projects/${currentProjectId}/revisions/${revisionId}/restore`, {
+        method: 'POST',
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const { project } = (await response.json()) as { project: LPProject };
+      setLastSavedAt(project.updatedAt);
+      return project;
+    } catch (error) {
+      console.error(`[Projects] Failed to restore revision ${revisionId}:`, error);
+      return null;
+    }
+  }, [currentProjectId]);
+
+  const closeProject = useCallback(() => {
+    switchProject(null, null);
+  }, [switchProject]);
+
+  return (
+    <ProjectContext.Provider
+      value={{
+        projects,
+        currentProjectId,
+        isSaving,
+        lastSavedAt,
+        refreshProjects,
+        saveProject,
+        openProject,
+        removeProject,
+        restoreRevision,
+        closeProject,
+      }}
+    >
+      {children}
+    </ProjectContext.Provider>
+  );
+};
+
+export const useProject = () => {
+  const context = useContext(ProjectContext);
+  if (context === undefined) {
+    throw new Error('useProject must be used within a ProjectProvider');
+  }
+  return context;
+};
@@ -0,0 +1,157 @@
+'use client';
+
+import React, { createContext, useState, useContext, useRef, useCallback, useEffect, ReactNode } from 'react';
+
+export type EditCommandType =
+  | 'text-edit'
+  | 'ai-improve'
+  | 'section-reorder'
+  | 'section-delete'
+  | 'section-visibility'
+  | 'section-regenerate'
+  | 'html-edit';
+
+// 取り消し・やり直し可能な編集操作
+export interface EditCommand {
+  type: EditCommandType;
+  label: string;
+  execute: () => void;
+  undo: () => void;
+}
+
+interface UndoRedoContextType {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  execute: (command: EditCommand) => void;
+  record: (command: EditCommand) => void;
+  undo: () => void;
+  redo: () => void;
+  clear: () => void;
+  handleShortcut: (e: KeyboardEvent) => void;
+}
+
+const MAX_HISTORY = 100;
+
+/**
+ * Builds a command that swaps the page HTML between two snapshots.
+ */
+export function createHtmlChangeCommand({
+  type,
+  label,
+  before,
+  after,
+  apply,
+}: {
+  type: EditCommandType;
+  label: string;
+  before: string;
+  after: string;
+  apply: (html: string, direction: 'undo' | 'redo') => void;
+}): EditCommand {
+  return {
+    type,
+    label,
+    execute: () => apply(after, 'redo'),
+    undo: () => apply(before, 'undo'),
+  };
+}
+
+const UndoRedoContext = createContext<UndoRedoContextType | undefined>(undefined);
+
+export const UndoRedoProvider = ({ children }: { children: ReactNode }) => {
+  // スタックは副作用を伴うため ref で保持し、表示更新用にバージョンを持つ
+  const pastRef = useRef<EditCommand[]>([]);
+  const futureRef = useRef<EditCommand[]>([]);
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion(v => v + 1);
+
+  // 既に適用済みの変更を履歴に積む
+  const record = useCallback((command: EditCommand) => {
+    pastRef.current = [...pastRef.current, command].slice(-MAX_HISTORY);
+    futureRef.current = [];
+    bump();
+  }, []);
+
+  const execute = useCallback((command: EditCommand) => {
+    command.execute();
+    record(command);
+  }, [record]);
+
+  const undo = useCallback(() => {
+    const command = pastRef.current[pastRef.current.length - 1];
+    if (!command) return;
+    command.undo();
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, command];
+    bump();
+  }, []);
+
+  const redo = useCallback(() => {
+    const command = futureRef.current[futureRef.current.length - 1];
+    if (!command) return;
+    command.execute();
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [...pastRef.current, command];
+    bump();
+  }, []);
+
+  const clear = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    bump();
+  }, []);
+
+  // Ctrl+Z / Ctrl+Shift+Z（macOS は Cmd）。入力欄ではブラウザ標準の取り消しを優先する
+  const handleShortcut = useCallback((e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+    const target = e.target as HTMLElement | null;
+    if (target?.closest?.('input, textarea, [contenteditable="true"]')) return;
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      redo();
+    }
+  }, [undo, redo]);
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleShortcut);
+    return () => window.removeEventListener('keydown', handleShortcut);
+  }, [handleShortcut]);
+
+  const past = pastRef.current;
+  const future = futureRef.current;
+
+  return (
+    <UndoRedoContext.Provider
+      value={{
+        canUndo: past.length > 0,
+        canRedo: future.length > 0,
+        undoLabel: past.length > 0 ? past[past.length - 1].label : null,
+        redoLabel: future.length > 0 ? future[future.length - 1].label : null,
+        execute,
+        record,
+        undo,
+        redo,
+        clear,
+        handleShortcut,
+      }}
+    >
+      {children}
+    </UndoRedoContext.Provider>
+  );
+};
+
+export const useUndoRedo = () => {
+  const context = useContext(UndoRedoContext);
+  if (context === undefined) {
+    throw new Error('useUndoRedo must be used within an UndoRedoProvider');
+  }
+  return context;
+};
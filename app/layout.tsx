@@ -3,6 +3,8 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { AI } from './action';
 import { EditModeProvider } from '@/app/contexts/EditModeContext';
+import { ProjectProvider } from '@/app/contexts/ProjectContext';
+import { UndoRedoProvider } from '@/app/contexts/UndoRedoContext';
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -29,7 +31,7 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <AI><EditModeProvider>{children}</EditModeProvider></AI>
+        <AI><ProjectProvider><EditModeProvider><UndoRedoProvider>{children}</UndoRedoProvider></EditModeProvider></ProjectProvider></AI>
       </body>
     </html>
   );
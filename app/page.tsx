@@ -1,20 +1,47 @@
 'use client';
 
 import { useChat } from '@ai-sdk/react';
-import React, { useState, FormEvent, ChangeEvent, useMemo, useEffect } from 'react';
+import React, { useState, FormEvent, ChangeEvent, useMemo, useEffect, useRef, useCallback } from 'react';
 import { flushSync } from 'react-dom';
 import { useEditMode } from './contexts/EditModeContext';
+import { useProject } from './contexts/ProjectContext';
+import { useUndoRedo, createHtmlChangeCommand } from './contexts/UndoRedoContext';
 import type { Message } from 'ai';
 import { LPTool } from './components/LPTool';
 import { LPViewer } from './components/LPViewer';
 import { EditModal } from './components/EditModal';
 import { MarkdownRenderer } from './components/MarkdownRenderer';
+import { ProjectList } from './components/ProjectList';
+import { RevisionTimeline } from './components/RevisionTimeline';
+import { SectionOutline } from './components/SectionOutline';
+import { GenerationNotice } from './components/GenerationNotice';
+import { SectionRegenerateError } from './components/SectionRegenerateError';
+import { downloadReactProject, downloadSiteZip, downloadStaticExport } from './components/exportDownloads';
+import { UndoRedoControls } from './components/UndoRedoControls';
+import { UsageBadge } from './components/UsageBadge';
+import type { RegenerateSectionOptions } from './components/SectionToolbar';
+import { regenerateSection } from './sectionActions';
+import type { SectionOutputReport } from '@/src/mastra/tools/lpGeneratorTool';
+import type { LPProject, ProjectUsage, RevisionMeta } from '@/src/mastra/storage';
+import {
+  applyGenerationEvents,
+  mergeSectionHtmls,
+  moveLPSection,
+  removeLPSection,
+  renderLPDocumentHtml,
+  replaceLPSection,
+  sectionHtmlsFromRoot,
+  setLPSectionHidden,
+  type LPDocument,
+} from '@/src/mastra/schemas';
+import { summarizeSanitizeReport } from '@/src/mastra/security/htmlSanitizer';
 
 // --- Prop Types ---
 interface InitialViewProps {
   input: string;
   handleInputChange: (e: ChangeEvent<HTMLInputElement>) => void;
   handleSubmit: (e: FormEvent<HTMLFormElement>) => void;
+  onOpenProject: (projectId: string) => void;
 }
 
 interface MainViewProps {
@@ -29,11 +56,17 @@ interface MainViewProps {
   getPlaceholder: () => string;
   setInput: (value: string) => void;
   sendPrompt: (prompt: string) => void;
+  isLoading: boolean;
+  restoredProject: LPProject | null;
+  streamData?: unknown[];
+  onNewPage: () => void;
+  // 保存前の生成の使用量をプロジェクトに紐付けるためのチャット ID
+  chatId: string;
 }
 
 // --- Standalone Components ---
 
-const InitialView = ({ input, handleInputChange, handleSubmit }: InitialViewProps) => (
+const InitialView = ({ input, handleInputChange, handleSubmit, onOpenProject }: InitialViewProps) => (
   <div className="flex flex-col items-center justify-center h-full bg-gray-50">
     <div className="w-full max-w-2xl p-8 text-center">
       <h1 className="text-4xl font-bold text-gray-800 mb-4">今日は何をデザインしますか？</h1>
@@ -55,18 +88,81 @@ const InitialView = ({ input, handleInputChange, handleSubmit }: InitialViewProp
         </button>
       </form>
     </div>
+    <ProjectList onOpen={onOpenProject} />
   </div>
 );
 
 // LP Tool 状態管理
+interface LPStructureInfo {
+  title?: string;
+  colorScheme?: LPProject['colorScheme'];
+  designStyle?: string;
+  [key: string]: unknown;
+}
+
 interface LPToolState {
   isActive: boolean;
   htmlContent: string;
   cssContent: string;
   title: string;
+  structure?: LPStructureInfo | null;
+  document?: LPDocument | null;
+  lastChange?: RevisionMeta;
   forcePanelOpen?: boolean;
+  // セクションIDごとの生成結果（代替モデル・仮の内容の表示に使う）
+  sectionOutputs?: Record<string, SectionOutputReport>;
 }
 
+// htmlContent を返すツール（部分更新ツールはHTMLのみを差し替える）
+const LP_GENERATOR_TOOLS = ['enhancedLPGeneratorTool', 'htmlLPTool'];
+const LP_PARTIAL_UPDATE_TOOLS = ['partialUpdateMastraTool', 'aiPartialUpdateTool'];
+const LP_RESULT_TOOLS = [...LP_GENERATOR_TOOLS, ...LP_PARTIAL_UPDATE_TOOLS];
+
+// LP生成ツールの最新の toolCallId を取得
+const findLatestLPToolCallId = (messages: Message[]): string | null => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const invocations = messages[i].toolInvocations || [];
+    for (let j = invocations.length - 1; j >= 0; j--) {
+      const invocation = invocations[j];
+      if (LP_RESULT_TOOLS.includes(invocation.toolName) && invocation.state === 'result') {
+        return invocation.toolCallId;
+      }
+    }
+  }
+  return null;
+};
+
+// 保存済みプロジェクトのセクションからLP文書を組み立てる
+const projectToDocument = (project: LPProject): LPDocument | null => project.sections.length > 0 ? {
+  title: project.title,
+  sections: project.sections,
+  cssContent: project.cssContent,
+  colorScheme: project.colorScheme,
+  designStyle: project.designStyle,
+} : null;
+
+// 生成結果のセクション番号ごとのレポートを、並べ替えても対応が崩れないようセクションIDに紐づける
+const toSectionOutputMap = (
+  document: LPDocument | null,
+  outputs: Array<SectionOutputReport & { sectionIndex: number }> | undefined
+): Record<string, SectionOutputReport> | undefined => {
+  if (!document || !outputs) return undefined;
+  return Object.fromEntries(outputs.flatMap(({ sectionIndex, ...output }) => {
+    const section = document.sections[sectionIndex];
+    return section ? [[section.id, output]] : [];
+  }));
+};
+
+// アシスタントメッセージの直前のユーザー入力（変更のきっかけとなったプロンプト）を取得
+const findTriggeringPrompt = (messages: Message[], message: Message): string | null => {
+  for (let i = messages.indexOf(message) - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') {
+      return messages[i].content;
+    }
+  }
+  return null;
+};
+
 const MainView = ({
   messages,
   input,
@@ -79,14 +175,252 @@ const MainView = ({
   getPlaceholder,
   setInput,
   sendPrompt,
+  isLoading,
+  restoredProject,
+  streamData,
+  onNewPage,
+  chatId,
 }: MainViewProps) => {
-  const [lpToolState, setLpToolState] = useState<LPToolState>({
+  const [lpToolState, setLpToolState] = useState<LPToolState>(() => restoredProject ? {
+    isActive: true,
+    htmlContent: restoredProject.htmlContent,
+    cssContent: restoredProject.cssContent,
+    title: restoredProject.title,
+    structure: restoredProject.structure as LPStructureInfo | null,
+    document: projectToDocument(restoredProject),
+    forcePanelOpen: false
+  } : {
     isActive: false,
     htmlContent: '',
     cssContent: '',
     title: '生成されたランディングページ',
     forcePanelOpen: false
   });
+  const { currentProjectId, isSaving, lastSavedAt, saveProject } = useProject();
+  const { record } = useUndoRedo();
+
+  // HTMLの変更（手動編集・取り消し・部分更新）をセクション単位の文書に反映
+  const lpDocument = useMemo(() => {
+    if (!lpToolState.document || !lpToolState.htmlContent) return null;
+    const doc = new DOMParser().parseFromString(lpToolState.htmlContent, 'text/html');
+    return mergeSectionHtmls(lpToolState.document, sectionHtmlsFromRoot(doc.body));
+  }, [lpToolState.document, lpToolState.htmlContent]);
+
+  // 生成中のLP（構成と完成済みのセクション）を逐次プレビューする
+  const generationProgress = useMemo(() => applyGenerationEvents(streamData), [streamData]);
+  const streamingDocument = isLoading && generationProgress && !generationProgress.isComplete
+    ? generationProgress.document
+    : null;
+
+  // 取り消し用に直前のHTMLを保持
+  const htmlContentRef = useRef(lpToolState.htmlContent);
+  useEffect(() => {
+    htmlContentRef.current = lpToolState.htmlContent;
+  }, [lpToolState.htmlContent]);
+
+  // 取り消し・やり直しでHTMLスナップショットを適用
+  const applyHtmlSnapshot = useCallback((html: string, direction: 'undo' | 'redo') => {
+    setLpToolState(prev => ({
+      ...prev,
+      htmlContent: html,
+      lastChange: { source: direction }
+    }));
+  }, []);
+
+  // 適用済みのツール結果（復元したプロジェクトの結果で保存済みHTMLを上書きしないため）
+  const appliedToolCallIdRef = useRef<string | null>(
+    restoredProject ? findLatestLPToolCallId(restoredProject.messages as Message[]) : null
+  );
+
+  // セクション単位の再生成（対象セクションのみ差し替える）
+  const [regeneratingSectionIndex, setRegeneratingSectionIndex] = useState<number | null>(null);
+  // 失敗した再生成は、同じ指示で再試行できるようにオプションごと保持する
+  const [regenerateError, setRegenerateError] = useState<{ sectionIndex: number; options: RegenerateSectionOptions; message: string } | null>(null);
+  const handleRegenerateSection = useCallback(async (sectionIndex: number, options: RegenerateSectionOptions) => {
+    if (!lpDocument || regeneratingSectionIndex !== null) return;
+
+    setRegeneratingSectionIndex(sectionIndex);
+    setRegenerateError(null);
+    try {
+      const result = await regenerateSection({
+        document: lpDocument,
+        sectionIndex,
+        projectId: currentProjectId,
+        sessionId: chatId,
+        ...options,
+      });
+      if (!result.success) {
+        console.error('[Section] Regeneration failed:', result.error);
+        setRegenerateError({ sectionIndex, options, message: result.error });
+        return;
+      }
+
+      if (result.sanitization.removed.length > 0) {
+        console.warn('[Section] Removed unsafe markup:', summarizeSanitizeReport(result.sanitization));
+      }
+      if (result.output.status === 'fallback') {
+        console.warn('[Section] Model output unusable, showing fallback HTML:', result.output.error);
+      }
+
+      const nextDocument = replaceLPSection(lpDocument, sectionIndex, result.section);
+      const nextHtml = renderLPDocumentHtml(nextDocument);
+      record(createHtmlChangeCommand({
+        type: 'section-regenerate',
+        label: `セクション再生成 (${result.section.type})`,
+        before: htmlContentRef.current,
+        after: nextHtml,
+        apply: applyHtmlSnapshot
+      }));
+      setLpToolState(prev => ({
+        ...prev,
+        htmlContent: nextHtml,
+        document: nextDocument,
+        lastChange: { source: 'regenerate-section', prompt: options.instructions ?? null },
+        sectionOutputs: { ...prev.sectionOutputs, [result.section.id]: result.output }
+      }));
+    } catch (error) {
+      console.error('[Section] Regeneration failed:', error);
+      setRegenerateError({
+        sectionIndex,
+        options,
+        message: error instanceof Error ? error.message : 'セクションの再生成中にエラーが発生しました',
+      });
+    } finally {
+      setRegeneratingSectionIndex(null);
+    }
+  }, [lpDocument, regeneratingSectionIndex, currentProjectId, chatId, record, applyHtmlSnapshot]);
+
+  // 並べ替え・削除などセクション構成の変更は、文書ごと取り消せるようにスナップショットを持つ
+  const applyDocumentSnapshot = useCallback((document: LPDocument, direction: 'undo' | 'redo') => {
+    setLpToolState(prev => ({
+      ...prev,
+      htmlContent: renderLPDocumentHtml(document),
+      document,
+      lastChange: { source: direction }
+    }));
+  }, []);
+
+  const applySectionChange = useCallback((
+    type: 'section-reorder' | 'section-delete' | 'section-visibility',
+    label: string,
+    nextDocument: LPDocument
+  ) => {
+    if (!lpDocument) return;
+    const previousDocument = lpDocument;
+    record({
+      type,
+      label,
+      execute: () => applyDocumentSnapshot(nextDocument, 'redo'),
+      undo: () => applyDocumentSnapshot(previousDocument, 'undo'),
+    });
+    setLpToolState(prev => ({
+      ...prev,
+      htmlContent: renderLPDocumentHtml(nextDocument),
+      document: nextDocument,
+      lastChange: { source: type }
+    }));
+  }, [lpDocument, record, applyDocumentSnapshot]);
+
+  const handleMoveSection = useCallback((from: number, to: number) => {
+    if (!lpDocument) return;
+    applySectionChange('section-reorder', 'セクション並べ替え', moveLPSection(lpDocument, from, to));
+  }, [lpDocument, applySectionChange]);
+
+  const handleToggleSectionHidden = useCallback((index: number, hidden: boolean) => {
+    if (!lpDocument) return;
+    applySectionChange(
+      'section-visibility',
+      hidden ? 'セクション非表示' : 'セクション表示',
+      setLPSectionHidden(lpDocument, index, hidden)
+    );
+  }, [lpDocument, applySectionChange]);
+
+  const handleDeleteSection = useCallback((index: number) => {
+    // 最後の1セクションは削除しない（プレビューが空になるため）
+    if (!lpDocument || lpDocument.sections.length <= 1) return;
+    applySectionChange('section-delete', `セクション削除 (${lpDocument.sections[index].type})`, removeLPSection(lpDocument, index));
+  }, [lpDocument, applySectionChange]);
+
+  // CDNに依存しない静的HTML（index.html + styles.css）をダウンロード
+  const [isExportingHtml, setIsExportingHtml] = useState(false);
+  const handleDownloadHtml = useCallback(async () => {
+    setIsExportingHtml(true);
+    try {
+      await downloadStaticExport({
+        title: lpToolState.title,
+        htmlContent: lpToolState.htmlContent,
+        cssContent: lpToolState.cssContent,
+      });
+    } catch (error) {
+      console.error('[Export] HTML export failed:', error);
+    } finally {
+      setIsExportingHtml(false);
+    }
+  }, [lpToolState.title, lpToolState.htmlContent, lpToolState.cssContent]);
+
+  // ホスティング用のサイト一式（ZIP）をダウンロード
+  const [isExportingZip, setIsExportingZip] = useState(false);
+  const handleDownloadZip = useCallback(async () => {
+    setIsExportingZip(true);
+    try {
+      await downloadSiteZip({
+        title: lpToolState.title,
+        description: lpDocument?.description,
+        htmlContent: lpToolState.htmlContent,
+        cssContent: lpToolState.cssContent,
+        colorScheme: lpDocument?.colorScheme,
+      });
+    } catch (error) {
+      console.error('[Export] ZIP export failed:', error);
+    } finally {
+      setIsExportingZip(false);
+    }
+  }, [lpToolState.title, lpToolState.htmlContent, lpToolState.cssContent, lpDocument]);
+
+  // 既存の Next.js プロジェクトに組み込める React コンポーネント一式をダウンロード
+  const [isExportingReact, setIsExportingReact] = useState(false);
+  const handleDownloadReact = useCallback(async () => {
+    if (!lpDocument) return;
+    setIsExportingReact(true);
+    try {
+      await downloadReactProject({
+        title: lpToolState.title,
+        sections: lpDocument.sections,
+        cssContent: lpToolState.cssContent,
+      });
+    } catch (error) {
+      console.error('[Export] React export failed:', error);
+    } finally {
+      setIsExportingReact(false);
+    }
+  }, [lpToolState.title, lpToolState.cssContent, lpDocument]);
+
+  // プロジェクトのトークン使用量（保存のたびに取り直す）
+  const [projectUsage, setProjectUsage] = useState<ProjectUsage | null>(null);
+  useEffect(() => {
+    if (!currentProjectId) {
+      setProjectUsage(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/projects/${currentProjectId}/usage`)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json();
+      })
+      .then((usage: ProjectUsage) => {
+        if (!cancelled) setProjectUsage(usage);
+      })
+      .catch(error => console.error('[Usage] Failed to load project usage:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentProjectId, lastSavedAt]);
+
+  // セクション構成パネル・変更履歴パネルの表示状態
+  const [isOutlineOpen, setIsOutlineOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   // 編集機能の状態管理
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
@@ -161,9 +495,17 @@ const MainView = ({
           element.textContent = newText;
           const updatedHTML = doc.body?.innerHTML || doc.documentElement.outerHTML;
           
+          record(createHtmlChangeCommand({
+            type: 'text-edit',
+            label: `テキスト編集 (${selectedElementId})`,
+            before: lpToolState.htmlContent,
+            after: updatedHTML,
+            apply: applyHtmlSnapshot
+          }));
           setLpToolState(prev => ({
             ...prev,
-            htmlContent: updatedHTML
+            htmlContent: updatedHTML,
+            lastChange: { source: 'manual-edit', prompt: newText }
           }));
         }
         
@@ -211,6 +553,11 @@ const MainView = ({
     let htmlContent = '';
     let cssContent = '';
     let title = 'ランディングページ';
+    let structure: LPStructureInfo | null = null;
+    let lpDocumentResult: LPDocument | null = null;
+    let sectionOutputs: Record<string, SectionOutputReport> | undefined;
+    let lastChange: RevisionMeta | undefined;
+    let isPartialUpdate = false;
     let foundLPResult = false;
 
     // 最新のassistantメッセージから逆順で検索
@@ -226,19 +573,34 @@ const MainView = ({
             hasResult: !!toolInvocation.result
           });
           
-          // enhancedLPGeneratorToolまたはhtmlLPToolの結果を検索
-          if ((toolInvocation.toolName === 'enhancedLPGeneratorTool' || 
-               toolInvocation.toolName === 'htmlLPTool') && 
+          // LP生成ツールまたは部分更新ツールの結果を検索
+          if (LP_RESULT_TOOLS.includes(toolInvocation.toolName) && 
               toolInvocation.state === 'result' && 
-              toolInvocation.result) {
+              toolInvocation.result &&
+              toolInvocation.result.success !== false) {
             
             console.log('[LP Detection] Found LP tool result:', toolInvocation.result);
             
+            // 既に適用済みの結果であれば現在の状態を維持
+            if (toolInvocation.toolCallId === appliedToolCallIdRef.current) {
+              console.log('[LP Detection] Latest LP result already applied');
+              return;
+            }
+
             // enhancedLPGeneratorToolの結果からHTMLとCSSを抽出
             if (toolInvocation.result.htmlContent) {
+              appliedToolCallIdRef.current = toolInvocation.toolCallId;
               htmlContent = toolInvocation.result.htmlContent;
+              structure = toolInvocation.result.structure || null;
+              lpDocumentResult = toolInvocation.result.document || null;
+              sectionOutputs = toSectionOutputMap(lpDocumentResult, toolInvocation.result.metadata?.sectionOutputs);
               cssContent = toolInvocation.result.cssContent || '';
               title = toolInvocation.result.title || title;
+              isPartialUpdate = LP_PARTIAL_UPDATE_TOOLS.includes(toolInvocation.toolName);
+              lastChange = {
+                source: toolInvocation.toolName,
+                prompt: findTriggeringPrompt(messages, message),
+              };
               foundLPResult = true;
               console.log('[LP Detection] Extracted HTML content length:', htmlContent.length);
               console.log('[LP Detection] Extracted CSS content length:', cssContent.length);
@@ -283,19 +645,57 @@ const MainView = ({
       console.log('[LP Detection] Setting LP tool state with HTML content');
       console.log('[LP Detection] HTML content length:', htmlContent.length);
       console.log('[LP Detection] Title:', title);
-      setLpToolState({
+
+      // 部分更新は取り消し可能な操作として記録
+      if (isPartialUpdate && lastChange && htmlContentRef.current && htmlContentRef.current !== htmlContent) {
+        record(createHtmlChangeCommand({
+          type: lastChange.source === 'aiPartialUpdateTool' ? 'ai-improve' : 'text-edit',
+          label: lastChange.source === 'aiPartialUpdateTool' ? 'AI改善' : 'テキスト編集',
+          before: htmlContentRef.current,
+          after: htmlContent,
+          apply: applyHtmlSnapshot
+        }));
+      }
+
+      setLpToolState(prev => ({
         isActive: true,
         htmlContent: htmlContent,
-        cssContent: cssContent,
-        title: title,
-        forcePanelOpen: true
-      });
+        cssContent: isPartialUpdate ? prev.cssContent : cssContent,
+        title: isPartialUpdate ? prev.title : title,
+        structure: isPartialUpdate ? prev.structure : structure,
+        document: isPartialUpdate ? prev.document : lpDocumentResult,
+        lastChange: lastChange,
+        forcePanelOpen: true,
+        sectionOutputs: isPartialUpdate ? prev.sectionOutputs : sectionOutputs
+      }));
     } else {
       console.log('[LP Detection] No LP result found, keeping current state');
       console.log('[LP Detection] foundLPResult:', foundLPResult);
       console.log('[LP Detection] htmlContent length:', htmlContent?.length || 0);
     }
-  }, [messages]);
+  }, [messages, record, applyHtmlSnapshot]);
+
+  // 生成・編集結果をプロジェクトとして自動保存
+  useEffect(() => {
+    if (isLoading || !lpToolState.isActive || !lpToolState.htmlContent) return;
+
+    const timer = setTimeout(() => {
+      saveProject({
+        title: lpToolState.structure?.title || lpToolState.title,
+        htmlContent: lpToolState.htmlContent,
+        cssContent: lpToolState.cssContent,
+        sections: lpDocument?.sections,
+        structure: lpToolState.structure ?? null,
+        colorScheme: lpToolState.structure?.colorScheme ?? null,
+        designStyle: lpToolState.structure?.designStyle ?? null,
+        messages,
+        revision: lpToolState.lastChange,
+        usageSessionId: chatId,
+      });
+    }, 1000);
+
+    return () => clearTimeout(timer);
+  }, [isLoading, lpToolState, lpDocument, messages, chatId, saveProject]);
 
   // プレビュー判定（レガシー互換性）
   const isPreviewMessage = (msg: any) => false; // 新システムでは使用しない
@@ -322,18 +722,35 @@ const MainView = ({
 
         <div className="flex-shrink-0 p-4 border-b border-gray-200 bg-gray-50">
           <div className="flex justify-between items-center">
-            <h1 className="text-xl font-bold text-gray-800">LPクリエーター</h1>
-            <button
-              onClick={() => {
-                toggleEditMode();
-                selectElement(null);
-              }}
-              className={`px-3 py-1.5 rounded-md text-sm font-semibold text-white transition-colors ${
-                isEditMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-500 hover:bg-gray-600'
-              }`}
-            >
-              {isEditMode ? '編集モード: ON' : '編集モード: OFF'}
-            </button>
+            <div>
+              <h1 className="text-xl font-bold text-gray-800">LPクリエーター</h1>
+              {currentProjectId && (
+                <p className="text-xs text-gray-500">
+                  {isSaving
+                    ? '保存中...'
+                    : lastSavedAt && `保存済み ${new Date(lastSavedAt).toLocaleTimeString('ja-JP')}`}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={onNewPage}
+                className="px-3 py-1.5 rounded-md text-sm font-semibold text-gray-700 bg-gray-200 hover:bg-gray-300 transition-colors"
+              >
+                新規作成
+              </button>
+              <button
+                onClick={() => {
+                  toggleEditMode();
+                  selectElement(null);
+                }}
+                className={`px-3 py-1.5 rounded-md text-sm font-semibold text-white transition-colors ${
+                  isEditMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-500 hover:bg-gray-600'
+                }`}
+              >
+                {isEditMode ? '編集モード: ON' : '編集モード: OFF'}
+              </button>
+            </div>
           </div>
         </div>
         
@@ -429,40 +846,125 @@ const MainView = ({
       <div className="w-1/2 flex flex-col bg-white">
         <div className="flex-shrink-0 p-4 border-b border-gray-200 bg-gray-50">
           <div className="flex justify-between items-center">
-            <h2 className="text-lg font-semibold text-gray-800">プレビュー</h2>
+            <div className="flex items-center gap-3">
+              <h2 className="text-lg font-semibold text-gray-800">プレビュー</h2>
+              {streamingDocument && (
+                <span className="text-xs text-blue-600">
+                  生成中 {streamingDocument.sections.filter(section => section.html).length}/{streamingDocument.sections.length} セクション
+                </span>
+              )}
+              {projectUsage && projectUsage.totals.calls > 0 && <UsageBadge usage={projectUsage.totals} />}
+            </div>
             {lpToolState.isActive && lpToolState.htmlContent && (
               <div className="flex gap-2">
+                <UndoRedoControls />
                 <button
-                  onClick={() => {
-                    const blob = new Blob([lpToolState.htmlContent], { type: 'text/html' });
-                    const url = URL.createObjectURL(blob);
-                    const link = document.createElement('a');
-                    link.href = url;
-                    link.download = `${lpToolState.title.replace(/[^a-z0-9]/gi, '_')}.html`;
-                    link.click();
-                    URL.revokeObjectURL(url);
-                  }}
-                  className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors"
+                  onClick={() => setIsOutlineOpen(prev => !prev)}
+                  className={`px-3 py-1 text-sm rounded transition-colors ${
+                    isOutlineOpen ? 'bg-gray-700 text-white hover:bg-gray-800' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                >
+                  構成
+                </button>
+                <button
+                  onClick={() => setIsHistoryOpen(prev => !prev)}
+                  className={`px-3 py-1 text-sm rounded transition-colors ${
+                    isHistoryOpen ? 'bg-gray-700 text-white hover:bg-gray-800' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                  }`}
+                >
+                  履歴
+                </button>
+                <button
+                  onClick={handleDownloadHtml}
+                  disabled={isExportingHtml}
+                  className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+                >
+                  {isExportingHtml ? '出力中...' : 'HTMLダウンロード'}
+                </button>
+                <button
+                  onClick={handleDownloadZip}
+                  disabled={isExportingZip}
+                  className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+                >
+                  {isExportingZip ? '出力中...' : 'ZIPダウンロード'}
+                </button>
+                <button
+                  onClick={handleDownloadReact}
+                  disabled={isExportingReact || !lpDocument}
+                  className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors disabled:bg-gray-400"
                 >
-                  HTMLダウンロード
+                  {isExportingReact ? '出力中...' : 'React'}
                 </button>
               </div>
             )}
           </div>
         </div>
         <div className="flex-1 overflow-hidden">
-          {lpToolState.isActive && lpToolState.htmlContent ? (
+          {streamingDocument ? (
             <div className="h-full overflow-y-auto">
-              <LPViewer 
-                htmlContent={lpToolState.htmlContent} 
-                cssContent={lpToolState.cssContent}
-                onTextUpdate={handleTextUpdate}
-                onAIImprove={(elementId, currentText) => {
-                  const prompt = `要素「${elementId}」のテキスト「${currentText}」をAIで改善してください。`;
-                  sendPrompt(prompt);
-                }}
+              <LPViewer
+                htmlContent={renderLPDocumentHtml(streamingDocument)}
+                lpDocument={streamingDocument}
+                cssContent={streamingDocument.cssContent}
               />
             </div>
+          ) : lpToolState.isActive && lpToolState.htmlContent ? (
+            <div className="h-full flex">
+              {isOutlineOpen && lpDocument && (
+                <SectionOutline
+                  sections={lpDocument.sections}
+                  onMove={handleMoveSection}
+                  onToggleHidden={handleToggleSectionHidden}
+                  onDelete={handleDeleteSection}
+                  onClose={() => setIsOutlineOpen(false)}
+                />
+              )}
+              <div className="flex-1 min-w-0 overflow-y-auto">
+                {lpDocument && lpToolState.sectionOutputs && (
+                  <GenerationNotice
+                    sections={lpDocument.sections}
+                    outputs={lpToolState.sectionOutputs}
+                    onRegenerate={(sectionIndex) => handleRegenerateSection(sectionIndex, {})}
+                    regeneratingSectionIndex={regeneratingSectionIndex}
+                  />
+                )}
+                {regenerateError && (
+                  <SectionRegenerateError
+                    sectionIndex={regenerateError.sectionIndex}
+                    message={regenerateError.message}
+                    onRetry={() => handleRegenerateSection(regenerateError.sectionIndex, regenerateError.options)}
+                    onDismiss={() => setRegenerateError(null)}
+                    isRegenerating={regeneratingSectionIndex !== null}
+                  />
+                )}
+                <LPViewer 
+                  htmlContent={lpToolState.htmlContent} 
+                  lpDocument={lpDocument}
+                  cssContent={lpToolState.cssContent}
+                  onRegenerateSection={handleRegenerateSection}
+                  regeneratingSectionIndex={regeneratingSectionIndex}
+                  onTextUpdate={handleTextUpdate}
+                  onAIImprove={(elementId, currentText) => {
+                    const prompt = `要素「${elementId}」のテキスト「${currentText}」をAIで改善してください。`;
+                    sendPrompt(prompt);
+                  }}
+                />
+              </div>
+              {isHistoryOpen && (
+                <RevisionTimeline
+                  onRestore={(project) => {
+                    setLpToolState(prev => ({
+                      ...prev,
+                      htmlContent: project.htmlContent,
+                      cssContent: project.cssContent,
+                      document: projectToDocument(project),
+                      lastChange: { source: 'restore' }
+                    }));
+                  }}
+                  onClose={() => setIsHistoryOpen(false)}
+                />
+              )}
+            </div>
           ) : (
             <div className="flex items-center justify-center h-full text-gray-500">
               <div className="text-center">
@@ -501,18 +1003,25 @@ const MainView = ({
 
 export default function Page() {
   const { isEditMode, toggleEditMode, selectedElementId, selectElement } = useEditMode();
+  const { currentProjectId, openProject, closeProject } = useProject();
+  const { clear: clearUndoHistory } = useUndoRedo();
+  const [restoredProject, setRestoredProject] = useState<LPProject | null>(null);
 
   // 新しいMastraベースのチャットシステムを使用
   const { 
+    id: chatId,
     messages, 
     input, 
     handleInputChange: originalHandleInputChange, 
     handleSubmit: originalHandleSubmit, 
     isLoading, 
     error,
+    data: streamData,
     setInput,
+    setMessages,
   } = useChat({
     api: '/api/lp-creator/chat', // 新しいMastraベースのAPI
+    body: { projectId: currentProjectId }, // プロジェクトのモデル設定を使うため
     onFinish: (message) => {
       console.log('[Page] LP Creation completed:', message);
     },
@@ -556,6 +1065,25 @@ export default function Page() {
     return '編集する要素を選択してください...';
   }
 
+  // 保存済みプロジェクトを開き、チャット履歴とプレビューを復元
+  const handleOpenProject = async (projectId: string) => {
+    const project = await openProject(projectId);
+    if (!project) return;
+
+    clearUndoHistory();
+    setRestoredProject(project);
+    setMessages(project.messages as Message[]);
+  };
+
+  // 現在のプロジェクトを閉じて新規作成に戻る
+  const handleNewPage = () => {
+    closeProject();
+    clearUndoHistory();
+    setRestoredProject(null);
+    setMessages([]);
+    selectElement(null);
+  };
+
   // 任意のプロンプトを即座に送信するユーティリティ
   const sendPrompt = (prompt: string) => {
     // flushSync で setInput を同期的に反映させてから submit を実行する
@@ -581,12 +1109,18 @@ export default function Page() {
           getPlaceholder={getPlaceholder}
           setInput={setInput}
           sendPrompt={sendPrompt}
+          isLoading={isLoading}
+          streamData={streamData}
+          restoredProject={restoredProject}
+          onNewPage={handleNewPage}
+          chatId={chatId}
         />
       ) : (
         <InitialView 
           input={input}
           handleInputChange={handleInputChange}
           handleSubmit={handleSubmit}
+          onOpenProject={handleOpenProject}
         />
       )}
     </div>
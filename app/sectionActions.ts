@@ -0,0 +1,58 @@
+'use server';
+
+import { regenerateDocumentSection, type SectionOutputReport } from '@/src/mastra/tools/lpGeneratorTool';
+import { headers } from 'next/headers';
+import { createStoredUsageRecorder, resolveModelRouting, resolveUsageUserId } from '@/src/mastra/storage';
+import { layoutTypeSchema, lpDocumentSchema, type LPDocumentSection } from '@/src/mastra/schemas';
+import type { SanitizeReport } from '@/src/mastra/security';
+import { z } from 'zod';
+
+const regenerateSectionInputSchema = z.object({
+  document: lpDocumentSchema,
+  sectionIndex: z.number().int().min(0),
+  instructions: z.string().optional(),
+  layoutType: layoutTypeSchema.optional(),
+  projectId: z.string().optional().nullable(),
+  // 未保存のページでは、保存時に使用量を紐付けるためのチャット ID
+  sessionId: z.string().optional().nullable(),
+});
+
+export type RegenerateSectionInput = z.infer<typeof regenerateSectionInputSchema>;
+
+export type RegenerateSectionResult =
+  | { success: true; sectionIndex: number; section: LPDocumentSection; sanitization: SanitizeReport; output: SectionOutputReport }
+  | { success: false; error: string };
+
+/**
+ * Regenerates a single section of the current page. The caller swaps the
+ * returned section into its document. The model follows the project's
+ * routing when `projectId` is given, the global routing otherwise. Token usage
+ * is recorded for the project, or for the chat session until it is saved.
+ */
+export async function regenerateSection(input: RegenerateSectionInput): Promise<RegenerateSectionResult> {
+  const parsed = regenerateSectionInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: 'Invalid section regeneration request' };
+  }
+
+  const { document, sectionIndex, instructions, layoutType, projectId, sessionId } = parsed.data;
+  try {
+    const routing = await resolveModelRouting(projectId);
+    const usage = createStoredUsageRecorder({
+      projectId: projectId ?? null,
+      userId: resolveUsageUserId(await headers()),
+      sessionId: sessionId ?? null,
+    });
+    const { section, sanitization, output } = await regenerateDocumentSection(document, sectionIndex, {
+      instructions,
+      layoutType,
+      routing,
+      usage,
+    });
+    return { success: true, sectionIndex, section, sanitization, output };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`❌ Section ${sectionIndex} regeneration failed:`, error);
+    return { success: false, error: message };
+  }
+}
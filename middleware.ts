@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { USAGE_USER_COOKIE, USAGE_USER_HEADER } from '@/src/mastra/storage/usageUser';
+
+const USER_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+// 使用量をユーザー別に集計できるよう、ブラウザごとの ID を Cookie で発行し、
+// ヘッダーとしてチャット API とサーバーアクションに渡す。
+// クライアントが送ったヘッダーは、他のユーザーになりすませないよう常に上書きする
+export function middleware(req: NextRequest) {
+  const existingUserId = req.cookies.get(USAGE_USER_COOKIE)?.value;
+  const userId = existingUserId || crypto.randomUUID();
+  const headers = new Headers(req.headers);
+  headers.set(USAGE_USER_HEADER, userId);
+
+  const res = NextResponse.next({ request: { headers } });
+  if (!existingUserId) {
+    res.cookies.set(USAGE_USER_COOKIE, userId, { httpOnly: true, sameSite: 'lax', path: '/', maxAge: USER_COOKIE_MAX_AGE });
+  }
+  return res;
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
@@ -3,6 +3,8 @@ const nextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // Tailwind のコンパイラ・Playwright はネイティブモジュールやブラウザを使うためバンドルしない
+  serverExternalPackages: ['tailwindcss-v3', 'postcss', 'lightningcss', 'playwright', 'playwright-core'],
   experimental: {
     serverActions: {
       allowedForwardedHosts: ['localhost:3001'],
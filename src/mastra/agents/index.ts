@@ -1 +1 @@
-export { lpCreatorAgent, createLPCreatorAgent, createModel } from './lpCreatorAgent';
\ No newline at end of file
+export { lpCreatorAgent, createLPCreatorAgent } from './lpCreatorAgent';
\ No newline at end of file
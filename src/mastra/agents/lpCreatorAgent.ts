@@ -1,37 +1,29 @@
 import { Agent } from '@mastra/core/agent';
-import { openai } from '@ai-sdk/openai';
-import { anthropic } from '@ai-sdk/anthropic';
-import { google } from '@ai-sdk/google';
 import { 
-  htmlLPTool, 
-  lpStructureTool,
+  createHtmlLPTool, 
+  createLpStructureTool,
   lpPreviewTool,
-  enhancedLPGeneratorTool,
+  createEnhancedLPGeneratorTool,
   partialUpdateMastraTool,
-  aiPartialUpdateTool
+  createAiPartialUpdateTool
 } from '../tools';
+import type { LPGenerationProgressHandler } from '../schemas';
+import { DEFAULT_MODEL, getModel, trackUsage, type ModelRouting, type UsageRecorder } from '../providers';
 // import { Memory } from '@mastra/memory';
 
-// 動的にモデルを作成する関数
-export function createModel(provider: string, modelName: string) {
-  switch (provider) {
-    case 'openai':
-      if (modelName === 'o3-pro-2025-06-10') {
-        return openai.responses(modelName);
-      }
-      return openai(modelName);
-    case 'claude':
-      return anthropic(modelName);
-    case 'gemini':
-      return google(modelName);
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
-  }
-}
-
-// lpCreatorAgentを動的に作成する関数
-export function createLPCreatorAgent(provider: string = 'claude', modelName: string = 'claude-3-5-sonnet-20241022') {
-  const model = createModel(provider, modelName);
+// lpCreatorAgentを動的に作成する関数（onGenerationProgress でセクション単位の生成状況を受け取れる）
+// routing はツール内の各ステップ（構成・セクション・文章）のモデルを決める
+// usage はエージェント自身とツールのモデル呼び出しのトークン使用量を記録する
+export function createLPCreatorAgent(
+  provider: string = DEFAULT_MODEL.provider,
+  modelName: string = DEFAULT_MODEL.modelName,
+  {
+    onGenerationProgress,
+    routing,
+    usage,
+  }: { onGenerationProgress?: LPGenerationProgressHandler; routing?: ModelRouting; usage?: UsageRecorder } = {}
+) {
+  const model = trackUsage(getModel({ provider, modelName }), 'chat', usage);
   
   return new Agent({
     name: 'LP Creator',
@@ -92,12 +84,12 @@ Remember: Your goal is to create landing pages that not only look great but also
     `,
     model,
     tools: { 
-      enhancedLPGeneratorTool,
-      htmlLPTool,
-      lpStructureTool,
+      enhancedLPGeneratorTool: createEnhancedLPGeneratorTool({ onProgress: onGenerationProgress, routing, usage }),
+      htmlLPTool: createHtmlLPTool({ routing, usage }),
+      lpStructureTool: createLpStructureTool({ routing, usage }),
       lpPreviewTool,
       partialUpdateMastraTool,
-      aiPartialUpdateTool,
+      aiPartialUpdateTool: createAiPartialUpdateTool({ routing, usage }),
     },
     // memory: new Memory({
     //   options: {
@@ -0,0 +1,17 @@
+export {
+  staticExportInputSchema,
+  buildStaticExport,
+  compileTailwindCss,
+  extractStyleContent,
+} from './staticExport';
+export type { StaticExportInput, StaticExportFile, StaticExportOptions, StaticExportBundle } from './staticExport';
+export { siteBundleInputSchema, buildSiteBundle, buildSiteZip } from './siteBundle';
+export type { SiteBundleInput } from './siteBundle';
+export { createZip } from './zip';
+export type { ZipEntry } from './zip';
+export { PDF_VIEWPORTS, pdfExportInputSchema, renderPdf } from './pdfExport';
+export type { PdfExportInput, PdfViewport } from './pdfExport';
+export { reactExportInputSchema, buildReactExport, buildReactExportZip } from './reactExport';
+export type { ReactExportInput } from './reactExport';
+export { SCREENSHOT_VIEWPORTS, screenshotInputSchema, captureScreenshots } from './screenshots';
+export type { ScreenshotInput, ScreenshotViewport, PageScreenshot } from './screenshots';
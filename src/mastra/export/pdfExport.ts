@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { withSandboxedBrowser } from './sandboxedBrowser';
+import { buildStaticExport, escapeHtml, staticExportInputSchema } from './staticExport';
+
+// Viewport widths the page can be rendered at; the PDF page keeps the same width
+export const PDF_VIEWPORTS = {
+  desktop: { width: 1280, height: 800 },
+  tablet: { width: 768, height: 1024 },
+  mobile: { width: 390, height: 844 },
+} as const;
+
+export const pdfExportInputSchema = staticExportInputSchema.extend({
+  viewport: z.enum(['desktop', 'tablet', 'mobile']).default('desktop'),
+});
+
+export type PdfExportInput = z.input<typeof pdfExportInputSchema>;
+export type PdfViewport = keyof typeof PDF_VIEWPORTS;
+
+// Page height relative to width, as on A4 paper
+const A4_ASPECT_RATIO = 297 / 210;
+
+function createHeaderFooter(title: string, viewport: PdfViewport) {
+  const style = 'width: 100%; padding: 0 24px; font-size: 9px; color: #6b7280; font-family: sans-serif; display: flex; justify-content: space-between;';
+  return {
+    headerTemplate: `<div style="${style}"><span>${escapeHtml(title)}</span><span>${viewport} ${PDF_VIEWPORTS[viewport].width}px</span></div>`,
+    footerTemplate: `<div style="${style}"><span class="date"></span><span><span class="pageNumber"></span> / <span class="totalPages"></span></span></div>`,
+  };
+}
+
+/**
+ * Renders the page in headless Chromium at the chosen viewport and returns a
+ * paginated PDF with the title, date and page numbers in the margins.
+ * The page is rendered from the static export, so no network is needed, and
+ * in a sandboxed browser since the HTML comes from the model.
+ */
+export async function renderPdf(input: PdfExportInput): Promise<Buffer> {
+  const { viewport, ...page } = pdfExportInputSchema.parse(input);
+  const { html } = await buildStaticExport(page, { inlineCss: true });
+  const size = PDF_VIEWPORTS[viewport];
+
+  return withSandboxedBrowser(async openPage => {
+    const browserPage = await openPage(html, size);
+    await browserPage.emulateMedia({ media: 'screen' });
+
+    const { headerTemplate, footerTemplate } = createHeaderFooter(page.title, viewport);
+    return await browserPage.pdf({
+      width: `${size.width}px`,
+      height: `${Math.round(size.width * A4_ASPECT_RATIO)}px`,
+      printBackground: true,
+      displayHeaderFooter: true,
+      headerTemplate,
+      footerTemplate,
+      margin: { top: '40px', bottom: '40px', left: '0px', right: '0px' },
+    });
+  });
+}
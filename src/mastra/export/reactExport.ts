@@ -0,0 +1,305 @@
+import { JSDOM } from 'jsdom';
+import { z } from 'zod';
+import { isLPSectionHidden, lpDocumentSectionSchema } from '../schemas';
+import { extractStyleContent } from './staticExport';
+import { createZip, type ZipEntry } from './zip';
+
+export const reactExportInputSchema = z.object({
+  title: z.string().min(1).default('Landing Page'),
+  sections: z.array(lpDocumentSectionSchema).min(1),
+  cssContent: z.string().default(''),
+  componentName: z.string().regex(/^[A-Z][A-Za-z0-9]*$/).default('LandingPage'),
+});
+
+export type ReactExportInput = z.input<typeof reactExportInputSchema>;
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Elements that do not belong in a component
+const DROPPED_ELEMENTS = new Set(['script', 'noscript', 'template']);
+
+// HTML attributes whose React name is not a plain camelCase conversion
+const ATTRIBUTE_NAMES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+  tabindex: 'tabIndex',
+  readonly: 'readOnly',
+  maxlength: 'maxLength',
+  minlength: 'minLength',
+  colspan: 'colSpan',
+  rowspan: 'rowSpan',
+  srcset: 'srcSet',
+  crossorigin: 'crossOrigin',
+  autocomplete: 'autoComplete',
+  autofocus: 'autoFocus',
+  autoplay: 'autoPlay',
+  playsinline: 'playsInline',
+  frameborder: 'frameBorder',
+  allowfullscreen: 'allowFullScreen',
+  enctype: 'encType',
+  novalidate: 'noValidate',
+  contenteditable: 'contentEditable',
+  spellcheck: 'spellCheck',
+  datetime: 'dateTime',
+  referrerpolicy: 'referrerPolicy',
+  usemap: 'useMap',
+  'accept-charset': 'acceptCharset',
+  'http-equiv': 'httpEquiv',
+};
+
+const BOOLEAN_ATTRIBUTES = new Set([
+  'allowFullScreen', 'async', 'autoFocus', 'autoPlay', 'controls', 'defaultChecked', 'defer', 'disabled', 'hidden',
+  'loop', 'multiple', 'muted', 'noValidate', 'open', 'playsInline', 'readOnly', 'required',
+]);
+
+const INDENT = '  ';
+
+function toReactAttributeName(element: Element, name: string): string {
+  if (name.startsWith('data-') || name.startsWith('aria-')) return name;
+  if (ATTRIBUTE_NAMES[name]) return ATTRIBUTE_NAMES[name];
+  // 入力値は非制御コンポーネントとして初期値に変換する
+  if (element.tagName.toLowerCase() === 'input' && name === 'value') return 'defaultValue';
+  if (name === 'checked') return 'defaultChecked';
+  return name.replace(/[-:]([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function toStyleObject(style: string): string {
+  const entries = style
+    .split(';')
+    .map(declaration => declaration.trim())
+    .filter(Boolean)
+    .map(declaration => {
+      const separator = declaration.indexOf(':');
+      if (separator === -1) return null;
+      const property = declaration.slice(0, separator).trim();
+      const value = declaration.slice(separator + 1).trim();
+      const key = property.startsWith('--')
+        ? JSON.stringify(property)
+        : property.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+      return `${key}: ${JSON.stringify(value)}`;
+    })
+    .filter(Boolean);
+  return `{{ ${entries.join(', ')} }}`;
+}
+
+// onclick などのインラインイベントハンドラ（open 属性は除く）
+function isEventHandler(name: string): boolean {
+  const lowerName = name.toLowerCase();
+  return lowerName.startsWith('on') && lowerName !== 'open';
+}
+
+function renderAttributes(element: Element): string {
+  const attributes = Array.from(element.attributes)
+    .filter(attribute => !isEventHandler(attribute.name))
+    .map(attribute => {
+      const name = toReactAttributeName(element, attribute.name);
+      if (name === 'style') return `style=${toStyleObject(attribute.value)}`;
+      if (BOOLEAN_ATTRIBUTES.has(name) && (attribute.value === '' || attribute.value.toLowerCase() === attribute.name)) {
+        return name;
+      }
+      // JSX の文字列属性はエスケープを解釈しないため、引用符などを含む値は式として書く
+      return /["\\&{}]/.test(attribute.value)
+        ? `${name}={${JSON.stringify(attribute.value)}}`
+        : `${name}="${attribute.value}"`;
+    });
+  return attributes.length ? ` ${attributes.join(' ')}` : '';
+}
+
+function renderText(text: string): string {
+  return /[{}<>&]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+}
+
+/**
+ * Whether the element only contains text, so the text can be lifted into content.json.
+ */
+function isTextOnly(element: Element): boolean {
+  return element.childNodes.length > 0
+    && Array.from(element.childNodes).every(node => node.nodeType === node.TEXT_NODE)
+    && (element.textContent ?? '').trim().length > 0;
+}
+
+/**
+ * Converts a DOM element to JSX. Text of elements with a data-editable-id is
+ * replaced by a reference into the content object and collected in `content`.
+ */
+function renderElement(element: Element, depth: number, content: Map<string, string>): string {
+  const indent = INDENT.repeat(depth);
+  // localName は HTML 要素では小文字、SVG 要素では linearGradient などの大文字小文字を保つ
+  const tagName = element.localName;
+  const attributes = renderAttributes(element);
+
+  if (VOID_ELEMENTS.has(tagName)) {
+    return `${indent}<${tagName}${attributes} />`;
+  }
+
+  const editableId = element.getAttribute('data-editable-id');
+  if (editableId && !content.has(editableId) && isTextOnly(element)) {
+    content.set(editableId, (element.textContent ?? '').replace(/\s+/g, ' ').trim());
+    return `${indent}<${tagName}${attributes}>{content[${JSON.stringify(editableId)}]}</${tagName}>`;
+  }
+
+  const children = Array.from(element.childNodes)
+    .map(node => renderNode(node, depth + 1, content))
+    .filter((child): child is string => child !== null);
+
+  if (children.length === 0) {
+    return `${indent}<${tagName}${attributes} />`;
+  }
+  if (element.childNodes.length === 1 && element.firstChild?.nodeType === element.TEXT_NODE) {
+    return `${indent}<${tagName}${attributes}>${children[0].trim()}</${tagName}>`;
+  }
+  return `${indent}<${tagName}${attributes}>\n${children.join('\n')}\n${indent}</${tagName}>`;
+}
+
+function renderNode(node: Node, depth: number, content: Map<string, string>): string | null {
+  if (node.nodeType === node.TEXT_NODE) {
+    const raw = node.textContent ?? '';
+    if (!raw.trim()) {
+      // 改行だけの空白は書式なので捨て、インライン要素間の空白は残す
+      return raw.includes('\n') ? null : `${INDENT.repeat(depth)}{' '}`;
+    }
+    // インライン要素と隣り合う空白は {' '} として残す
+    const leading = /^\s/.test(raw) && node.previousSibling ? "{' '}" : '';
+    const trailing = /\s$/.test(raw) && node.nextSibling ? "{' '}" : '';
+    return `${INDENT.repeat(depth)}${leading}${renderText(raw.replace(/\s+/g, ' ').trim())}${trailing}`;
+  }
+  if (node.nodeType === node.ELEMENT_NODE) {
+    const element = node as Element;
+    if (DROPPED_ELEMENTS.has(element.tagName.toLowerCase())) return null;
+    return renderElement(element, depth, content);
+  }
+  return null;
+}
+
+function toPascalCase(value: string): string {
+  return value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+interface SectionComponent {
+  name: string;
+  file: ZipEntry;
+  contentKeys: string[];
+}
+
+function createSectionComponent(name: string, html: string, content: Map<string, string>): SectionComponent {
+  const { document } = new JSDOM(`<!DOCTYPE html><body>${html}</body>`).window;
+  const existingKeys = new Set(content.keys());
+  const rootNodes = Array.from(document.body.childNodes).filter(node =>
+    node.nodeType === node.ELEMENT_NODE || (node.nodeType === node.TEXT_NODE && node.textContent?.trim())
+  );
+  // ルート要素が複数ある場合のみフラグメントで囲む
+  const isFragment = rootNodes.length !== 1;
+  const roots = rootNodes
+    .map(node => renderNode(node, isFragment ? 3 : 2, content))
+    .filter((child): child is string => child !== null);
+  const jsx = roots.length === 0
+    ? `${INDENT.repeat(2)}null`
+    : isFragment
+      ? `${INDENT.repeat(2)}<>\n${roots.join('\n')}\n${INDENT.repeat(2)}</>`
+      : roots[0];
+  const contentKeys = Array.from(content.keys()).filter(key => !existingKeys.has(key));
+
+  const contentType = contentKeys.length
+    ? `export interface ${name}Content {\n${contentKeys.map(key => `${INDENT}${JSON.stringify(key)}: string;`).join('\n')}\n}`
+    : `export type ${name}Content = Record<string, string>;`;
+
+  return {
+    name,
+    contentKeys,
+    file: {
+      path: `sections/${name}.tsx`,
+      content: `${contentType}
+
+export interface ${name}Props {
+  content: ${name}Content;
+}
+
+export function ${name}(${contentKeys.length ? '{ content }' : '_props'}: ${name}Props) {
+  return (
+${jsx}
+  );
+}
+`,
+    },
+  };
+}
+
+function createReadme(componentName: string, title: string, sections: SectionComponent[]): string {
+  return `# ${title}
+
+LP Creator で作成したランディングページを React コンポーネントに変換したものです。
+Next.js（App Router）プロジェクトの \`components/\` などにこのフォルダをそのまま配置して使えます。
+
+## 使い方
+
+\`\`\`tsx
+import ${componentName} from '@/components/${componentName}';
+
+export default function Page() {
+  return <${componentName} />;
+}
+\`\`\`
+
+- スタイルは Tailwind CSS のクラスで書かれています。プロジェクトに Tailwind CSS を導入し、このフォルダをスキャン対象に含めてください
+- カラー変数などのカスタムCSSは \`lp.css\` にあります
+- テキストは \`content.json\` に \`data-editable-id\` をキーとしてまとめてあります。文言の変更は JSON を編集してください
+
+## セクション
+
+${sections.map(section => `- \`sections/${section.name}.tsx\`（${section.contentKeys.length} 件のテキスト）`).join('\n')}
+`;
+}
+
+/**
+ * Converts the sections of a page into a drop-in folder for a Next.js app:
+ * one typed component per section, the text in content.json keyed by
+ * data-editable-id, the custom CSS and a page component rendering them in order.
+ */
+export function buildReactExport(input: ReactExportInput): ZipEntry[] {
+  const { title, sections, cssContent, componentName } = reactExportInputSchema.parse(input);
+  const content = new Map<string, string>();
+
+  const components = sections
+    .filter(section => !isLPSectionHidden(section.html))
+    .map((section, index) => createSectionComponent(
+      `Section${index + 1}${toPascalCase(section.type)}`,
+      section.html,
+      content
+    ));
+
+  const css = extractStyleContent(cssContent);
+  const page = `import content from './content.json';
+${css ? "import './lp.css';\n" : ''}${components.map(component => `import { ${component.name} } from './sections/${component.name}';`).join('\n')}
+
+export type ${componentName}Content = typeof content;
+
+export default function ${componentName}() {
+  return (
+    <main>
+${components.map(component => `      <${component.name} content={content} />`).join('\n')}
+    </main>
+  );
+}
+`;
+
+  return [
+    { path: `${componentName}/index.tsx`, content: page },
+    ...components.map(component => ({ ...component.file, path: `${componentName}/${component.file.path}` })),
+    { path: `${componentName}/content.json`, content: `${JSON.stringify(Object.fromEntries(content), null, 2)}\n` },
+    ...(css ? [{ path: `${componentName}/lp.css`, content: `${css}\n` }] : []),
+    { path: `${componentName}/README.md`, content: createReadme(componentName, title, components) },
+  ];
+}
+
+/**
+ * Packages the React component folder as a ZIP archive.
+ */
+export function buildReactExportZip(input: ReactExportInput): Buffer {
+  return createZip(buildReactExport(input));
+}
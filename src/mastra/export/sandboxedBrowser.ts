@@ -0,0 +1,41 @@
+import { JSDOM } from 'jsdom';
+import { chromium, type Page, type ViewportSize } from 'playwright';
+import { sanitizeDocument } from '../security';
+
+const RENDER_TIMEOUT_MS = 30000;
+
+export type OpenSandboxedPage = (html: string, viewport: ViewportSize) => Promise<Page>;
+
+/**
+ * Sanitizes a complete page with the same rules the preview applies.
+ */
+function sanitizePageHtml(html: string): string {
+  const { document } = new JSDOM(html).window;
+  sanitizeDocument(document);
+  return `<!DOCTYPE html>\n${document.documentElement.outerHTML}`;
+}
+
+/**
+ * Runs `render` with a headless Chromium for rendering stored, model-written
+ * pages on the server. Pages opened with `openPage` are sanitized and run with
+ * JavaScript disabled, and every request except `data:` URLs is aborted, so a
+ * page cannot reach the network or the server's local network. Everything the
+ * page needs, such as its CSS, must therefore be inlined.
+ */
+export async function withSandboxedBrowser<T>(render: (openPage: OpenSandboxedPage) => Promise<T>): Promise<T> {
+  const browser = await chromium.launch();
+  try {
+    return await render(async (html, viewport) => {
+      const context = await browser.newContext({ viewport, javaScriptEnabled: false, serviceWorkers: 'block' });
+      await context.route('**/*', route =>
+        route.request().url().startsWith('data:') ? route.continue() : route.abort('blockedbyclient')
+      );
+      const page = await context.newPage();
+      page.setDefaultTimeout(RENDER_TIMEOUT_MS);
+      await page.setContent(sanitizePageHtml(html), { waitUntil: 'load' });
+      return page;
+    });
+  } finally {
+    await browser.close();
+  }
+}
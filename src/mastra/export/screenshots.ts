@@ -0,0 +1,89 @@
+import type { Page } from 'playwright';
+import { z } from 'zod';
+import { PDF_VIEWPORTS } from './pdfExport';
+import { withSandboxedBrowser } from './sandboxedBrowser';
+import { buildStaticExport, staticExportInputSchema } from './staticExport';
+
+// Viewports every version is captured at
+export const SCREENSHOT_VIEWPORTS = ['desktop', 'mobile'] as const;
+
+export const screenshotInputSchema = staticExportInputSchema.extend({
+  viewports: z.array(z.enum(SCREENSHOT_VIEWPORTS)).min(1).default([...SCREENSHOT_VIEWPORTS]),
+});
+
+export type ScreenshotInput = z.input<typeof screenshotInputSchema>;
+export type ScreenshotViewport = (typeof SCREENSHOT_VIEWPORTS)[number];
+
+export interface PageScreenshot {
+  viewport: ScreenshotViewport;
+  /** `page` for the full page, `section` for one top-level section */
+  kind: 'page' | 'section';
+  /** Position of the section in the page, null for the full page */
+  sectionIndex: number | null;
+  /** data-editable-id of the section root, if it has one */
+  sectionId: string | null;
+  mimeType: 'image/png' | 'image/jpeg';
+  width: number;
+  height: number;
+  image: Buffer;
+}
+
+// Section thumbnails are JPEG to keep the stored versions small
+const THUMBNAIL_QUALITY = 70;
+
+async function captureViewport(page: Page, viewport: ScreenshotViewport): Promise<PageScreenshot[]> {
+  const fullSize = await page.evaluate(() => ({
+    width: document.documentElement.scrollWidth,
+    height: document.documentElement.scrollHeight,
+  }));
+  const screenshots: PageScreenshot[] = [{
+    viewport,
+    kind: 'page',
+    sectionIndex: null,
+    sectionId: null,
+    mimeType: 'image/png',
+    width: fullSize.width,
+    height: fullSize.height,
+    image: await page.screenshot({ fullPage: true, type: 'png' }),
+  }];
+
+  const sections = await page.locator('body > *').all();
+  for (const [index, section] of sections.entries()) {
+    // hidden 属性などで表示されていないセクションは撮影しない
+    const box = await section.boundingBox();
+    if (!box || box.width === 0 || box.height === 0) continue;
+
+    screenshots.push({
+      viewport,
+      kind: 'section',
+      sectionIndex: index,
+      sectionId: await section.getAttribute('data-editable-id'),
+      mimeType: 'image/jpeg',
+      width: Math.round(box.width),
+      height: Math.round(box.height),
+      image: await section.screenshot({ type: 'jpeg', quality: THUMBNAIL_QUALITY }),
+    });
+  }
+  return screenshots;
+}
+
+/**
+ * Renders the page in headless Chromium and captures a full-page screenshot
+ * plus one thumbnail per top-level section at each viewport.
+ * The page is rendered from the static export, so no network is needed, and
+ * in a sandboxed browser since the HTML comes from the model.
+ */
+export async function captureScreenshots(input: ScreenshotInput): Promise<PageScreenshot[]> {
+  const { viewports, ...page } = screenshotInputSchema.parse(input);
+  const { html } = await buildStaticExport(page, { inlineCss: true });
+
+  return withSandboxedBrowser(async openPage => {
+    const screenshots: PageScreenshot[] = [];
+    for (const viewport of viewports) {
+      const browserPage = await openPage(html, PDF_VIEWPORTS[viewport]);
+      screenshots.push(...await captureViewport(browserPage, viewport));
+      await browserPage.context().close();
+    }
+    return screenshots;
+  });
+}
@@ -0,0 +1,262 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JSDOM } from 'jsdom';
+import { z } from 'zod';
+import { colorSchemeSchema, DEFAULT_COLOR_SCHEME } from '../schemas';
+import { buildStaticExport, escapeHtml, staticExportInputSchema } from './staticExport';
+import { createZip, type ZipEntry } from './zip';
+
+export const siteBundleInputSchema = staticExportInputSchema.extend({
+  siteUrl: z.string().url().optional().describe('Public URL the site will be hosted at, used for sitemap.xml'),
+  colorScheme: colorSchemeSchema.partial().optional().nullable(),
+});
+
+export type SiteBundleInput = z.input<typeof siteBundleInputSchema>;
+
+const ASSET_DIR = 'assets';
+const PLACEHOLDER_SITE_URL = 'https://example.com';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+  'image/x-icon': 'ico',
+};
+
+// Attributes that may point at an image
+const ASSET_ATTRIBUTES: Array<[selector: string, attribute: string]> = [
+  ['img[src]', 'src'],
+  ['source[src]', 'src'],
+  ['video[poster]', 'poster'],
+  ['image[href]', 'href'],
+];
+
+const DATA_URI_PATTERN = /^data:([\w.+/-]+)((?:;[\w-]+=[^;,]*)*)(;base64)?,([\s\S]*)$/;
+
+// url(data:…) in CSS, quoted or not
+const CSS_DATA_URL_PATTERN = /url\(\s*(?:"(data:[^"]*)"|'(data:[^']*)'|(data:[^)\s]*))\s*\)/gi;
+
+// Attributes of an inline <svg> that still apply to the <img> replacing it
+const SVG_IMG_ATTRIBUTES = ['id', 'class', 'style', 'width', 'height', 'aria-hidden', 'data-editable-id'];
+
+// Browsers keep a "%" that doesn't start an escape as is, e.g. width='100%' in an SVG data URI
+function decodeUriPart(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+function decodeDataUri(uri: string): { mimeType: string; data: Buffer } | null {
+  const match = uri.match(DATA_URI_PATTERN);
+  if (!match) return null;
+  const [, mimeType, , base64, payload] = match;
+  const data = base64 ? Buffer.from(payload, 'base64') : Buffer.from(decodeUriPart(payload) ?? payload, 'utf8');
+  return { mimeType: mimeType.toLowerCase(), data };
+}
+
+// Asset files are stored under decoded names, so references to them are encoded again
+function toAssetUrl(assetPath: string): string {
+  return assetPath.split('/').map(encodeURIComponent).join('/');
+}
+
+function imageAsset(data: Buffer, extension: string): ZipEntry {
+  const hash = createHash('sha1').update(data).digest('hex').slice(0, 12);
+  return { path: `${ASSET_DIR}/image-${hash}.${extension}`, content: data };
+}
+
+function dataUriAsset(uri: string): ZipEntry | null {
+  const decoded = decodeDataUri(uri);
+  const extension = decoded && IMAGE_EXTENSIONS[decoded.mimeType];
+  return decoded && extension ? imageAsset(decoded.data, extension) : null;
+}
+
+/**
+ * Reads a root-relative URL such as "/hero.png" from the public directory as
+ * an asset stored under its decoded file name. Paths escaping the directory,
+ * or that can't be decoded, are ignored.
+ */
+async function readPublicAsset(url: string): Promise<ZipEntry | null> {
+  const publicDir = path.join(process.cwd(), 'public');
+  const decodedPath = decodeUriPart(url.split(/[?#]/)[0]);
+  if (decodedPath === null) return null;
+  const filePath = path.join(publicDir, decodedPath);
+  if (!filePath.startsWith(publicDir + path.sep)) return null;
+  const data = await fs.readFile(filePath).catch(() => null);
+  return data && { path: `${ASSET_DIR}/${path.relative(publicDir, filePath).split(path.sep).join('/')}`, content: data };
+}
+
+/**
+ * Replaces image data URIs in `url()` with asset files. index.html and
+ * styles.css sit side by side, so the same relative path works in both.
+ */
+function extractCssDataUrls(css: string, assets: Map<string, ZipEntry>): string {
+  return css.replace(CSS_DATA_URL_PATTERN, (match, doubleQuoted, singleQuoted, unquoted) => {
+    const asset = dataUriAsset(doubleQuoted ?? singleQuoted ?? unquoted);
+    if (!asset) return match;
+    assets.set(asset.path, asset);
+    return `url(${asset.path})`;
+  });
+}
+
+/**
+ * Whether an inline SVG looks the same when loaded from a file: it must not
+ * take colors or sizes from the page through currentColor or classes on its
+ * shapes, or refer to other elements.
+ */
+function isSelfContainedSvg(svg: Element): boolean {
+  return !/currentcolor/i.test(svg.outerHTML) && !svg.querySelector('[class], [style], use, foreignObject');
+}
+
+/**
+ * Moves inline (data URI) and public-directory images, self-contained inline
+ * SVGs and image data URIs in CSS (style attributes, `<style>` elements and
+ * the page CSS) into `assets/` files and rewrites the page to reference them.
+ * Remote URLs, and SVGs styled by the page such as currentColor icons, stay
+ * as they are.
+ */
+async function extractAssets(htmlContent: string, cssContent: string): Promise<{ html: string; css: string; assets: ZipEntry[] }> {
+  const { window } = new JSDOM(htmlContent);
+  const { document } = window;
+  const assets = new Map<string, ZipEntry>();
+
+  for (const [selector, attribute] of ASSET_ATTRIBUTES) {
+    for (const element of Array.from(document.querySelectorAll(selector))) {
+      const url = element.getAttribute(attribute)?.trim() ?? '';
+      let asset: ZipEntry | null = null;
+
+      if (url.startsWith('data:')) {
+        asset = dataUriAsset(url);
+      } else if (url.startsWith('/') && !url.startsWith('//')) {
+        asset = await readPublicAsset(url);
+      }
+
+      if (asset) {
+        assets.set(asset.path, asset);
+        element.setAttribute(attribute, toAssetUrl(asset.path));
+      }
+    }
+  }
+
+  for (const svg of Array.from(document.querySelectorAll('svg:not(svg svg)'))) {
+    if (!isSelfContainedSvg(svg)) continue;
+
+    const image = document.createElement('img');
+    for (const attribute of SVG_IMG_ATTRIBUTES) {
+      const value = svg.getAttribute(attribute);
+      if (value !== null) image.setAttribute(attribute, value);
+    }
+    image.setAttribute('alt', svg.getAttribute('aria-label') ?? svg.querySelector('title')?.textContent?.trim() ?? '');
+
+    const file = svg.cloneNode(true) as Element;
+    for (const attribute of ['id', 'class', 'style', 'aria-hidden', 'aria-label', 'role', 'data-editable-id']) {
+      file.removeAttribute(attribute);
+    }
+    const asset = imageAsset(Buffer.from(new window.XMLSerializer().serializeToString(file), 'utf8'), 'svg');
+    assets.set(asset.path, asset);
+    image.setAttribute('src', asset.path);
+    svg.replaceWith(image);
+  }
+
+  for (const element of Array.from(document.querySelectorAll('[style]'))) {
+    element.setAttribute('style', extractCssDataUrls(element.getAttribute('style') ?? '', assets));
+  }
+  for (const style of Array.from(document.querySelectorAll('style'))) {
+    style.textContent = extractCssDataUrls(style.textContent ?? '', assets);
+  }
+
+  return { html: document.body.innerHTML, css: extractCssDataUrls(cssContent, assets), assets: Array.from(assets.values()) };
+}
+
+/**
+ * A simple square icon with the first letter of the title on the primary color.
+ */
+function createFaviconSvg(title: string, primaryColor: string): string {
+  const letter = escapeHtml(Array.from(title.trim())[0] ?? 'L');
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64">
+  <rect width="64" height="64" rx="14" fill="${escapeHtml(primaryColor)}"/>
+  <text x="32" y="44" font-family="system-ui, sans-serif" font-size="34" font-weight="700" fill="#ffffff" text-anchor="middle">${letter}</text>
+</svg>
+`;
+}
+
+function createRobotsTxt(siteUrl: string): string {
+  return `User-agent: *
+Allow: /
+
+Sitemap: ${siteUrl}/sitemap.xml
+`;
+}
+
+function createSitemapXml(siteUrl: string, lastModified: Date): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url>
+    <loc>${escapeHtml(siteUrl)}/</loc>
+    <lastmod>${lastModified.toISOString().slice(0, 10)}</lastmod>
+  </url>
+</urlset>
+`;
+}
+
+function createReadme(title: string, siteUrl: string | undefined, files: string[]): string {
+  return `# ${title}
+
+LP Creator で作成したランディングページの静的サイト一式です。
+ビルドや外部CDNは不要で、このフォルダをそのままホスティングサービスへアップロードすれば公開できます。
+
+## ファイル構成
+
+${files.map(file => `- \`${file}\``).join('\n')}
+
+## 公開手順
+
+1. ZIP を展開します
+2. 展開したフォルダの中身をホスティングサービス（Netlify、Vercel、Cloudflare Pages、S3 など）の公開ディレクトリにアップロードします
+3. \`index.html\` がトップページとして配信されることを確認します
+${siteUrl ? '' : `
+## 公開URLの設定
+
+\`robots.txt\` と \`sitemap.xml\` には仮のURL（${PLACEHOLDER_SITE_URL}）が入っています。公開URLが決まったら置き換えてください。
+`}`;
+}
+
+/**
+ * Builds every file of a deployable site: index.html, compiled CSS, extracted
+ * image assets, robots.txt, sitemap.xml, a favicon and a README.
+ */
+export async function buildSiteBundle(input: SiteBundleInput, generatedAt = new Date()): Promise<ZipEntry[]> {
+  const { siteUrl, colorScheme, ...page } = siteBundleInputSchema.parse(input);
+  const baseUrl = (siteUrl ?? PLACEHOLDER_SITE_URL).replace(/\/+$/, '');
+
+  const { html: htmlWithAssets, css: cssWithAssets, assets } = await extractAssets(page.htmlContent, page.cssContent);
+  const staticExport = await buildStaticExport(
+    { ...page, htmlContent: htmlWithAssets, cssContent: cssWithAssets },
+    { headHtml: '<link rel="icon" href="favicon.svg" type="image/svg+xml">' }
+  );
+
+  const entries: ZipEntry[] = [
+    ...staticExport.files,
+    ...assets,
+    { path: 'favicon.svg', content: createFaviconSvg(page.title, colorScheme?.primaryColor ?? DEFAULT_COLOR_SCHEME.primaryColor) },
+    { path: 'robots.txt', content: createRobotsTxt(baseUrl) },
+    { path: 'sitemap.xml', content: createSitemapXml(baseUrl, generatedAt) },
+  ];
+  return [
+    ...entries,
+    { path: 'README.md', content: createReadme(page.title, siteUrl, [...entries.map(entry => entry.path), 'README.md']) },
+  ];
+}
+
+/**
+ * Packages the site bundle as a ZIP archive.
+ */
+export async function buildSiteZip(input: SiteBundleInput): Promise<Buffer> {
+  const generatedAt = new Date();
+  return createZip(await buildSiteBundle(input, generatedAt), generatedAt);
+}
@@ -0,0 +1,138 @@
+import { JSDOM } from 'jsdom';
+import { transform } from 'lightningcss';
+import postcss from 'postcss';
+import tailwindcss from 'tailwindcss-v3';
+import { z } from 'zod';
+import { sanitizeNode, sanitizeStyleSheet } from '../security';
+
+// What the exporters accept from the editor
+export const staticExportInputSchema = z.object({
+  title: z.string().min(1).default('Landing Page'),
+  description: z.string().optional(),
+  htmlContent: z.string().min(1),
+  cssContent: z.string().default(''),
+});
+
+export type StaticExportInput = z.input<typeof staticExportInputSchema>;
+
+export interface StaticExportFile {
+  path: string;
+  content: string;
+}
+
+export interface StaticExportOptions {
+  /** Extra tags for `<head>`, e.g. a favicon link */
+  headHtml?: string;
+  /** Embed the CSS in a `<style>` tag instead of linking styles.css */
+  inlineCss?: boolean;
+}
+
+export interface StaticExportBundle {
+  html: string;
+  css: string;
+  files: StaticExportFile[];
+}
+
+// Runtime dependencies the live preview relies on, which a static export must not
+const RUNTIME_ASSET_SELECTORS = [
+  'script[src*="cdn.tailwindcss.com"]',
+  'link[href*="fonts.googleapis.com"]',
+  'link[href*="fonts.gstatic.com"]',
+];
+
+// Only locally installed fonts, so the page renders without network access
+const BASE_CSS = `body {
+  margin: 0;
+  font-family: 'Noto Sans JP', 'Hiragino Sans', 'Hiragino Kaku Gothic ProN', 'Yu Gothic', Meiryo, system-ui, sans-serif;
+  line-height: 1.6;
+}`;
+
+/**
+ * Compiles only the Tailwind utilities whose class names appear in the HTML,
+ * with the default theme and preflight. The preview runs the Tailwind v3 CDN
+ * and the prompts ask for v3 classes, so the export compiles with v3 as well.
+ */
+export async function compileTailwindCss(html: string): Promise<string> {
+  const result = await postcss([
+    tailwindcss({ content: [{ raw: html, extension: 'html' }] }),
+  ]).process('@tailwind base;\n@tailwind components;\n@tailwind utilities;', { from: undefined });
+  return result.css;
+}
+
+function minifyCss(css: string): string {
+  return transform({ filename: 'styles.css', code: Buffer.from(css), minify: true }).code.toString();
+}
+
+/**
+ * Extracts the CSS text from `<style>` blocks such as the output of
+ * generateCustomCSS, sanitized so it is safe to inline into a `<style>` element.
+ */
+export function extractStyleContent(cssContent: string): string {
+  return sanitizeStyleSheet(cssContent).css;
+}
+
+/**
+ * Returns the page body sanitized like the preview (no scripts or event
+ * handlers) and without CDN scripts and web font links.
+ */
+function stripRuntimeAssets(htmlContent: string): string {
+  const { document } = new JSDOM(htmlContent).window;
+  document.querySelectorAll(RUNTIME_ASSET_SELECTORS.join(', ')).forEach(element => element.remove());
+  sanitizeNode(document.body);
+  return document.body.innerHTML.trim();
+}
+
+// Minifying may unescape `\3c` in CSS strings again, so inlined CSS is escaped last
+function escapeInlineCss(css: string): string {
+  return css.replace(/</g, '\\3c ');
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Builds a standalone `index.html` + `styles.css` bundle that works with no
+ * network: Tailwind is compiled ahead of time and the page's color variables
+ * are inlined into the stylesheet.
+ */
+export async function buildStaticExport(
+  input: StaticExportInput,
+  { headHtml, inlineCss = false }: StaticExportOptions = {}
+): Promise<StaticExportBundle> {
+  const { title, description, htmlContent, cssContent } = staticExportInputSchema.parse(input);
+  const body = stripRuntimeAssets(htmlContent);
+
+  // カスタムCSS（カラー変数・.bg-primary など）は Tailwind の後に置いて優先させる
+  const tailwindCss = await compileTailwindCss(body);
+  const css = minifyCss([tailwindCss, BASE_CSS, extractStyleContent(cssContent)].join('\n\n'));
+
+  const html = `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+${description ? `  <meta name="description" content="${escapeHtml(description)}">\n` : ''}  ${inlineCss ? `<style>${escapeInlineCss(css)}</style>` : '<link rel="stylesheet" href="styles.css">'}
+${headHtml ? `  ${headHtml.trim()}\n` : ''}</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+  return {
+    html,
+    css,
+    files: inlineCss
+      ? [{ path: 'index.html', content: html }]
+      : [
+          { path: 'index.html', content: html },
+          { path: 'styles.css', content: css },
+        ],
+  };
+}
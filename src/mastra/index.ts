@@ -9,6 +9,7 @@ import {
   lpStructureTool,
   lpPreviewTool
 } from './tools';
+import { STORAGE_URL } from './storage';
 
 // @ts-ignore - Type definition issue with tools property
 export const mastra = new Mastra({
@@ -21,7 +22,7 @@ export const mastra = new Mastra({
     lpPreviewTool,
   } as any,
   storage: new LibSQLStore({
-    url: "file:../memory.db",
+    url: STORAGE_URL,
   }),
   logger: createLogger({
     name: 'Mastra',
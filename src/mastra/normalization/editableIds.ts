@@ -0,0 +1,106 @@
+// Works on any DOM implementation, like the sanitizer, so ids can be checked
+// wherever a parsed page is at hand.
+
+export type EditableIdIssueType = 'missing-root-id' | 'missing-editable-id' | 'duplicate-editable-id';
+
+export interface EditableIdIssue {
+  type: EditableIdIssueType;
+  detail: string;
+}
+
+/**
+ * A container whose top-level elements are sections, numbered from
+ * `sectionIndex` in the ids created for them.
+ */
+export interface EditableIdScope {
+  container: Element;
+  sectionIndex: number;
+}
+
+// Elements the editor can select regardless of their content: text blocks, buttons, links and images
+const EDITABLE_SELECTOR = [
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'a', 'button', 'li', 'img', 'blockquote', 'figcaption', 'label',
+  'dt', 'dd', 'th', 'td', 'input[type="submit"]', 'input[type="button"]',
+].join(', ');
+
+function hasOwnText(element: Element): boolean {
+  return Array.from(element.childNodes).some(node => node.nodeType === 3 && !!node.textContent?.trim());
+}
+
+/**
+ * Whether an element gets an id of its own: the elements above, and any other
+ * element with text of its own that is not already inside an editable one,
+ * e.g. a `<div>` or `<span>` used as a label. SVG internals never do.
+ */
+function isEditableElement(element: Element, section: Element, editable: Set<Element>): boolean {
+  if (element.localName === 'style' || element.closest('svg')) return false;
+  if (element.matches(EDITABLE_SELECTOR)) return true;
+  if (!hasOwnText(element)) return false;
+  for (let parent = element.parentElement; parent && parent !== section; parent = parent.parentElement) {
+    if (editable.has(parent)) return false;
+  }
+  return true;
+}
+
+/**
+ * Gives every section root and editable element a data-editable-id that is
+ * unique across all scopes. Existing unique ids are kept; missing and
+ * duplicated ones get the next free "section-N-element-M" number of their
+ * section. Scopes are handled in order, so when two share an id the one
+ * listed first keeps it. The same input always produces the same ids.
+ */
+export function ensureEditableIds(scopes: EditableIdScope[]): EditableIdIssue[] {
+  const issues: EditableIdIssue[] = [];
+  const seen = new Set<string>();
+  const allIds = new Set(
+    scopes.flatMap(({ container }) =>
+      Array.from(container.querySelectorAll('[data-editable-id]')).map(element => element.getAttribute('data-editable-id') ?? '')
+    )
+  );
+
+  for (const { container, sectionIndex: firstSectionIndex } of scopes) {
+    const sections = Array.from(container.children).filter(element => element.localName !== 'style');
+
+    sections.forEach((section, position) => {
+      const sectionIndex = firstSectionIndex + position;
+      let nextElementIndex = 0;
+      const nextId = () => {
+        let id: string;
+        do {
+          id = `section-${sectionIndex}-element-${nextElementIndex++}`;
+        } while (allIds.has(id));
+        allIds.add(id);
+        return id;
+      };
+
+      const rootId = section.getAttribute('data-editable-id');
+      if (!rootId || seen.has(rootId)) {
+        let id = `section-${sectionIndex}-root`;
+        if (allIds.has(id)) id = nextId();
+        section.setAttribute('data-editable-id', id);
+        allIds.add(id);
+        issues.push({ type: 'missing-root-id', detail: id });
+      }
+      seen.add(section.getAttribute('data-editable-id') ?? '');
+
+      const editable = new Set<Element>();
+      for (const element of Array.from(section.querySelectorAll('*'))) {
+        const id = element.getAttribute('data-editable-id');
+        if (!id && !isEditableElement(element, section, editable)) continue;
+        editable.add(element);
+
+        if (id && !seen.has(id)) {
+          seen.add(id);
+          continue;
+        }
+        const assigned = nextId();
+        element.setAttribute('data-editable-id', assigned);
+        seen.add(assigned);
+        issues.push(id
+          ? { type: 'duplicate-editable-id', detail: `${id} → ${assigned}` }
+          : { type: 'missing-editable-id', detail: `<${element.localName}> → ${assigned}` });
+      }
+    });
+  }
+  return issues;
+}
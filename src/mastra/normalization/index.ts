@@ -0,0 +1,5 @@
+export { normalizeLPHtml, normalizeSectionIds, repairEscapedMarkup } from './normalizeLPHtml';
+export type { NormalizationIssue, NormalizationIssueType, NormalizeOptions, NormalizeResult } from './normalizeLPHtml';
+export { ensureEditableIds } from './editableIds';
+export type { EditableIdIssue, EditableIdIssueType, EditableIdScope } from './editableIds';
+export { repairHtmlObjectText } from './repairHtmlObject';
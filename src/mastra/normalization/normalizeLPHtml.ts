@@ -0,0 +1,224 @@
+import { JSDOM } from 'jsdom';
+import { ensureEditableIds, type EditableIdIssueType } from './editableIds';
+import { isCompleteHtmlDocument, sanitizeDocument, sanitizeNode, summarizeSanitizeReport, type SanitizeReport } from '../security';
+
+export type NormalizationIssueType =
+  | 'escaped-markup'
+  | 'repaired-attribute'
+  | 'removed-attribute'
+  | 'missing-image'
+  | 'wrapped-content'
+  | 'empty'
+  | EditableIdIssueType;
+
+export interface NormalizationIssue {
+  type: NormalizationIssueType;
+  detail: string;
+}
+
+export interface NormalizeOptions {
+  /** Index of the first top-level section, used when numbering new ids */
+  sectionIndex?: number;
+  /** Names the generator in the log line */
+  source?: string;
+  /** Return complete documents whole, with a sanitized head, instead of only their body content */
+  keepDocument?: boolean;
+}
+
+export interface NormalizeResult {
+  html: string;
+  issues: NormalizationIssue[];
+  sanitization: SanitizeReport;
+}
+
+// Attributes whose values are never legitimately wrapped in quotes or backslashes
+const REPAIRABLE_ATTRIBUTES = new Set(['class', 'd', 'href', 'points', 'poster', 'src', 'srcset', 'viewbox', 'xlink:href']);
+
+// Elements that can stand as a section of the page on their own
+const SECTION_ROOT_TAGS = new Set(['section', 'header', 'footer', 'nav', 'main', 'article', 'aside', 'div', 'style']);
+
+const VALID_ATTRIBUTE_NAME = /^[a-zA-Z_:][-a-zA-Z0-9_:.]*$/;
+const ENCODED_ENTITY = /&(?:quot|#x27|#39|lt|gt|amp);/;
+
+const IMAGE_PLACEHOLDER_HTML =
+  '<div class="bg-gray-200 rounded-lg h-48 flex items-center justify-center"><span class="text-gray-500">画像プレースホルダー</span></div>';
+
+/**
+ * Undoes JSON string escaping the model leaves in its HTML, such as
+ * `class=\"...\"`, `d="\"M0 0\""` and literal `\n`, and strips code fences.
+ */
+export function repairEscapedMarkup(html: string): { html: string; repaired: boolean } {
+  let repaired = html.trim().replace(/^```(?:html)?\s*\n?/i, '').replace(/\n?```\s*$/, '');
+  if (!/[\w:-]=\\?"\\"|[\w:-]=\\"/.test(repaired)) {
+    return { html: repaired, repaired: repaired !== html.trim() };
+  }
+
+  repaired = repaired
+    // d="\"M0 0\"" → d="M0 0"
+    .replace(/([\w:-]+)=\\?"\\"((?:[^"\\]|\\[^"])*)\\"\\?"/g, '$1="$2"')
+    // class=\"foo\" → class="foo"
+    .replace(/([\w:-]+)=\\"((?:[^"\\]|\\[^"])*)\\"/g, '$1="$2"')
+    .replace(/\\n/g, '\n')
+    .replace(/\\t/g, '\t');
+  return { html: repaired, repaired: true };
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Fixes attribute values mangled by double encoding or stray quoting, and
+ * drops the junk attributes a broken quote leaves behind. Text content is
+ * left as it is, so escaped text such as "&lt;br&gt;" stays text.
+ */
+function repairAttributes(root: Element, issues: NormalizationIssue[]): void {
+  for (const element of Array.from(root.querySelectorAll('*'))) {
+    for (const attribute of Array.from(element.attributes)) {
+      const tagName = element.localName;
+      if (!VALID_ATTRIBUTE_NAME.test(attribute.name)) {
+        element.removeAttribute(attribute.name);
+        issues.push({ type: 'removed-attribute', detail: `<${tagName}> ${attribute.name}` });
+        continue;
+      }
+
+      let value = attribute.value;
+      // 二重にエンコードされた値（&amp;quot; など）を一度だけ戻す
+      if (ENCODED_ENTITY.test(value)) value = decodeEntities(value);
+      if (REPAIRABLE_ATTRIBUTES.has(attribute.name.toLowerCase())) {
+        value = value.replace(/^[\s\\"']+|[\\"']+\s*$/g, '');
+      }
+      if (value === attribute.value) continue;
+
+      if (!value && attribute.value) {
+        element.removeAttribute(attribute.name);
+        issues.push({ type: 'removed-attribute', detail: `<${tagName}> ${attribute.name}="${attribute.value}"` });
+      } else {
+        element.setAttribute(attribute.name, value);
+        issues.push({ type: 'repaired-attribute', detail: `<${tagName}> ${attribute.name}` });
+      }
+    }
+  }
+}
+
+/**
+ * Replaces images without a usable source with a placeholder block.
+ */
+function replaceMissingImages(root: Element, issues: NormalizationIssue[]): void {
+  for (const image of Array.from(root.querySelectorAll('img'))) {
+    const src = image.getAttribute('src')?.trim() ?? '';
+    // "/hero.jpg/" のように拡張子の後ろが壊れたパスも画像として読めない
+    if (src && !/\.(?:jpe?g|png|gif|webp|avif|svg)\/$/i.test(src)) continue;
+
+    const template = image.ownerDocument.createElement('template');
+    template.innerHTML = IMAGE_PLACEHOLDER_HTML;
+    image.replaceWith(template.content);
+    issues.push({ type: 'missing-image', detail: src ? `src="${src}"` : 'empty src' });
+  }
+}
+
+/**
+ * Makes every top-level node a section: loose text and inline elements
+ * between sections are wrapped in a `<section>` of their own.
+ */
+function wrapLooseContent(body: HTMLElement, issues: NormalizationIssue[]): void {
+  let wrapper: HTMLElement | null = null;
+  for (const node of Array.from(body.childNodes)) {
+    const isSection = node.nodeType === node.ELEMENT_NODE && SECTION_ROOT_TAGS.has((node as Element).localName);
+    const isBlank = node.nodeType === node.TEXT_NODE && !node.textContent?.trim();
+    const isComment = node.nodeType === node.COMMENT_NODE;
+
+    if (isSection || isComment) {
+      wrapper = null;
+      continue;
+    }
+    if (isBlank && !wrapper) continue;
+
+    if (!wrapper) {
+      wrapper = body.ownerDocument.createElement('section');
+      body.insertBefore(wrapper, node);
+      issues.push({ type: 'wrapped-content', detail: node.nodeType === node.TEXT_NODE ? 'text' : `<${(node as Element).localName}>` });
+    }
+    wrapper.appendChild(node);
+  }
+}
+
+/**
+ * Normalizes generated LP HTML on the server: repairs escaped markup and
+ * mangled attributes, makes every top-level node a section, sanitizes it and
+ * guarantees a unique data-editable-id on every editable element.
+ * Complete documents are reduced to their body content unless `keepDocument` is set.
+ */
+export function normalizeLPHtml(html: string, { sectionIndex = 0, source, keepDocument = false }: NormalizeOptions = {}): NormalizeResult {
+  const issues: NormalizationIssue[] = [];
+  const escaped = repairEscapedMarkup(html);
+  if (escaped.repaired) {
+    issues.push({ type: 'escaped-markup', detail: 'unescaped JSON string escapes or code fences' });
+  }
+
+  const isDocument = isCompleteHtmlDocument(escaped.html);
+  const dom = new JSDOM(isDocument ? escaped.html : `<!DOCTYPE html><body>${escaped.html}</body>`);
+  const { document } = dom.window;
+  const body = document.body;
+
+  repairAttributes(body, issues);
+  replaceMissingImages(body, issues);
+  const sanitization = isDocument && keepDocument ? sanitizeDocument(document) : sanitizeNode(body);
+  wrapLooseContent(body, issues);
+  if (!body.children.length) {
+    issues.push({ type: 'empty', detail: 'no content' });
+  }
+  issues.push(...ensureEditableIds([{ container: body, sectionIndex }]));
+
+  if (source && (issues.length > 0 || sanitization.removed.length > 0)) {
+    const repairs = Array.from(new Set(issues.map(issue => issue.type))).join(', ');
+    console.warn(
+      `🧹 Normalized ${source} output:` +
+      (issues.length ? ` ${issues.length} repairs (${repairs})` : '') +
+      (sanitization.removed.length ? ` removed ${summarizeSanitizeReport(sanitization)}` : '')
+    );
+  }
+
+  return { html: isDocument && keepDocument ? dom.serialize() : body.innerHTML.trim(), issues, sanitization };
+}
+
+/**
+ * Makes data-editable-id values unique across the sections of a page, each
+ * section numbering new ids by its position. Sections listed in `changed`
+ * (e.g. one just regenerated) give way when they reuse an id of another
+ * section. Sections without problems are returned unchanged.
+ */
+export function normalizeSectionIds<T extends { html: string }>(
+  sections: T[],
+  { changed = [], source }: { changed?: number[]; source?: string } = {}
+): { sections: T[]; issues: NormalizationIssue[] } {
+  const { document } = new JSDOM('<!DOCTYPE html><body></body>').window;
+  const scopes = sections.map((section, sectionIndex) => {
+    const container = document.createElement('div');
+    container.innerHTML = section.html;
+    return { container, sectionIndex, serialized: container.innerHTML };
+  });
+
+  // 変更されていないセクションのIDを優先して残す
+  const ordered = [
+    ...scopes.filter(scope => !changed.includes(scope.sectionIndex)),
+    ...scopes.filter(scope => changed.includes(scope.sectionIndex)),
+  ];
+  const issues: NormalizationIssue[] = ensureEditableIds(ordered);
+  if (source && issues.length > 0) {
+    console.warn(`🧹 Fixed ${issues.length} data-editable-id values in ${source}`);
+  }
+
+  return {
+    sections: sections.map((section, index) => {
+      const { container, serialized } = scopes[index];
+      return container.innerHTML === serialized ? section : { ...section, html: container.innerHTML };
+    }),
+    issues,
+  };
+}
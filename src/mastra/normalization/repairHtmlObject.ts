@@ -0,0 +1,67 @@
+const MIN_HTML_LENGTH = 50;
+
+function looksLikeHtml(value: string): boolean {
+  return /^\s*</.test(value) && value.includes('>');
+}
+
+/**
+ * The HTML in a parsed model reply: the `html` field, or the first string
+ * that looks like HTML anywhere in the object (e.g. under `content` or a
+ * nested `section`). JSON encoded twice is decoded once more.
+ */
+function findHtml(value: unknown, depth = 0): string | null {
+  if (depth > 3) return null;
+  if (typeof value === 'string') {
+    if (looksLikeHtml(value)) return value;
+    try {
+      return findHtml(JSON.parse(value), depth + 1);
+    } catch {
+      return null;
+    }
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.html === 'string' && looksLikeHtml(record.html)) return record.html;
+  for (const child of Object.values(record)) {
+    const html = findHtml(child, depth + 1);
+    if (html) return html;
+  }
+  return null;
+}
+
+function parseHtml(text: string): string | null {
+  try {
+    return findHtml(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Repairs a model reply that should have been `{"html": "..."}` but failed to
+ * parse or validate: code fences, text around the object, a different key,
+ * unescaped quotes inside the HTML, or bare HTML. Returns the repaired JSON,
+ * or null when no usable HTML is in the reply.
+ */
+export function repairHtmlObjectText(text: string): string | null {
+  const trimmed = text.trim().replace(/^```(?:json|html)?\s*\n?/i, '').replace(/\n?```\s*$/, '').trim();
+
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  const object = start >= 0 && end > start ? trimmed.slice(start, end + 1) : null;
+
+  let html = parseHtml(trimmed) ?? (object ? parseHtml(object) : null);
+  if (!html && object) {
+    // HTML 内のダブルクォートがエスケープされていない {"html": "<a class="x">"} 形式
+    const match = object.match(/^\{\s*"html"\s*:\s*"([\s\S]*)"\s*\}$/);
+    if (match) {
+      html = match[1].replace(/\\"/g, '"').replace(/\\n/g, '\n').replace(/\\t/g, '\t').replace(/\\\\/g, '\\');
+    }
+  }
+  if (!html && looksLikeHtml(trimmed)) {
+    html = trimmed;
+  }
+
+  return html && html.trim().length >= MIN_HTML_LENGTH ? JSON.stringify({ html: html.trim() }) : null;
+}
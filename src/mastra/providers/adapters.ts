@@ -0,0 +1,109 @@
+import {
+  simulateStreamingMiddleware,
+  wrapLanguageModel,
+  type LanguageModelV1,
+  type LanguageModelV1Middleware,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+
+// Models served through the OpenAI Responses API instead of Chat Completions
+export const OPENAI_RESPONSES_MODELS = ['o3-pro-2025-06-10'];
+
+// Models whose API does not stream; their replies are streamed in one piece
+const NON_STREAMING_MODEL_PREFIXES = ['o3-pro', 'o1-pro'];
+
+function isOpenAIReasoningModel(modelName: string): boolean {
+  return /^o\d/.test(modelName);
+}
+
+function withoutNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(withoutNulls);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, entry]) => entry !== null)
+      .map(([key, entry]) => [key, withoutNulls(entry)])
+  );
+}
+
+function dropNullArgs(args: string): string {
+  try {
+    return JSON.stringify(withoutNulls(JSON.parse(args)));
+  } catch {
+    return args;
+  }
+}
+
+/**
+ * Mastra turns optional tool parameters into required nullable ones for
+ * OpenAI reasoning models, which then send `null` for every parameter they
+ * leave out. Dropping those keeps the tools' defaults working.
+ */
+const nullToolArgsMiddleware: LanguageModelV1Middleware = {
+  wrapGenerate: async ({ doGenerate }) => {
+    const result = await doGenerate();
+    return {
+      ...result,
+      toolCalls: result.toolCalls?.map(call => ({ ...call, args: dropNullArgs(call.args) })),
+    };
+  },
+  wrapStream: async ({ doStream }) => {
+    const { stream, ...rest } = await doStream();
+    return {
+      ...rest,
+      stream: stream.pipeThrough(
+        new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+          transform(part, controller) {
+            controller.enqueue(part.type === 'tool-call' ? { ...part, args: dropNullArgs(part.args) } : part);
+          },
+        })
+      ),
+    };
+  },
+};
+
+/**
+ * Reasoning tokens count toward the output limit, so limits sized for the
+ * visible output (e.g. 500 tokens of copy) would leave no room for the answer.
+ */
+const reasoningTokenLimitMiddleware: LanguageModelV1Middleware = {
+  transformParams: async ({ params }) => ({ ...params, maxTokens: undefined }),
+};
+
+/**
+ * The Responses API validates schemas strictly by default, which rejects the
+ * optional fields of our output schemas.
+ */
+const lenientResponsesSchemaMiddleware: LanguageModelV1Middleware = {
+  transformParams: async ({ params }) => ({
+    ...params,
+    providerMetadata: {
+      ...params.providerMetadata,
+      openai: { strictSchemas: false, ...params.providerMetadata?.openai },
+    },
+  }),
+};
+
+function openaiMiddleware(modelName: string): LanguageModelV1Middleware[] {
+  const middleware: LanguageModelV1Middleware[] = [];
+  if (isOpenAIReasoningModel(modelName)) {
+    middleware.push(nullToolArgsMiddleware, reasoningTokenLimitMiddleware);
+  }
+  if (OPENAI_RESPONSES_MODELS.includes(modelName)) {
+    middleware.push(lenientResponsesSchemaMiddleware);
+  }
+  if (NON_STREAMING_MODEL_PREFIXES.some(prefix => modelName.startsWith(prefix))) {
+    middleware.push(simulateStreamingMiddleware());
+  }
+  return middleware;
+}
+
+/**
+ * Adjusts a model for the differences of its provider so every provider can
+ * run the same tool-calling agent and output schemas. Anthropic, Gemini and
+ * the mock need nothing beyond Mastra's own schema compatibility layers.
+ */
+export function adaptModel(provider: string, modelName: string, model: LanguageModelV1): LanguageModelV1 {
+  const middleware = provider === 'openai' ? openaiMiddleware(modelName) : [];
+  return middleware.length > 0 ? wrapLanguageModel({ model, middleware }) : model;
+}
@@ -0,0 +1,204 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai';
+import { getForcedProvider, getModel, type ModelSelection } from './registry';
+
+// A model's circuit opens after this many consecutive failures...
+const DEFAULT_FAILURE_THRESHOLD = 3;
+// ...and lets a trial call through again after this long
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+/**
+ * Which model answered a call, reported to the caller as
+ * `providerMetadata.failover`.
+ */
+export interface FailoverReport {
+  provider: string;
+  modelId: string;
+  /** True when an earlier model in the chain failed or was skipped */
+  failedOver: boolean;
+  /** Models that were not used, with the reason */
+  skipped: Array<{ model: string; reason: string }>;
+}
+
+interface CircuitState {
+  failures: number;
+  openedAt: number | null;
+  /** Set while the single half-open trial call is running */
+  trialInFlight: boolean;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function circuitSettings() {
+  return {
+    threshold: readPositiveInt(process.env.LP_CREATOR_CIRCUIT_FAILURES, DEFAULT_FAILURE_THRESHOLD),
+    cooldownMs: readPositiveInt(process.env.LP_CREATOR_CIRCUIT_COOLDOWN_MS, DEFAULT_COOLDOWN_MS),
+  };
+}
+
+function modelKey(model: LanguageModelV1): string {
+  return `${model.provider}:${model.modelId}`;
+}
+
+// 開いている回路はクールダウン経過後に1回だけ試行を許す（half-open）。試行中の呼び出しは回路が開いているものとして扱う
+function isCircuitOpen(key: string): boolean {
+  const state = circuits.get(key);
+  if (!state?.openedAt) return false;
+  if (state.trialInFlight || Date.now() - state.openedAt < circuitSettings().cooldownMs) return true;
+  state.trialInFlight = true;
+  return false;
+}
+
+function recordSuccess(key: string) {
+  circuits.delete(key);
+}
+
+function recordFailure(key: string) {
+  const state = circuits.get(key) ?? { failures: 0, openedAt: null, trialInFlight: false };
+  state.failures++;
+  // 試行呼び出しが失敗した場合はクールダウンをやり直す
+  if (state.trialInFlight || (state.failures >= circuitSettings().threshold && !state.openedAt)) {
+    state.openedAt = Date.now();
+    state.trialInFlight = false;
+    console.warn(`🔌 Circuit opened for ${key} after ${state.failures} consecutive failures`);
+  }
+  circuits.set(key, state);
+}
+
+// 中断された試行は成否が分からないため、次の呼び出しに試行を譲る
+function releaseTrial(key: string) {
+  const state = circuits.get(key);
+  if (state) state.trialInFlight = false;
+}
+
+/**
+ * Closes every circuit, e.g. after provider credentials were fixed.
+ */
+export function resetCircuitBreakers() {
+  circuits.clear();
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message.split('\n')[0] : String(error);
+}
+
+/**
+ * A model that forwards each call to the first model of the chain whose
+ * circuit is closed, moving on to the next one when a call fails. Streams
+ * fail over only while starting and report on their finish part.
+ */
+class FailoverLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1';
+  readonly defaultObjectGenerationMode: LanguageModelV1['defaultObjectGenerationMode'];
+  readonly supportsStructuredOutputs: boolean;
+  readonly supportsImageUrls: boolean;
+
+  constructor(private readonly models: LanguageModelV1[]) {
+    const modes = new Set(models.map(model => model.defaultObjectGenerationMode));
+    // JSON モードに対応しないプロバイダー（Anthropic）があるため、混在する場合はツールモードに揃える
+    this.defaultObjectGenerationMode = modes.size === 1 ? models[0].defaultObjectGenerationMode : 'tool';
+    this.supportsStructuredOutputs = models.every(model => model.supportsStructuredOutputs === true);
+    this.supportsImageUrls = models.every(model => model.supportsImageUrls !== false);
+  }
+
+  get provider() {
+    return this.models[0].provider;
+  }
+
+  get modelId() {
+    return this.models[0].modelId;
+  }
+
+  private async run<T>(call: (model: LanguageModelV1) => PromiseLike<T>): Promise<{ result: T; report: FailoverReport }> {
+    const skipped: FailoverReport['skipped'] = [];
+    let lastError: unknown = null;
+
+    for (const model of this.models) {
+      const key = modelKey(model);
+      if (isCircuitOpen(key)) {
+        skipped.push({ model: key, reason: 'circuit open' });
+        continue;
+      }
+      try {
+        const result = await call(model);
+        recordSuccess(key);
+        if (skipped.length > 0) {
+          console.warn(`🔀 ${key} answered after failover (skipped ${skipped.map(entry => entry.model).join(', ')})`);
+        }
+        return {
+          result,
+          report: { provider: model.provider, modelId: model.modelId, failedOver: skipped.length > 0, skipped },
+        };
+      } catch (error) {
+        if (isAbortError(error)) {
+          releaseTrial(key);
+          throw error;
+        }
+        recordFailure(key);
+        skipped.push({ model: key, reason: errorMessage(error) });
+        lastError = error;
+        console.warn(`⚠️ ${key} failed: ${errorMessage(error)}`);
+      }
+    }
+
+    throw lastError ?? new Error(`No model available: ${skipped.map(entry => `${entry.model} (${entry.reason})`).join(', ')}`);
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions) {
+    const { result, report } = await this.run(model => model.doGenerate(options));
+    return { ...result, providerMetadata: { ...result.providerMetadata, failover: { ...report } } };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions) {
+    const { result, report } = await this.run(model => model.doStream(options));
+    // ストリームでは finish パートに回答したモデルを載せる
+    const stream = result.stream.pipeThrough(
+      new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+        transform(part, controller) {
+          controller.enqueue(
+            part.type === 'finish' ? { ...part, providerMetadata: { ...part.providerMetadata, failover: { ...report } } } : part
+          );
+        },
+      })
+    );
+    return { ...result, stream };
+  }
+}
+
+/**
+ * The model for `primary`, failing over to `fallbacks` in order. Models that
+ * repeat an earlier entry are dropped; without fallbacks or with a forced
+ * provider (e.g. the mock) there is no failover.
+ */
+export function getModelWithFailover(primary: ModelSelection, fallbacks: ModelSelection[] = []): LanguageModelV1 {
+  if (getForcedProvider()) return getModel(primary);
+
+  const seen = new Set<string>();
+  const models = [primary, ...fallbacks]
+    .filter(selection => {
+      const key = `${selection.provider}:${selection.modelName}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(selection => getModel(selection));
+
+  return models.length === 1 ? models[0] : new FailoverLanguageModel(models);
+}
+
+/**
+ * The failover report attached to a generateText/generateObject result or a
+ * stream's finish part, if the call went through a failover model.
+ */
+export function getFailoverReport(providerMetadata: unknown): FailoverReport | null {
+  const report = (providerMetadata as { failover?: FailoverReport } | undefined)?.failover;
+  return report && typeof report.provider === 'string' ? report : null;
+}
@@ -0,0 +1,12 @@
+export { OPENAI_RESPONSES_MODELS, adaptModel } from './adapters';
+export { DEFAULT_MODEL, LLM_PROVIDERS, getForcedProvider, getModel, isLLMProvider } from './registry';
+export type { LLMProvider, ModelSelection } from './registry';
+export { getFailoverReport, getModelWithFailover, resetCircuitBreakers } from './failover';
+export type { FailoverReport } from './failover';
+export { PIPELINE_STEPS, getStepModel, mergeModelRouting, modelRoutingSchema, modelSelectionSchema, stepModelConfigSchema } from './routing';
+export type { ModelRouting, PipelineStep, StepModel, StepModelConfig } from './routing';
+export { MODEL_PRICING, estimateCostUsd } from './pricing';
+export { createUsageRecorder, summarizeUsage, trackUsage } from './usage';
+export type { UsageAttribution, UsageEntry, UsageRecorder, UsageTotals } from './usage';
+export { UNAVAILABLE_MOCK_MODEL, loadMockFixtures, mockProvider } from './mockProvider';
+export type { MockFixtures } from './mockProvider';
@@ -0,0 +1,168 @@
+import { readFileSync } from 'node:fs';
+import {
+  APICallError,
+  NoSuchModelError,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1Prompt,
+  type LanguageModelV1StreamPart,
+  type Provider,
+} from 'ai';
+import { LP_SECTION_TYPES } from '../schemas';
+import defaultFixtures from './fixtures/default.json';
+
+/**
+ * Canned replies of the mock provider. `sections` maps a section type (or
+ * "default") to its HTML; `text` answers plain text requests whose prompt
+ * contains `match`; `chat` drives the agent: the first turn calls
+ * `toolName` with the user's message as topic, later turns reply with `reply`.
+ */
+export interface MockFixtures {
+  structure: Record<string, unknown>;
+  sections: Record<string, string>;
+  text: Array<{ match: string; response: string }>;
+  chat: { toolName: string; reply: string };
+}
+
+type GenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>;
+type MockResponse = Pick<GenerateResult, 'text' | 'toolCalls' | 'finishReason'>;
+
+const SECTION_TYPE_PATTERN = new RegExp(`\\b(${LP_SECTION_TYPES.join('|')})\\b`);
+
+// この名前で始まるモデルは常にサービス停止として失敗する（フェイルオーバーの確認用）
+export const UNAVAILABLE_MOCK_MODEL = 'unavailable';
+
+let cachedFixtures: { path: string | undefined; fixtures: MockFixtures } | null = null;
+
+/**
+ * The built-in fixtures, with the top-level keys of the JSON file named by
+ * LP_CREATOR_MOCK_FIXTURES replacing them.
+ */
+export function loadMockFixtures(): MockFixtures {
+  const path = process.env.LP_CREATOR_MOCK_FIXTURES || undefined;
+  if (cachedFixtures && cachedFixtures.path === path) return cachedFixtures.fixtures;
+
+  const overrides = path ? (JSON.parse(readFileSync(path, 'utf8')) as Partial<MockFixtures>) : {};
+  const fixtures: MockFixtures = { ...(defaultFixtures as MockFixtures), ...overrides };
+  cachedFixtures = { path, fixtures };
+  return fixtures;
+}
+
+function promptText(prompt: LanguageModelV1Prompt): string {
+  return prompt
+    .filter(message => message.role !== 'system')
+    .map(message =>
+      typeof message.content === 'string'
+        ? message.content
+        : message.content.map(part => (part.type === 'text' ? part.text : '')).join('\n')
+    )
+    .join('\n');
+}
+
+function sectionHtml(fixtures: MockFixtures, text: string): string {
+  const type = text.match(/セクションタイプ[:：]\s*(\w+)/)?.[1] ?? text.match(SECTION_TYPE_PATTERN)?.[1];
+  return (type && fixtures.sections[type]) || fixtures.sections.default;
+}
+
+// トークン数は文字数からの概算（決定的であればよい）
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function respond(options: LanguageModelV1CallOptions, fixtures: MockFixtures): MockResponse {
+  const text = promptText(options.prompt);
+  const { mode } = options;
+
+  if (mode.type === 'object-json' || mode.type === 'object-tool') {
+    const schema = mode.type === 'object-tool' ? mode.tool.parameters : mode.schema;
+    const properties = (schema?.properties ?? {}) as Record<string, unknown>;
+    const object = 'sections' in properties ? fixtures.structure : { html: sectionHtml(fixtures, text) };
+    const json = JSON.stringify(object);
+    return mode.type === 'object-json'
+      ? { text: json, finishReason: 'stop' }
+      : {
+          toolCalls: [{ toolCallType: 'function', toolCallId: 'mock-object', toolName: mode.tool.name, args: json }],
+          finishReason: 'tool-calls',
+        };
+  }
+
+  const tools = mode.tools ?? [];
+  if (tools.length > 0) {
+    const last = options.prompt[options.prompt.length - 1];
+    const canCallTool = tools.some(tool => tool.name === fixtures.chat.toolName);
+    if (last?.role === 'user' && canCallTool) {
+      return {
+        toolCalls: [{
+          toolCallType: 'function',
+          toolCallId: `mock-call-${options.prompt.length}`,
+          toolName: fixtures.chat.toolName,
+          args: JSON.stringify({ topic: promptText([last]).trim() || 'ランディングページ' }),
+        }],
+        finishReason: 'tool-calls',
+      };
+    }
+    return { text: fixtures.chat.reply, finishReason: 'stop' };
+  }
+
+  const match = fixtures.text.find(entry => text.includes(entry.match));
+  return { text: match ? match.response : sectionHtml(fixtures, text), finishReason: 'stop' };
+}
+
+/**
+ * A language model that answers from fixtures instead of calling an API, so
+ * generation and editing can run offline and in tests. Replies depend only
+ * on the request, never on earlier calls; models whose name starts with
+ * UNAVAILABLE_MOCK_MODEL always fail.
+ */
+class MockLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1';
+  readonly provider = 'mock';
+  readonly defaultObjectGenerationMode = 'tool';
+
+  constructor(readonly modelId: string) {}
+
+  async doGenerate(options: LanguageModelV1CallOptions): Promise<GenerateResult> {
+    if (this.modelId.startsWith(UNAVAILABLE_MOCK_MODEL)) {
+      throw new APICallError({
+        message: 'Mock model is unavailable',
+        url: `mock://${this.modelId}`,
+        requestBodyValues: {},
+        statusCode: 503,
+        isRetryable: false,
+      });
+    }
+    const response = respond(options, loadMockFixtures());
+    const output = response.text ?? response.toolCalls?.map(call => call.args).join('') ?? '';
+    return {
+      ...response,
+      usage: { promptTokens: estimateTokens(promptText(options.prompt)), completionTokens: estimateTokens(output) },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions) {
+    const { text, toolCalls, finishReason, usage, rawCall } = await this.doGenerate(options);
+    const parts: LanguageModelV1StreamPart[] = [
+      ...(text ? [{ type: 'text-delta' as const, textDelta: text }] : []),
+      ...(toolCalls ?? []).map(call => ({ type: 'tool-call' as const, ...call })),
+      { type: 'finish', finishReason, usage },
+    ];
+    const stream = new ReadableStream<LanguageModelV1StreamPart>({
+      start(controller) {
+        parts.forEach(part => controller.enqueue(part));
+        controller.close();
+      },
+    });
+    return { stream, rawCall };
+  }
+}
+
+export const mockProvider: Provider = {
+  languageModel: (modelId: string) => new MockLanguageModel(modelId),
+  textEmbeddingModel: (modelId: string) => {
+    throw new NoSuchModelError({ modelId, modelType: 'textEmbeddingModel' });
+  },
+  imageModel: (modelId: string) => {
+    throw new NoSuchModelError({ modelId, modelType: 'imageModel' });
+  },
+};
@@ -0,0 +1,23 @@
+// List prices in USD per million tokens, matched by model id prefix (the first match wins)
+export const MODEL_PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-3-opus', input: 15, output: 75 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'o3-pro', input: 20, output: 80 },
+  { prefix: 'gemini-1.5-flash', input: 0.075, output: 0.3 },
+  { prefix: 'gemini-1.5-pro', input: 1.25, output: 5 },
+];
+
+/**
+ * The cost of a call in USD, or null when the model has no known price.
+ * Calls to the mock provider are free.
+ */
+export function estimateCostUsd(provider: string, modelId: string, promptTokens: number, completionTokens: number): number | null {
+  if (provider === 'mock') return 0;
+  const price = MODEL_PRICING.find(entry => modelId.startsWith(entry.prefix));
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,62 @@
+import { anthropic } from '@ai-sdk/anthropic';
+import { google } from '@ai-sdk/google';
+import { openai } from '@ai-sdk/openai';
+import { createProviderRegistry, customProvider, type LanguageModelV1 } from 'ai';
+import { OPENAI_RESPONSES_MODELS, adaptModel } from './adapters';
+import { mockProvider } from './mockProvider';
+
+// Provider names as the model selector and the chat API send them
+export const LLM_PROVIDERS = ['claude', 'openai', 'gemini', 'mock'] as const;
+
+export type LLMProvider = (typeof LLM_PROVIDERS)[number];
+
+export interface ModelSelection {
+  provider: LLMProvider;
+  modelName: string;
+}
+
+export const DEFAULT_MODEL: ModelSelection = {
+  provider: 'claude',
+  modelName: 'claude-3-5-sonnet-20241022',
+};
+
+const registry = createProviderRegistry({
+  claude: anthropic,
+  // o3-pro などは Responses API でのみ提供される
+  openai: customProvider({
+    languageModels: Object.fromEntries(OPENAI_RESPONSES_MODELS.map(modelName => [modelName, openai.responses(modelName)])),
+    fallbackProvider: openai,
+  }),
+  gemini: google,
+  mock: mockProvider,
+});
+
+export function isLLMProvider(value: string): value is LLMProvider {
+  return (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * The provider every model is taken from when LP_CREATOR_LLM_PROVIDER is set,
+ * e.g. "mock" to run the whole app offline without API keys.
+ */
+export function getForcedProvider(): LLMProvider | null {
+  const forced = process.env.LP_CREATOR_LLM_PROVIDER;
+  if (!forced) return null;
+  if (!isLLMProvider(forced)) {
+    throw new Error(`Unsupported provider in LP_CREATOR_LLM_PROVIDER: ${forced}`);
+  }
+  return forced;
+}
+
+/**
+ * Returns the language model for a provider and model name, adapted to the
+ * provider's differences (see adaptModel). All model construction goes
+ * through here.
+ */
+export function getModel({ provider, modelName }: { provider: string; modelName: string } = DEFAULT_MODEL): LanguageModelV1 {
+  const resolved = getForcedProvider() ?? provider;
+  if (!isLLMProvider(resolved)) {
+    throw new Error(`Unsupported provider: ${provider}`);
+  }
+  return adaptModel(resolved, modelName, registry.languageModel(`${resolved}:${modelName}`));
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import type { LanguageModelV1 } from 'ai';
+import { getModelWithFailover } from './failover';
+import { DEFAULT_MODEL, getModel, LLM_PROVIDERS } from './registry';
+import { trackUsage, type UsageRecorder } from './usage';
+
+// Pipeline steps that can each use their own model
+export const PIPELINE_STEPS = [
+  'chat',        // the tool-calling LP Creator agent
+  'structure',   // planning the page outline
+  'section',     // generating the HTML of a section
+  'sectionEdit', // regenerating a section from an edit request
+  'copy',        // rewriting the text of one element (aiPartialUpdateTool)
+] as const;
+
+export type PipelineStep = (typeof PIPELINE_STEPS)[number];
+
+export const modelSelectionSchema = z.object({
+  provider: z.enum(LLM_PROVIDERS),
+  modelName: z.string().min(1),
+});
+
+export const stepModelConfigSchema = modelSelectionSchema.extend({
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  fallbacks: z
+    .array(modelSelectionSchema)
+    .optional()
+    .describe('Models tried in order when the model fails; no failover when omitted'),
+});
+
+export const modelRoutingSchema = z.object(
+  Object.fromEntries(PIPELINE_STEPS.map(step => [step, stepModelConfigSchema.optional()])) as Record<
+    PipelineStep,
+    z.ZodOptional<typeof stepModelConfigSchema>
+  >
+);
+
+export type StepModelConfig = z.infer<typeof stepModelConfigSchema>;
+export type ModelRouting = z.infer<typeof modelRoutingSchema>;
+
+export interface StepModel {
+  model: LanguageModelV1;
+  /** Only set when configured; callers keep their own default otherwise */
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Combines routing configs, later ones overriding earlier ones step by step,
+ * e.g. `mergeModelRouting(global, project)`.
+ */
+export function mergeModelRouting(...routings: Array<ModelRouting | null | undefined>): ModelRouting {
+  return Object.assign({}, ...routings.map(routing =>
+    Object.fromEntries(Object.entries(routing ?? {}).filter(([, config]) => config != null))
+  ));
+}
+
+/**
+ * The model and call settings configured for a pipeline step, or the default
+ * model when the step is not routed. The model fails over to the step's
+ * `fallbacks` when configured, and its token usage goes to `usage` when
+ * given.
+ */
+export function getStepModel(step: PipelineStep, routing?: ModelRouting | null, usage?: UsageRecorder): StepModel {
+  const config = routing?.[step];
+  if (!config) return { model: trackUsage(getModel(DEFAULT_MODEL), step, usage) };
+  return {
+    model: trackUsage(getModelWithFailover(config, config.fallbacks), step, usage),
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+  };
+}
@@ -0,0 +1,139 @@
+import { wrapLanguageModel, type LanguageModelV1, type LanguageModelV1StreamPart } from 'ai';
+import { getFailoverReport } from './failover';
+import { estimateCostUsd } from './pricing';
+import type { PipelineStep } from './routing';
+
+// Who a request's model calls are billed to
+export interface UsageAttribution {
+  projectId: string | null;
+  userId: string;
+  /** The chat session, so usage from before the project was first saved can be linked to it */
+  sessionId: string | null;
+}
+
+export interface UsageEntry {
+  step: PipelineStep;
+  sectionIndex: number | null;
+  provider: string;
+  modelId: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Estimated from MODEL_PRICING; null for models without a known price */
+  costUsd: number | null;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  calls: number;
+  /** Calls whose model has no known price and is missing from costUsd */
+  unpricedCalls: number;
+}
+
+/**
+ * Collects the token usage of one request's model calls. `forSection`
+ * returns a recorder that attributes its calls to a section while sharing
+ * the entries.
+ */
+export interface UsageRecorder {
+  readonly attribution: UsageAttribution;
+  readonly sectionIndex: number | null;
+  record(entry: Omit<UsageEntry, 'sectionIndex' | 'costUsd'>): void;
+  forSection(sectionIndex: number): UsageRecorder;
+  entries(): UsageEntry[];
+}
+
+/**
+ * Creates a recorder; `onRecord` receives each entry as it is recorded,
+ * e.g. to store it.
+ */
+export function createUsageRecorder(
+  attribution: UsageAttribution,
+  onRecord?: (entry: UsageEntry, attribution: UsageAttribution) => void
+): UsageRecorder {
+  const entries: UsageEntry[] = [];
+
+  const scoped = (sectionIndex: number | null): UsageRecorder => ({
+    attribution,
+    sectionIndex,
+    record(entry) {
+      const recorded: UsageEntry = {
+        ...entry,
+        sectionIndex,
+        costUsd: estimateCostUsd(entry.provider, entry.modelId, entry.promptTokens, entry.completionTokens),
+      };
+      entries.push(recorded);
+      onRecord?.(recorded, attribution);
+    },
+    forSection: index => scoped(index),
+    entries: () => [...entries],
+  });
+
+  return scoped(null);
+}
+
+export function summarizeUsage(entries: Array<Pick<UsageEntry, 'promptTokens' | 'completionTokens' | 'costUsd'>>): UsageTotals {
+  return entries.reduce<UsageTotals>(
+    (totals, entry) => ({
+      promptTokens: totals.promptTokens + entry.promptTokens,
+      completionTokens: totals.completionTokens + entry.completionTokens,
+      totalTokens: totals.totalTokens + entry.promptTokens + entry.completionTokens,
+      costUsd: totals.costUsd + (entry.costUsd ?? 0),
+      calls: totals.calls + 1,
+      unpricedCalls: totals.unpricedCalls + (entry.costUsd === null ? 1 : 0),
+    }),
+    { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, calls: 0, unpricedCalls: 0 }
+  );
+}
+
+// プロバイダーが使用量を返さない場合は NaN になるため 0 として扱う
+function tokenCount(value: number): number {
+  return Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Records the usage of every call made through `model` for `step`, including
+ * calls whose output is later rejected. With a failover model, the model
+ * that answered is recorded.
+ */
+export function trackUsage(model: LanguageModelV1, step: PipelineStep, recorder?: UsageRecorder): LanguageModelV1 {
+  if (!recorder) return model;
+
+  const record = (usage: { promptTokens: number; completionTokens: number }, providerMetadata: unknown) => {
+    const failover = getFailoverReport(providerMetadata);
+    recorder.record({
+      step,
+      provider: failover?.provider ?? model.provider,
+      modelId: failover?.modelId ?? model.modelId,
+      promptTokens: tokenCount(usage.promptTokens),
+      completionTokens: tokenCount(usage.completionTokens),
+    });
+  };
+
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: async ({ doGenerate }) => {
+        const result = await doGenerate();
+        record(result.usage, result.providerMetadata);
+        return result;
+      },
+      wrapStream: async ({ doStream }) => {
+        const { stream, ...rest } = await doStream();
+        return {
+          ...rest,
+          stream: stream.pipeThrough(
+            new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+              transform(part, controller) {
+                if (part.type === 'finish') record(part.usage, part.providerMetadata);
+                controller.enqueue(part);
+              },
+            })
+          ),
+        };
+      },
+    },
+  });
+}
@@ -0,0 +1,42 @@
+export {
+  LP_SECTION_TYPES,
+  LP_LAYOUT_TYPES,
+  LP_DESIGN_STYLES,
+  DEFAULT_COLOR_SCHEME,
+  CSS_COLOR_PATTERN,
+  sectionTypeSchema,
+  layoutTypeSchema,
+  designStyleSchema,
+  colorSchemeSchema,
+  lpSectionSchema,
+  lpStructureSchema,
+  getSectionPrompt,
+} from './lpStructure';
+export type {
+  LPSectionType,
+  LPLayoutType,
+  LPDesignStyle,
+  LPColorScheme,
+  LPSection,
+  LPStructure,
+} from './lpStructure';
+export {
+  lpDocumentSchema,
+  lpDocumentSectionSchema,
+  sectionHtmlSchema,
+  createSectionId,
+  renderLPDocumentHtml,
+  getSectionIndexFromElementId,
+  findSectionIndexByElementId,
+  replaceLPSection,
+  sectionHtmlsFromRoot,
+  mergeSectionHtmls,
+  renumberSectionHtml,
+  moveLPSection,
+  removeLPSection,
+  isLPSectionHidden,
+  setLPSectionHidden,
+} from './lpDocument';
+export type { LPDocument, LPDocumentSection } from './lpDocument';
+export { applyGenerationEvents } from './lpGenerationEvents';
+export type { LPGenerationEvent, LPGenerationProgressHandler, LPGenerationProgress } from './lpGenerationEvents';
@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { colorSchemeSchema, layoutTypeSchema, sectionTypeSchema } from './lpStructure';
+
+// A single generated section, kept separately so it can be edited on its own
+export const lpDocumentSectionSchema = z.object({
+  id: z.string().describe('Stable identifier of the section, independent of its position'),
+  type: z.union([sectionTypeSchema, z.literal('custom')]).describe('The type of section; "custom" for hand-written HTML'),
+  layoutType: layoutTypeSchema.default('default'),
+  prompt: z.string().default('').describe('The prompt the section HTML was generated from'),
+  html: z.string().describe('The HTML of the section'),
+});
+
+export const lpDocumentSchema = z.object({
+  title: z.string().describe('The main title of the landing page'),
+  description: z.string().optional(),
+  sections: z.array(lpDocumentSectionSchema).describe('Ordered sections of the landing page'),
+  cssContent: z.string().default(''),
+  colorScheme: colorSchemeSchema.optional().nullable(),
+  designStyle: z.string().optional().nullable(),
+});
+
+// The model's reply when it generates or rewrites the HTML of a single section
+export const sectionHtmlSchema = z.object({
+  html: z.string().min(50).describe('The HTML content for the section, styled with Tailwind CSS. Must be valid HTML without html, head, or body tags.'),
+});
+
+export type LPDocumentSection = z.infer<typeof lpDocumentSectionSchema>;
+export type LPDocument = z.infer<typeof lpDocumentSchema>;
+
+/**
+ * Creates a unique section id that does not depend on the section's position.
+ */
+export function createSectionId(type: LPDocumentSection['type']): string {
+  return `lp-section-${type}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Joins the sections into the single HTML string used for preview and export.
+ */
+export function renderLPDocumentHtml(document: Pick<LPDocument, 'sections'>): string {
+  return document.sections.map(section => section.html).join('\n\n');
+}
+
+/**
+ * Resolves the section index encoded in a data-editable-id such as
+ * "section-2-element-3" or "section-2-root".
+ */
+export function getSectionIndexFromElementId(elementId: string): number | null {
+  const match = elementId.match(/^section-(\d+)(?:-|$)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Finds the section containing the element with the given data-editable-id.
+ * Ids that appear in no section, e.g. from a stale preview, fall back to the
+ * section index they encode.
+ */
+export function findSectionIndexByElementId(document: { sections: Array<Pick<LPDocumentSection, 'html'>> }, elementId: string): number | null {
+  const escapedId = elementId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const attribute = new RegExp(`data-editable-id=(["'])${escapedId}\\1`);
+  const index = document.sections.findIndex(section => attribute.test(section.html));
+  return index >= 0 ? index : getSectionIndexFromElementId(elementId);
+}
+
+/**
+ * Returns a copy of the document with one section replaced.
+ */
+export function replaceLPSection(
+  document: LPDocument,
+  index: number,
+  patch: Partial<Omit<LPDocumentSection, 'id'>>
+): LPDocument {
+  if (!document.sections[index]) {
+    throw new Error(`Section with index ${index} not found.`);
+  }
+  return {
+    ...document,
+    sections: document.sections.map((section, i) => (i === index ? { ...section, ...patch } : section)),
+  };
+}
+
+/**
+ * Returns the outer HTML of every top-level element, i.e. one entry per section.
+ */
+export function sectionHtmlsFromRoot(root: Element): string[] {
+  return Array.from(root.children).map(element => element.outerHTML);
+}
+
+/**
+ * Applies freshly split section HTML to a document, keeping each section's
+ * metadata by position. Extra sections are added as "custom" sections.
+ */
+export function mergeSectionHtmls(
+  document: LPDocument | null,
+  sectionHtmls: string[],
+  fallbackTitle = 'Landing Page'
+): LPDocument {
+  const previous = document?.sections ?? [];
+  return {
+    title: document?.title ?? fallbackTitle,
+    description: document?.description,
+    cssContent: document?.cssContent ?? '',
+    colorScheme: document?.colorScheme ?? null,
+    designStyle: document?.designStyle ?? null,
+    sections: sectionHtmls.map((html, index) => {
+      const existing = previous[index];
+      return existing
+        ? { ...existing, html }
+        : { id: createSectionId('custom'), type: 'custom', layoutType: 'default', prompt: '', html };
+    }),
+  };
+}
+
+// The "section-N" prefix of data-editable-id values, N being the section position
+const EDITABLE_SECTION_PREFIX = /(data-editable-id=["'])section-\d+(?=[-"'])/g;
+
+// The opening tag of a section's root element, split into name, attributes and end
+const ROOT_TAG_PATTERN = /^(\s*<[a-zA-Z][\w:-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)(\s*\/?>)/;
+const ATTRIBUTE_PATTERN = /\s+([^\s=/>]+)(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?/g;
+
+/**
+ * Rewrites every data-editable-id of a section to the given position,
+ * e.g. "section-3-title" becomes "section-1-title".
+ */
+export function renumberSectionHtml(html: string, index: number): string {
+  return html.replace(EDITABLE_SECTION_PREFIX, `$1section-${index}`);
+}
+
+function withSections(document: LPDocument, sections: LPDocumentSection[]): LPDocument {
+  return {
+    ...document,
+    sections: sections.map((section, index) => ({ ...section, html: renumberSectionHtml(section.html, index) })),
+  };
+}
+
+/**
+ * Returns a copy of the document with one section moved to a new position.
+ * Element ids of all sections are renumbered to match their new order.
+ */
+export function moveLPSection(document: LPDocument, from: number, to: number): LPDocument {
+  if (!document.sections[from] || !document.sections[to]) {
+    throw new Error(`Cannot move section ${from} to ${to}.`);
+  }
+  const sections = [...document.sections];
+  const [moved] = sections.splice(from, 1);
+  sections.splice(to, 0, moved);
+  return withSections(document, sections);
+}
+
+/**
+ * Returns a copy of the document without the given section.
+ */
+export function removeLPSection(document: LPDocument, index: number): LPDocument {
+  if (!document.sections[index]) {
+    throw new Error(`Section with index ${index} not found.`);
+  }
+  return withSections(document, document.sections.filter((_, i) => i !== index));
+}
+
+/**
+ * Whether the section's root element carries the `hidden` attribute.
+ */
+export function isLPSectionHidden(html: string): boolean {
+  const match = html.match(ROOT_TAG_PATTERN);
+  if (!match) return false;
+  return Array.from(match[2].matchAll(ATTRIBUTE_PATTERN)).some(attribute => attribute[1].toLowerCase() === 'hidden');
+}
+
+/**
+ * Hides or shows a section. Hidden sections stay in the document (and keep
+ * their position) but are not displayed in the preview or the export.
+ */
+export function setLPSectionHidden(document: LPDocument, index: number, hidden: boolean): LPDocument {
+  const section = document.sections[index];
+  if (!section) {
+    throw new Error(`Section with index ${index} not found.`);
+  }
+  const match = section.html.match(ROOT_TAG_PATTERN);
+  if (!match || isLPSectionHidden(section.html) === hidden) return document;
+
+  const attributes = hidden
+    ? `${match[2]} hidden`
+    : match[2].replace(ATTRIBUTE_PATTERN, (attribute, name: string) => (name.toLowerCase() === 'hidden' ? '' : attribute));
+  return replaceLPSection(document, index, {
+    html: `${match[1]}${attributes}${match[3]}${section.html.slice(match[0].length)}`,
+  });
+}
@@ -0,0 +1,52 @@
+import type { LPDocument, LPDocumentSection } from './lpDocument';
+
+// Progress events streamed to the client while a landing page is generated
+export type LPGenerationEvent =
+  | { type: 'lp-structure'; generationId: string; document: LPDocument }
+  | { type: 'lp-section'; generationId: string; index: number; section: LPDocumentSection }
+  | { type: 'lp-complete'; generationId: string };
+
+export type LPGenerationProgressHandler = (event: LPGenerationEvent) => void;
+
+export interface LPGenerationProgress {
+  generationId: string;
+  document: LPDocument;
+  isComplete: boolean;
+}
+
+function isGenerationEvent(value: unknown): value is LPGenerationEvent {
+  return typeof value === 'object' && value !== null && 'type' in value && 'generationId' in value
+    && typeof (value as { type: unknown }).type === 'string'
+    && (value as { type: string }).type.startsWith('lp-');
+}
+
+/**
+ * Folds the streamed events of the latest generation into a partial document.
+ * Sections that have not finished yet keep an empty html string.
+ */
+export function applyGenerationEvents(events: readonly unknown[] | undefined): LPGenerationProgress | null {
+  if (!events) return null;
+
+  let progress: LPGenerationProgress | null = null;
+  for (const event of events) {
+    if (!isGenerationEvent(event)) continue;
+
+    if (event.type === 'lp-structure') {
+      progress = { generationId: event.generationId, document: event.document, isComplete: false };
+      continue;
+    }
+
+    const current: LPGenerationProgress | null = progress;
+    if (!current || event.generationId !== current.generationId) continue;
+
+    if (event.type === 'lp-section') {
+      const sections: LPDocumentSection[] = current.document.sections.map((section, index) =>
+        index === event.index ? event.section : section
+      );
+      progress = { ...current, document: { ...current.document, sections } };
+    } else {
+      progress = { ...current, isComplete: true };
+    }
+  }
+  return progress;
+}
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+
+// Section types every generator, editor and renderer understands
+export const LP_SECTION_TYPES = [
+  'hero',
+  'features',
+  'testimonials',
+  'cta',
+  'faq',
+  'footer',
+  'about',
+  'pricing',
+  'contact',
+] as const;
+
+// Layouts a section can be generated with
+export const LP_LAYOUT_TYPES = [
+  'default',
+  'image-left',
+  'image-right',
+  'full-graphic',
+  'quote',
+  'comparison',
+  'timeline',
+  'list',
+  'title',
+  'section-break',
+  'data-visualization',
+  'photo-with-caption',
+] as const;
+
+export const LP_DESIGN_STYLES = ['modern', 'minimalist', 'corporate', 'creative', 'tech', 'startup'] as const;
+
+export const sectionTypeSchema = z.enum(LP_SECTION_TYPES).describe('The type of section');
+export const layoutTypeSchema = z.enum(LP_LAYOUT_TYPES).describe('The desired layout type for this section');
+export const designStyleSchema = z.enum(LP_DESIGN_STYLES).describe('Overall design style');
+
+export const DEFAULT_COLOR_SCHEME = {
+  primaryColor: '#0056B1',
+  accentColor: '#FFB400',
+  bgColor: '#F5F7FA',
+  textColor: '#333333',
+};
+
+// Colors are written into the page's <style> block, so only plain color values are accepted
+export const CSS_COLOR_PATTERN = /^(?:#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|(?:rgba?|hsla?)\(\s*[\d.%\s,/+-]+\))$/i;
+
+const cssColorSchema = (description: string) =>
+  z.string().regex(CSS_COLOR_PATTERN, 'Expected a hex, rgb() or hsl() color').describe(description);
+
+export const colorSchemeSchema = z.object({
+  primaryColor: cssColorSchema('Primary brand color hex code'),
+  accentColor: cssColorSchema('Accent color hex code'),
+  bgColor: cssColorSchema('Background color hex code'),
+  textColor: cssColorSchema('Main text color hex code'),
+}).describe('Color scheme for the landing page');
+
+// A planned section, before any HTML is generated for it
+export const lpSectionSchema = z.object({
+  type: sectionTypeSchema,
+  title: z.string().describe('A clear, concise title for this section'),
+  description: z.string().describe('What this section will contain and why'),
+  prompt: z.string().default('').describe('A detailed prompt for the AI to generate this specific section'),
+  layoutType: layoutTypeSchema.default('default'),
+  priority: z.number().min(1).max(10).optional().describe('Importance of the section (1-10)'),
+});
+
+// The outline of a landing page, as proposed by the AI and approved in the UI
+export const lpStructureSchema = z.object({
+  title: z.string().describe('The main title of the landing page'),
+  description: z.string().default('').describe('A brief description of the landing page purpose'),
+  targetAudience: z.string().optional(),
+  conversionGoal: z.string().optional(),
+  sections: z.array(lpSectionSchema).min(1).max(12).describe('An array of sections that make up the landing page'),
+  colorScheme: colorSchemeSchema.default(DEFAULT_COLOR_SCHEME),
+  designStyle: designStyleSchema.default('modern'),
+});
+
+export type LPSectionType = z.infer<typeof sectionTypeSchema>;
+export type LPLayoutType = z.infer<typeof layoutTypeSchema>;
+export type LPDesignStyle = z.infer<typeof designStyleSchema>;
+export type LPColorScheme = z.infer<typeof colorSchemeSchema>;
+export type LPSection = z.infer<typeof lpSectionSchema>;
+export type LPStructure = z.infer<typeof lpStructureSchema>;
+
+/**
+ * Returns the instruction used to generate a section. The approved title and
+ * description lead, so edits made before generation reach the model.
+ */
+export function getSectionPrompt(section: Pick<LPSection, 'type' | 'title' | 'description' | 'prompt'>): string {
+  const lines = [
+    section.title && `見出し: ${section.title}`,
+    section.description && `内容: ${section.description}`,
+    section.prompt.trim(),
+  ].filter(Boolean);
+  return lines.join('\n') || `${section.type}セクションを作成`;
+}
@@ -0,0 +1,271 @@
+// Works on any DOM implementation (the browser's or JSDOM), so the same rules
+// apply to generated HTML on the server and to what the preview renders.
+
+export type SanitizeReason =
+  | 'disallowed-element'
+  | 'disallowed-attribute'
+  | 'event-handler'
+  | 'unsafe-url'
+  | 'unsafe-style';
+
+export interface SanitizeRemoval {
+  reason: SanitizeReason;
+  tagName: string;
+  /** The removed attribute, for attribute removals */
+  attribute?: string;
+  /** The start of the removed value, for reporting */
+  value?: string;
+}
+
+export interface SanitizeReport {
+  removed: SanitizeRemoval[];
+}
+
+export interface SanitizeResult {
+  html: string;
+  report: SanitizeReport;
+}
+
+// Elements removed together with their content
+const DROPPED_ELEMENTS = new Set([
+  'script', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'base', 'link', 'meta',
+  'noscript', 'template', 'title', 'head', 'foreignobject', 'portal', 'math',
+]);
+
+const ALLOWED_ELEMENTS = new Set([
+  // HTML
+  'a', 'abbr', 'address', 'article', 'aside', 'audio', 'b', 'bdi', 'bdo', 'blockquote', 'br', 'button',
+  'caption', 'cite', 'code', 'col', 'colgroup', 'data', 'dd', 'del', 'details', 'dfn', 'dialog', 'div', 'dl',
+  'dt', 'em', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hgroup', 'hr', 'i', 'img', 'input', 'ins', 'kbd', 'label', 'legend', 'li', 'main', 'mark',
+  'menu', 'meter', 'nav', 'ol', 'optgroup', 'option', 'output', 'p', 'picture', 'pre', 'progress', 'q',
+  'rp', 'rt', 'ruby', 's', 'samp', 'section', 'select', 'small', 'source', 'span', 'strong', 'style', 'sub',
+  'summary', 'sup', 'table', 'tbody', 'td', 'textarea', 'tfoot', 'th', 'thead', 'time', 'tr', 'track', 'u',
+  'ul', 'var', 'video', 'wbr',
+  // SVG icons
+  'svg', 'g', 'path', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'rect', 'text', 'tspan', 'defs',
+  'lineargradient', 'radialgradient', 'stop', 'clippath', 'mask', 'pattern', 'symbol', 'use', 'desc',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  // HTML
+  'accept', 'action', 'align', 'alt', 'autocomplete', 'autoplay', 'checked', 'cite', 'class', 'cols',
+  'colspan', 'controls', 'datetime', 'decoding', 'dir', 'disabled', 'download', 'for', 'headers', 'height',
+  'hidden', 'high', 'href', 'hreflang', 'id', 'inputmode', 'kind', 'label', 'lang', 'loading', 'loop', 'low',
+  'max', 'maxlength', 'media', 'method', 'min', 'minlength', 'multiple', 'muted', 'name', 'novalidate',
+  'open', 'optimum', 'pattern', 'placeholder', 'playsinline', 'poster', 'preload', 'readonly', 'rel',
+  'required', 'reversed', 'role', 'rows', 'rowspan', 'scope', 'selected', 'sizes', 'span', 'src', 'srclang',
+  'srcset', 'start', 'step', 'style', 'tabindex', 'target', 'title', 'translate', 'type', 'value', 'width',
+  // SVG
+  'clip-path', 'clip-rule', 'cx', 'cy', 'd', 'dominant-baseline', 'dx', 'dy', 'fill', 'fill-opacity',
+  'fill-rule', 'font-family', 'font-size', 'font-weight', 'gradienttransform', 'gradientunits', 'mask',
+  'offset', 'opacity', 'patternunits', 'points', 'preserveaspectratio', 'r', 'rx', 'ry', 'stop-color',
+  'stop-opacity', 'stroke', 'stroke-dasharray', 'stroke-dashoffset', 'stroke-linecap', 'stroke-linejoin',
+  'stroke-miterlimit', 'stroke-opacity', 'stroke-width', 'text-anchor', 'transform', 'viewbox', 'x', 'x1',
+  'x2', 'xlink:href', 'xmlns', 'xmlns:xlink', 'y', 'y1', 'y2',
+]);
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'poster', 'cite', 'xlink:href']);
+const SAFE_URL_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+const SAFE_DATA_URL = /^data:image\/(?:png|jpe?g|gif|webp|avif|svg\+xml)[;,]/;
+const UNSAFE_STYLE = /expression\s*\(|javascript:|vbscript:|-moz-binding|behavior\s*:/i;
+
+// Scripts the preview itself loads in the document head
+const TRUSTED_SCRIPT_SOURCES = new Set(['https://cdn.tailwindcss.com']);
+
+const MAX_REPORTED_VALUE_LENGTH = 80;
+
+function truncate(value: string): string {
+  return value.length > MAX_REPORTED_VALUE_LENGTH ? `${value.slice(0, MAX_REPORTED_VALUE_LENGTH)}…` : value;
+}
+
+/**
+ * Whether a URL is relative or uses a scheme that cannot run code.
+ * Control characters and whitespace are ignored, as browsers do.
+ */
+export function isSafeUrl(value: string): boolean {
+  const normalized = value.replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase();
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/)?.[1];
+  if (!scheme) return true;
+  if (scheme === 'data') return SAFE_DATA_URL.test(normalized);
+  return SAFE_URL_SCHEMES.has(scheme);
+}
+
+function isSafeSrcset(value: string): boolean {
+  return value.split(',').every(candidate => isSafeUrl(candidate.trim().split(/\s+/)[0] ?? ''));
+}
+
+/**
+ * Whether the HTML is a complete document rather than a fragment.
+ */
+export function isCompleteHtmlDocument(html: string): boolean {
+  return /^\s*(?:<!DOCTYPE|<html)/i.test(html);
+}
+
+function sanitizeAttributes(element: Element, report: SanitizeReport): void {
+  const tagName = element.localName.toLowerCase();
+  for (const attribute of Array.from(element.attributes)) {
+    const name = attribute.name.toLowerCase();
+    let reason: SanitizeReason | null = null;
+
+    if (name.startsWith('on')) {
+      reason = 'event-handler';
+    } else if (!ALLOWED_ATTRIBUTES.has(name) && !name.startsWith('data-') && !name.startsWith('aria-')) {
+      reason = 'disallowed-attribute';
+    } else if (URL_ATTRIBUTES.has(name) && !isSafeUrl(attribute.value)) {
+      reason = 'unsafe-url';
+    } else if (tagName === 'use' && (name === 'href' || name === 'xlink:href') && !attribute.value.trim().startsWith('#')) {
+      // <use> は同じ文書内のシンボル参照だけを許可する
+      reason = 'unsafe-url';
+    } else if (name === 'srcset' && !isSafeSrcset(attribute.value)) {
+      reason = 'unsafe-url';
+    } else if (name === 'style' && UNSAFE_STYLE.test(attribute.value)) {
+      reason = 'unsafe-style';
+    }
+
+    if (reason) {
+      element.removeAttribute(attribute.name);
+      report.removed.push({ reason, tagName, attribute: name, value: truncate(attribute.value) });
+    }
+  }
+}
+
+/**
+ * Removes everything outside the allowlist from the children of `root`, in place.
+ * Dangerous elements are dropped with their content; other unknown elements
+ * are unwrapped so their text survives.
+ */
+export function sanitizeNode(root: ParentNode, report: SanitizeReport = { removed: [] }): SanitizeReport {
+  for (const child of Array.from(root.childNodes)) {
+    if (child.nodeType !== 1) continue;
+    const element = child as Element;
+    const tagName = element.localName.toLowerCase();
+
+    if (DROPPED_ELEMENTS.has(tagName)) {
+      element.remove();
+      report.removed.push({ reason: 'disallowed-element', tagName, value: truncate(element.outerHTML) });
+      continue;
+    }
+
+    sanitizeNode(element, report);
+
+    if (!ALLOWED_ELEMENTS.has(tagName)) {
+      element.replaceWith(...Array.from(element.childNodes));
+      report.removed.push({ reason: 'disallowed-element', tagName });
+      continue;
+    }
+
+    if (tagName === 'style' && UNSAFE_STYLE.test(element.textContent ?? '')) {
+      element.remove();
+      report.removed.push({ reason: 'unsafe-style', tagName, value: truncate(element.textContent ?? '') });
+      continue;
+    }
+
+    sanitizeAttributes(element, report);
+  }
+  return report;
+}
+
+/**
+ * Sanitizes an HTML fragment. `ownerDocument` is only used to parse the
+ * fragment into an inert template, so nothing in it is loaded or run.
+ */
+export function sanitizeHtml(html: string, ownerDocument: Document): SanitizeResult {
+  const template = ownerDocument.createElement('template');
+  template.innerHTML = html;
+  const report = sanitizeNode(template.content);
+  return { html: template.innerHTML, report };
+}
+
+/**
+ * Sanitizes a complete document in place. The body follows the fragment
+ * rules; the head keeps only metadata, styles, stylesheets and the scripts
+ * the preview itself loads.
+ */
+export function sanitizeDocument(document: Document): SanitizeReport {
+  const report: SanitizeReport = { removed: [] };
+
+  for (const element of Array.from(document.head?.children ?? [])) {
+    const tagName = element.localName.toLowerCase();
+    const src = element.getAttribute('src') ?? '';
+    const href = element.getAttribute('href') ?? '';
+    const isAllowed =
+      (tagName === 'meta' && !element.hasAttribute('http-equiv')) ||
+      tagName === 'title' ||
+      tagName === 'style' ||
+      (tagName === 'link' && element.getAttribute('rel') === 'stylesheet' && /^https:\/\//i.test(href)) ||
+      (tagName === 'script' && TRUSTED_SCRIPT_SOURCES.has(src) && !element.textContent?.trim());
+    if (!isAllowed) {
+      element.remove();
+      report.removed.push({ reason: 'disallowed-element', tagName, value: truncate(element.outerHTML) });
+    } else {
+      Array.from(element.attributes)
+        .filter(attribute => attribute.name.toLowerCase().startsWith('on'))
+        .forEach(attribute => {
+          element.removeAttribute(attribute.name);
+          report.removed.push({ reason: 'event-handler', tagName, attribute: attribute.name.toLowerCase(), value: truncate(attribute.value) });
+        });
+    }
+  }
+
+  for (const element of [document.documentElement, document.body]) {
+    if (element) sanitizeAttributes(element, report);
+  }
+  if (document.body) sanitizeNode(document.body, report);
+  return report;
+}
+
+const STYLE_BLOCK = /<style\b[^>]*>([\s\S]*?)<\/style\s*>/gi;
+
+/**
+ * Sanitizes page CSS given as `<style>` blocks, such as the output of
+ * generateCustomCSS, or as bare CSS, and returns the bare CSS text. Markup
+ * outside the blocks is dropped and `<` is escaped so the CSS can never close
+ * the `<style>` element it is written into. Blocks with scriptable CSS are
+ * dropped, as in sanitizeNode.
+ */
+export function sanitizeStyleSheet(cssContent: string, report: SanitizeReport = { removed: [] }): { css: string; report: SanitizeReport } {
+  const hasStyleBlocks = /<style[\s>]/i.test(cssContent);
+  const blocks = hasStyleBlocks ? Array.from(cssContent.matchAll(STYLE_BLOCK), match => match[1]) : [cssContent];
+
+  const outside = hasStyleBlocks ? cssContent.replace(STYLE_BLOCK, '').trim() : '';
+  if (outside) {
+    report.removed.push({ reason: 'disallowed-element', tagName: 'style', value: truncate(outside) });
+  }
+
+  const css = blocks
+    .filter(block => {
+      if (!UNSAFE_STYLE.test(block)) return true;
+      report.removed.push({ reason: 'unsafe-style', tagName: 'style', value: truncate(block.trim()) });
+      return false;
+    })
+    .map(block => {
+      if (!block.includes('<')) return block.trim();
+      report.removed.push({ reason: 'unsafe-style', tagName: 'style', value: truncate(block.slice(block.indexOf('<'))) });
+      return block.trim().replace(/</g, '\\3c ');
+    })
+    .filter(Boolean)
+    .join('\n\n');
+  return { css, report };
+}
+
+/**
+ * Sanitizes page CSS with sanitizeStyleSheet and returns it as a single
+ * `<style>` block, the form projects store and the preview writes into its head.
+ */
+export function sanitizeCssContent(cssContent: string): SanitizeResult {
+  const { css, report } = sanitizeStyleSheet(cssContent);
+  return { html: css ? `<style>\n${css}\n</style>` : '', report };
+}
+
+/**
+ * A short human-readable list of what was removed, e.g. "<script> ×2, onerror ×1".
+ */
+export function summarizeSanitizeReport(report: SanitizeReport): string {
+  const counts = new Map<string, number>();
+  for (const removal of report.removed) {
+    const key = removal.attribute ?? `<${removal.tagName}>`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return Array.from(counts, ([key, count]) => `${key} ×${count}`).join(', ');
+}
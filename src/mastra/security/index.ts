@@ -0,0 +1,11 @@
+export {
+  isSafeUrl,
+  isCompleteHtmlDocument,
+  sanitizeNode,
+  sanitizeHtml,
+  sanitizeDocument,
+  sanitizeStyleSheet,
+  sanitizeCssContent,
+  summarizeSanitizeReport,
+} from './htmlSanitizer';
+export type { SanitizeReason, SanitizeRemoval, SanitizeReport, SanitizeResult } from './htmlSanitizer';
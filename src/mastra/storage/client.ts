@@ -0,0 +1,101 @@
+import { createClient, type Client } from '@libsql/client';
+
+// Mastra の LibSQLStore と同じデータベースを共有する
+export const STORAGE_URL = process.env.LP_CREATOR_DB_URL || 'file:../memory.db';
+
+const SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS lp_projects (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    html_content TEXT NOT NULL,
+    css_content TEXT NOT NULL,
+    sections TEXT NOT NULL,
+    structure TEXT,
+    color_scheme TEXT,
+    design_style TEXT,
+    messages TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS lp_revisions (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    html_content TEXT NOT NULL,
+    css_content TEXT NOT NULL,
+    source TEXT NOT NULL,
+    prompt TEXT,
+    diff_size INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS lp_revisions_project_idx ON lp_revisions (project_id, created_at)',
+  `CREATE TABLE IF NOT EXISTS lp_screenshots (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    revision_id TEXT NOT NULL,
+    viewport TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    section_index INTEGER,
+    section_id TEXT,
+    mime_type TEXT NOT NULL,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    image BLOB NOT NULL,
+    created_at TEXT NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS lp_screenshots_revision_idx ON lp_screenshots (revision_id)',
+  // scope は "global" またはプロジェクト ID
+  `CREATE TABLE IF NOT EXISTS lp_model_routing (
+    scope TEXT PRIMARY KEY,
+    routing TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  // project_id はプロジェクトの初回保存前の生成では NULL になり、保存時に session_id で紐付ける（lp_usage_sessions）
+  `CREATE TABLE IF NOT EXISTS lp_usage (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    project_id TEXT,
+    session_id TEXT,
+    step TEXT NOT NULL,
+    section_index INTEGER,
+    provider TEXT NOT NULL,
+    model_id TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL,
+    completion_tokens INTEGER NOT NULL,
+    cost_usd REAL,
+    created_at TEXT NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS lp_usage_user_idx ON lp_usage (user_id, created_at)',
+  'CREATE INDEX IF NOT EXISTS lp_usage_project_idx ON lp_usage (project_id)',
+  'CREATE INDEX IF NOT EXISTS lp_usage_session_idx ON lp_usage (session_id)',
+  // 保存時に書き込み中だった使用量も後から紐付くよう、チャットセッションとプロジェクトの対応を残す
+  `CREATE TABLE IF NOT EXISTS lp_usage_sessions (
+    session_id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL
+  )`,
+];
+
+let client: Client | null = null;
+let schemaReady: Promise<void> | null = null;
+
+/**
+ * Returns a lazily created client with the LP Creator tables in place.
+ */
+export async function getClient(): Promise<Client> {
+  if (!client) {
+    client = createClient({ url: STORAGE_URL });
+  }
+  if (!schemaReady) {
+    schemaReady = client.batch(SCHEMA_STATEMENTS, 'write').then(() => undefined);
+  }
+  await schemaReady;
+  return client;
+}
+
+export function parseJson<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string') return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
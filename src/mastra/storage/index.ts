@@ -0,0 +1,28 @@
+export { STORAGE_URL } from './client';
+export {
+  projectInputSchema,
+  projectUpdateSchema,
+  listProjects,
+  getProject,
+  createProject,
+  updateProject,
+  deleteProject,
+  restoreRevision,
+  splitHtmlSections,
+} from './projectStore';
+export type { LPProject, LPProjectSummary, ProjectInput, ProjectUpdate } from './projectStore';
+export { revisionMetaSchema, listRevisions, getRevision, getLatestRevision, measureDiffSize } from './revisionStore';
+export type { LPRevision, LPRevisionSummary, RevisionMeta } from './revisionStore';
+export { GLOBAL_ROUTING_SCOPE, getModelRouting, saveModelRouting, resolveModelRouting } from './routingStore';
+export { USAGE_USER_HEADER, USAGE_USER_COOKIE, ANONYMOUS_USER_ID, resolveUsageUserId } from './usageUser';
+export {
+  appendUsage,
+  createStoredUsageRecorder,
+  getProjectUsage,
+  getMonthlyUsage,
+} from './usageStore';
+export type { ProjectUsage, MonthlyUserUsage, MonthlyUsageReport } from './usageStore';
+export { listScreenshots, getScreenshot, ensureRevisionScreenshots, requestRevisionScreenshots } from './screenshotStore';
+export type { LPScreenshot, LPScreenshotSummary, RevisionScreenshots } from './screenshotStore';
+export { diffRevisionHtml, diffText, compareRevisions } from './revisionDiff';
+export type { ElementChange, ElementChangeType, TextChange, StructuralDiff, RevisionComparison } from './revisionDiff';
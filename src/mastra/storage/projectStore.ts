@@ -0,0 +1,227 @@
+import type { Row } from '@libsql/client';
+import { JSDOM } from 'jsdom';
+import { z } from 'zod';
+import { colorSchemeSchema, lpDocumentSectionSchema, mergeSectionHtmls, sectionHtmlsFromRoot, type LPColorScheme, type LPDocumentSection } from '../schemas';
+import { sanitizeCssContent, sanitizeHtml } from '../security';
+import { getClient, parseJson } from './client';
+import { appendRevision, deleteRevisions, getRevision, revisionMetaSchema, type LPRevision } from './revisionStore';
+import { deleteModelRouting } from './routingStore';
+import { deleteScreenshots } from './screenshotStore';
+import { linkUsageToProject } from './usageStore';
+
+// API から受け付けるプロジェクトの入力スキーマ
+export const projectInputSchema = z.object({
+  title: z.string().min(1).describe('Display title of the project'),
+  htmlContent: z.string().default(''),
+  cssContent: z.string().default(''),
+  sections: z.array(lpDocumentSectionSchema).optional().describe('Section document matching htmlContent'),
+  structure: z.unknown().optional().nullable(),
+  colorScheme: colorSchemeSchema.optional().nullable(),
+  designStyle: z.string().optional().nullable(),
+  messages: z.array(z.unknown()).default([]),
+  revision: revisionMetaSchema.optional().describe('Describes what produced the HTML being saved'),
+  usageSessionId: z.string().optional().describe('Chat session whose earlier token usage belongs to this project'),
+});
+
+export const projectUpdateSchema = projectInputSchema.partial();
+
+export type ProjectInput = z.infer<typeof projectInputSchema>;
+export type ProjectUpdate = z.infer<typeof projectUpdateSchema>;
+
+export interface LPProject {
+  id: string;
+  title: string;
+  htmlContent: string;
+  cssContent: string;
+  sections: LPDocumentSection[];
+  structure: unknown | null;
+  colorScheme: LPColorScheme | null;
+  designStyle: string | null;
+  messages: unknown[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type LPProjectSummary = Pick<LPProject, 'id' | 'title' | 'designStyle' | 'createdAt' | 'updatedAt'> & {
+  sectionCount: number;
+};
+
+/**
+ * Splits the joined LP HTML back into its top-level sections, keeping the
+ * metadata of the previous sections by position.
+ */
+export function splitHtmlSections(htmlContent: string, previous: LPDocumentSection[] = []): LPDocumentSection[] {
+  if (!htmlContent.trim()) return [];
+
+  const { document } = new JSDOM(`<body>${htmlContent}</body>`).window;
+  return mergeSectionHtmls({ title: '', sections: previous, cssContent: '' }, sectionHtmlsFromRoot(document.body)).sections;
+}
+
+/**
+ * Sanitizes page HTML sent by the client, which the preview and exports use
+ * as stored, with the same rules applied to generated HTML.
+ */
+function sanitizeStoredHtml(html: string): string {
+  return sanitizeHtml(html, new JSDOM('').window.document).html;
+}
+
+function sanitizeStoredSections(sections: LPDocumentSection[] | undefined): LPDocumentSection[] | undefined {
+  return sections?.map(section => ({ ...section, html: sanitizeStoredHtml(section.html) }));
+}
+
+function rowToProject(row: Row): LPProject {
+  return {
+    id: String(row.id),
+    title: String(row.title),
+    htmlContent: String(row.html_content),
+    cssContent: String(row.css_content),
+    sections: parseJson<LPDocumentSection[]>(row.sections, []),
+    structure: parseJson<unknown>(row.structure, null),
+    colorScheme: parseJson<LPProject['colorScheme']>(row.color_scheme, null),
+    designStyle: row.design_style == null ? null : String(row.design_style),
+    messages: parseJson<unknown[]>(row.messages, []),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+export async function listProjects(): Promise<LPProjectSummary[]> {
+  const db = await getClient();
+  const result = await db.execute(
+    'SELECT id, title, design_style, sections, created_at, updated_at FROM lp_projects ORDER BY updated_at DESC'
+  );
+  return result.rows.map(row => ({
+    id: String(row.id),
+    title: String(row.title),
+    designStyle: row.design_style == null ? null : String(row.design_style),
+    sectionCount: parseJson<LPDocumentSection[]>(row.sections, []).length,
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  }));
+}
+
+export async function getProject(id: string): Promise<LPProject | null> {
+  const db = await getClient();
+  const result = await db.execute({ sql: 'SELECT * FROM lp_projects WHERE id = ?', args: [id] });
+  return result.rows[0] ? rowToProject(result.rows[0]) : null;
+}
+
+export async function createProject(input: ProjectInput): Promise<LPProject> {
+  const db = await getClient();
+  const now = new Date().toISOString();
+  const htmlContent = sanitizeStoredHtml(input.htmlContent);
+  const project: LPProject = {
+    id: crypto.randomUUID(),
+    title: input.title,
+    htmlContent,
+    // CSS はプレビューの <style> にそのまま書き込まれるため、保存前に無害化する
+    cssContent: sanitizeCssContent(input.cssContent).html,
+    sections: sanitizeStoredSections(input.sections) ?? splitHtmlSections(htmlContent),
+    structure: input.structure ?? null,
+    colorScheme: input.colorScheme ?? null,
+    designStyle: input.designStyle ?? null,
+    messages: input.messages,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db.execute({
+    sql: `INSERT INTO lp_projects
+      (id, title, html_content, css_content, sections, structure, color_scheme, design_style, messages, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      project.id,
+      project.title,
+      project.htmlContent,
+      project.cssContent,
+      JSON.stringify(project.sections),
+      JSON.stringify(project.structure),
+      JSON.stringify(project.colorScheme),
+      project.designStyle,
+      JSON.stringify(project.messages),
+      project.createdAt,
+      project.updatedAt,
+    ],
+  });
+
+  await appendRevision(project.id, project, input.revision ?? { source: 'create' });
+  if (input.usageSessionId) await linkUsageToProject(input.usageSessionId, project.id);
+
+  console.log(`✅ Project created: ${project.id} (${project.title})`);
+  return project;
+}
+
+export async function updateProject(id: string, update: ProjectUpdate): Promise<LPProject | null> {
+  const current = await getProject(id);
+  if (!current) return null;
+
+  const htmlContent = update.htmlContent !== undefined ? sanitizeStoredHtml(update.htmlContent) : current.htmlContent;
+  const project: LPProject = {
+    ...current,
+    title: update.title ?? current.title,
+    htmlContent,
+    cssContent: update.cssContent !== undefined ? sanitizeCssContent(update.cssContent).html : current.cssContent,
+    sections: sanitizeStoredSections(update.sections)
+      ?? (update.htmlContent !== undefined ? splitHtmlSections(htmlContent, current.sections) : current.sections),
+    structure: update.structure !== undefined ? update.structure : current.structure,
+    colorScheme: update.colorScheme !== undefined ? update.colorScheme : current.colorScheme,
+    designStyle: update.designStyle !== undefined ? update.designStyle : current.designStyle,
+    messages: update.messages ?? current.messages,
+    updatedAt: new Date().toISOString(),
+  };
+
+  const db = await getClient();
+  await db.execute({
+    sql: `UPDATE lp_projects SET
+      title = ?, html_content = ?, css_content = ?, sections = ?, structure = ?,
+      color_scheme = ?, design_style = ?, messages = ?, updated_at = ?
+      WHERE id = ?`,
+    args: [
+      project.title,
+      project.htmlContent,
+      project.cssContent,
+      JSON.stringify(project.sections),
+      JSON.stringify(project.structure),
+      JSON.stringify(project.colorScheme),
+      project.designStyle,
+      JSON.stringify(project.messages),
+      project.updatedAt,
+      id,
+    ],
+  });
+
+  if (project.htmlContent !== current.htmlContent || project.cssContent !== current.cssContent) {
+    await appendRevision(id, project, update.revision ?? { source: 'update' });
+  }
+  if (update.usageSessionId) await linkUsageToProject(update.usageSessionId, id);
+
+  return project;
+}
+
+/**
+ * Restores a previous revision as the current page. The restore itself is
+ * appended to the log so no history is lost.
+ */
+export async function restoreRevision(
+  id: string,
+  revisionId: string
+): Promise<{ project: LPProject; revision: LPRevision } | null> {
+  const revision = await getRevision(id, revisionId);
+  if (!revision) return null;
+
+  const project = await updateProject(id, {
+    htmlContent: revision.htmlContent,
+    cssContent: revision.cssContent,
+    revision: { source: 'restore', prompt: `Restored revision from ${revision.createdAt}` },
+  });
+  return project ? { project, revision } : null;
+}
+
+export async function deleteProject(id: string): Promise<boolean> {
+  const db = await getClient();
+  const result = await db.execute({ sql: 'DELETE FROM lp_projects WHERE id = ?', args: [id] });
+  await deleteRevisions(id);
+  await deleteScreenshots(id);
+  await deleteModelRouting(id);
+  return result.rowsAffected > 0;
+}
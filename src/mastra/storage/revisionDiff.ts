@@ -0,0 +1,253 @@
+import { createHash } from 'crypto';
+import { JSDOM } from 'jsdom';
+import { getRevision, type LPRevision, type LPRevisionSummary } from './revisionStore';
+
+export type ElementChangeType = 'added' | 'removed' | 'text' | 'attributes';
+
+// The changed part of a text, with the unchanged prefix and suffix around it
+export interface TextChange {
+  prefix: string;
+  removed: string;
+  added: string;
+  suffix: string;
+}
+
+export interface ElementChange {
+  /** data-editable-id of the element */
+  id: string;
+  type: ElementChangeType;
+  tagName: string;
+  /** Position of the containing top-level section in the newer version (older for removals) */
+  sectionIndex: number;
+  before: string | null;
+  after: string | null;
+  text?: TextChange;
+  /** Attribute names whose values differ */
+  attributes?: string[];
+}
+
+export interface StructuralDiff {
+  changes: ElementChange[];
+  summary: Record<ElementChangeType, number>;
+}
+
+export interface RevisionComparison extends StructuralDiff {
+  from: LPRevisionSummary;
+  to: LPRevisionSummary;
+}
+
+interface EditableElement {
+  id: string;
+  tagName: string;
+  text: string;
+  attributes: Map<string, string>;
+}
+
+interface PageSection {
+  /** Section type and a hash of its content without ids; unchanged sections keep it wherever they move */
+  key: string;
+  type: string | null;
+  index: number;
+  /** Editable elements by their id without the `section-N-` prefix, which changes when sections move */
+  elements: Map<string, EditableElement>;
+}
+
+const SECTION_TYPE_CLASS = /\blp-section-([\w-]+)-[a-z0-9]+\b/;
+const SECTION_ID_PREFIX = /^section-\d+-/;
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The text an element contributes itself, excluding nested editable elements
+ * so that a change is reported only on the element where it happened.
+ */
+function ownText(element: Element): string {
+  const parts: string[] = [];
+  for (const node of Array.from(element.childNodes)) {
+    if (node.nodeType === node.TEXT_NODE) {
+      parts.push(node.textContent ?? '');
+    } else if (node.nodeType === node.ELEMENT_NODE && !(node as Element).hasAttribute('data-editable-id')) {
+      parts.push(ownText(node as Element));
+    }
+  }
+  return parts.join(' ');
+}
+
+function collectSections(html: string): PageSection[] {
+  const { document } = new JSDOM(`<body>${html}</body>`).window;
+
+  return Array.from(document.body.children).map((section, index) => {
+    const elements = new Map<string, EditableElement>();
+    for (const element of [section, ...Array.from(section.querySelectorAll('[data-editable-id]'))]) {
+      const id = element.getAttribute('data-editable-id');
+      // 重複した ID は最初の要素だけを比較対象にする
+      if (!id || elements.has(id.replace(SECTION_ID_PREFIX, ''))) continue;
+      elements.set(id.replace(SECTION_ID_PREFIX, ''), {
+        id,
+        tagName: element.tagName.toLowerCase(),
+        text: normalizeText(ownText(element)),
+        attributes: new Map(
+          Array.from(element.attributes)
+            .filter(attribute => attribute.name !== 'data-editable-id')
+            .map(attribute => [attribute.name, attribute.value])
+        ),
+      });
+    }
+
+    const content = section.cloneNode(true) as Element;
+    [content, ...Array.from(content.querySelectorAll('[data-editable-id]'))].forEach(element => element.removeAttribute('data-editable-id'));
+    const type = section.getAttribute('class')?.match(SECTION_TYPE_CLASS)?.[1] ?? null;
+    const hash = createHash('sha1').update(content.outerHTML).digest('hex');
+    return { key: `${type ?? section.tagName.toLowerCase()}:${hash}`, type, index, elements };
+  });
+}
+
+/**
+ * Pairs the sections of two versions. Unchanged sections are matched by key
+ * (longest common subsequence), so inserting, removing or moving a section
+ * leaves the others matched. The remaining sections are paired in order by
+ * type; those left without a partner were added or removed.
+ */
+function pairSections(before: PageSection[], after: PageSection[]): Array<[PageSection | null, PageSection | null]> {
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i].key === after[j].key ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[PageSection | null, PageSection | null]> = [];
+  const unmatched: PageSection[] = [];
+  const added: PageSection[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i].key === after[j].key) {
+      pairs.push([before[i++], after[j++]]);
+    } else if (j >= after.length || (i < before.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      unmatched.push(before[i++]);
+    } else {
+      added.push(after[j++]);
+    }
+  }
+
+  for (const section of added) {
+    const partner = unmatched.findIndex(candidate => candidate.type === section.type);
+    pairs.push([partner >= 0 ? unmatched.splice(partner, 1)[0] : null, section]);
+  }
+  unmatched.forEach(section => pairs.push([section, null]));
+  return pairs;
+}
+
+/**
+ * Splits two texts into their common prefix and suffix and the changed middle.
+ */
+export function diffText(before: string, after: string): TextChange {
+  const maxPrefix = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < maxPrefix && before[prefix] === after[prefix]) prefix++;
+
+  const maxSuffix = maxPrefix - prefix;
+  let suffix = 0;
+  while (suffix < maxSuffix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+
+  return {
+    prefix: before.slice(0, prefix),
+    removed: before.slice(prefix, before.length - suffix),
+    added: after.slice(prefix, after.length - suffix),
+    suffix: before.slice(before.length - suffix),
+  };
+}
+
+function changedAttributes(before: Map<string, string>, after: Map<string, string>): string[] {
+  const names = new Set([...before.keys(), ...after.keys()]);
+  return Array.from(names).filter(name => before.get(name) !== after.get(name)).sort();
+}
+
+function diffSection(before: PageSection | null, after: PageSection | null): ElementChange[] {
+  const changes: ElementChange[] = [];
+  const sectionIndex = after?.index ?? before?.index ?? 0;
+
+  for (const [key, element] of after?.elements ?? []) {
+    const { id, tagName } = element;
+    const previous = before?.elements.get(key);
+    if (!previous) {
+      changes.push({ id, type: 'added', tagName, sectionIndex, before: null, after: element.text });
+      continue;
+    }
+    if (previous.text !== element.text) {
+      changes.push({
+        id,
+        type: 'text',
+        tagName,
+        sectionIndex,
+        before: previous.text,
+        after: element.text,
+        text: diffText(previous.text, element.text),
+      });
+    }
+    const attributes = changedAttributes(previous.attributes, element.attributes);
+    if (attributes.length > 0) {
+      changes.push({
+        id,
+        type: 'attributes',
+        tagName,
+        sectionIndex,
+        before: attributes.map(name => `${name}="${previous.attributes.get(name) ?? ''}"`).join(' '),
+        after: attributes.map(name => `${name}="${element.attributes.get(name) ?? ''}"`).join(' '),
+        attributes,
+      });
+    }
+  }
+
+  for (const [key, element] of before?.elements ?? []) {
+    if (!after?.elements.has(key)) {
+      changes.push({ id: element.id, type: 'removed', tagName: element.tagName, sectionIndex: before?.index ?? sectionIndex, before: element.text, after: null });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compares the elements carrying a data-editable-id in two versions of the
+ * page and reports which were added, removed, or had their text or
+ * attributes changed. Sections are paired first (see pairSections), so ids
+ * renumbered by moving a section don't count as changes.
+ */
+export function diffRevisionHtml(beforeHtml: string, afterHtml: string): StructuralDiff {
+  const changes = pairSections(collectSections(beforeHtml), collectSections(afterHtml)).flatMap(([before, after]) =>
+    diffSection(before, after)
+  );
+
+  changes.sort((a, b) => a.sectionIndex - b.sectionIndex);
+  const summary: StructuralDiff['summary'] = { added: 0, removed: 0, text: 0, attributes: 0 };
+  changes.forEach(change => summary[change.type]++);
+  return { changes, summary };
+}
+
+function toSummary(revision: LPRevision): LPRevisionSummary {
+  return {
+    id: revision.id,
+    projectId: revision.projectId,
+    source: revision.source,
+    prompt: revision.prompt,
+    diffSize: revision.diffSize,
+    createdAt: revision.createdAt,
+  };
+}
+
+/**
+ * Compares two revisions of a project. Returns null if either does not exist.
+ */
+export async function compareRevisions(
+  projectId: string,
+  fromRevisionId: string,
+  toRevisionId: string
+): Promise<RevisionComparison | null> {
+  const [from, to] = await Promise.all([getRevision(projectId, fromRevisionId), getRevision(projectId, toRevisionId)]);
+  if (!from || !to) return null;
+
+  return { from: toSummary(from), to: toSummary(to), ...diffRevisionHtml(from.htmlContent, to.htmlContent) };
+}
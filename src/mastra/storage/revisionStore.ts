@@ -0,0 +1,137 @@
+import type { Row } from '@libsql/client';
+import { z } from 'zod';
+import { getClient } from './client';
+
+// 変更の発生元（ツール名・手動編集・復元など）とそのきっかけとなったプロンプト
+export const revisionMetaSchema = z.object({
+  source: z.string().min(1).describe('What produced the change, e.g. a tool name, "manual-edit" or "restore"'),
+  prompt: z.string().optional().nullable().describe('The user prompt that triggered the change'),
+});
+
+export type RevisionMeta = z.infer<typeof revisionMetaSchema>;
+
+export interface LPRevision {
+  id: string;
+  projectId: string;
+  htmlContent: string;
+  cssContent: string;
+  source: string;
+  prompt: string | null;
+  diffSize: number;
+  createdAt: string;
+}
+
+export type LPRevisionSummary = Omit<LPRevision, 'htmlContent' | 'cssContent'>;
+
+/**
+ * Counts the characters that differ between two versions, ignoring the
+ * common prefix and suffix.
+ */
+export function measureDiffSize(previous: string, next: string): number {
+  const maxPrefix = Math.min(previous.length, next.length);
+  let prefix = 0;
+  while (prefix < maxPrefix && previous[prefix] === next[prefix]) prefix++;
+
+  const maxSuffix = maxPrefix - prefix;
+  let suffix = 0;
+  while (
+    suffix < maxSuffix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) suffix++;
+
+  return Math.max(previous.length, next.length) - prefix - suffix;
+}
+
+function rowToRevision(row: Row): LPRevision {
+  return {
+    id: String(row.id),
+    projectId: String(row.project_id),
+    htmlContent: String(row.html_content),
+    cssContent: String(row.css_content),
+    source: String(row.source),
+    prompt: row.prompt == null ? null : String(row.prompt),
+    diffSize: Number(row.diff_size),
+    createdAt: String(row.created_at),
+  };
+}
+
+export async function getLatestRevision(projectId: string): Promise<LPRevision | null> {
+  const db = await getClient();
+  const result = await db.execute({
+    sql: 'SELECT * FROM lp_revisions WHERE project_id = ? ORDER BY created_at DESC, rowid DESC LIMIT 1',
+    args: [projectId],
+  });
+  return result.rows[0] ? rowToRevision(result.rows[0]) : null;
+}
+
+/**
+ * Appends a revision to the project's log. Revisions are never modified once written.
+ */
+export async function appendRevision(
+  projectId: string,
+  content: { htmlContent: string; cssContent: string },
+  meta: RevisionMeta
+): Promise<LPRevision> {
+  const previous = await getLatestRevision(projectId);
+  const revision: LPRevision = {
+    id: crypto.randomUUID(),
+    projectId,
+    htmlContent: content.htmlContent,
+    cssContent: content.cssContent,
+    source: meta.source,
+    prompt: meta.prompt ?? null,
+    diffSize: measureDiffSize(previous?.htmlContent ?? '', content.htmlContent),
+    createdAt: new Date().toISOString(),
+  };
+
+  const db = await getClient();
+  await db.execute({
+    sql: `INSERT INTO lp_revisions
+      (id, project_id, html_content, css_content, source, prompt, diff_size, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      revision.id,
+      revision.projectId,
+      revision.htmlContent,
+      revision.cssContent,
+      revision.source,
+      revision.prompt,
+      revision.diffSize,
+      revision.createdAt,
+    ],
+  });
+
+  console.log(`📝 Revision recorded for ${projectId}: ${revision.source} (${revision.diffSize} chars changed)`);
+  return revision;
+}
+
+export async function listRevisions(projectId: string): Promise<LPRevisionSummary[]> {
+  const db = await getClient();
+  const result = await db.execute({
+    sql: `SELECT id, project_id, source, prompt, diff_size, created_at FROM lp_revisions
+      WHERE project_id = ? ORDER BY created_at DESC, rowid DESC`,
+    args: [projectId],
+  });
+  return result.rows.map(row => ({
+    id: String(row.id),
+    projectId: String(row.project_id),
+    source: String(row.source),
+    prompt: row.prompt == null ? null : String(row.prompt),
+    diffSize: Number(row.diff_size),
+    createdAt: String(row.created_at),
+  }));
+}
+
+export async function getRevision(projectId: string, revisionId: string): Promise<LPRevision | null> {
+  const db = await getClient();
+  const result = await db.execute({
+    sql: 'SELECT * FROM lp_revisions WHERE project_id = ? AND id = ?',
+    args: [projectId, revisionId],
+  });
+  return result.rows[0] ? rowToRevision(result.rows[0]) : null;
+}
+
+export async function deleteRevisions(projectId: string): Promise<void> {
+  const db = await getClient();
+  await db.execute({ sql: 'DELETE FROM lp_revisions WHERE project_id = ?', args: [projectId] });
+}
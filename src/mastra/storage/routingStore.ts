@@ -0,0 +1,46 @@
+import { mergeModelRouting, modelRoutingSchema, type ModelRouting } from '../providers';
+import { getClient, parseJson } from './client';
+
+export const GLOBAL_ROUTING_SCOPE = 'global';
+
+/**
+ * The routing stored for a scope ("global" or a project id). Entries that no
+ * longer validate, e.g. for a removed provider, are dropped.
+ */
+export async function getModelRouting(scope: string): Promise<ModelRouting> {
+  const db = await getClient();
+  const result = await db.execute({ sql: 'SELECT routing FROM lp_model_routing WHERE scope = ?', args: [scope] });
+  const stored = parseJson<Record<string, unknown>>(result.rows[0]?.routing, {});
+
+  const routing: ModelRouting = {};
+  for (const [step, config] of Object.entries(stored)) {
+    const parsed = modelRoutingSchema.safeParse({ [step]: config });
+    if (parsed.success) Object.assign(routing, parsed.data);
+  }
+  return routing;
+}
+
+export async function saveModelRouting(scope: string, routing: ModelRouting): Promise<ModelRouting> {
+  const db = await getClient();
+  await db.execute({
+    sql: `INSERT INTO lp_model_routing (scope, routing, updated_at) VALUES (?, ?, ?)
+          ON CONFLICT(scope) DO UPDATE SET routing = excluded.routing, updated_at = excluded.updated_at`,
+    args: [scope, JSON.stringify(routing), new Date().toISOString()],
+  });
+  return routing;
+}
+
+/**
+ * The routing a project's requests run with: the global settings with the
+ * project's own steps on top.
+ */
+export async function resolveModelRouting(projectId?: string | null): Promise<ModelRouting> {
+  const global = await getModelRouting(GLOBAL_ROUTING_SCOPE);
+  if (!projectId) return global;
+  return mergeModelRouting(global, await getModelRouting(projectId));
+}
+
+export async function deleteModelRouting(scope: string): Promise<void> {
+  const db = await getClient();
+  await db.execute({ sql: 'DELETE FROM lp_model_routing WHERE scope = ?', args: [scope] });
+}
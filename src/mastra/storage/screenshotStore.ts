@@ -0,0 +1,165 @@
+import type { Row } from '@libsql/client';
+import { captureScreenshots, type PageScreenshot, type ScreenshotViewport } from '../export/screenshots';
+import { getClient } from './client';
+import type { LPRevision } from './revisionStore';
+
+export interface LPScreenshot extends PageScreenshot {
+  id: string;
+  projectId: string;
+  revisionId: string;
+  createdAt: string;
+}
+
+export type LPScreenshotSummary = Omit<LPScreenshot, 'image'>;
+
+const SUMMARY_COLUMNS = 'id, project_id, revision_id, viewport, kind, section_index, section_id, mime_type, width, height, created_at';
+
+function rowToSummary(row: Row): LPScreenshotSummary {
+  return {
+    id: String(row.id),
+    projectId: String(row.project_id),
+    revisionId: String(row.revision_id),
+    viewport: String(row.viewport) as ScreenshotViewport,
+    kind: String(row.kind) as LPScreenshot['kind'],
+    sectionIndex: row.section_index == null ? null : Number(row.section_index),
+    sectionId: row.section_id == null ? null : String(row.section_id),
+    mimeType: String(row.mime_type) as LPScreenshot['mimeType'],
+    width: Number(row.width),
+    height: Number(row.height),
+    createdAt: String(row.created_at),
+  };
+}
+
+export async function listScreenshots(revisionId: string): Promise<LPScreenshotSummary[]> {
+  const db = await getClient();
+  const result = await db.execute({
+    sql: `SELECT ${SUMMARY_COLUMNS} FROM lp_screenshots
+      WHERE revision_id = ? ORDER BY viewport, kind, section_index`,
+    args: [revisionId],
+  });
+  return result.rows.map(rowToSummary);
+}
+
+export async function getScreenshot(revisionId: string, screenshotId: string): Promise<LPScreenshot | null> {
+  const db = await getClient();
+  const result = await db.execute({
+    sql: 'SELECT * FROM lp_screenshots WHERE revision_id = ? AND id = ?',
+    args: [revisionId, screenshotId],
+  });
+  const row = result.rows[0];
+  return row ? { ...rowToSummary(row), image: Buffer.from(row.image as ArrayBuffer) } : null;
+}
+
+async function saveScreenshots(revision: LPRevision, screenshots: PageScreenshot[]): Promise<void> {
+  const createdAt = new Date().toISOString();
+  const db = await getClient();
+  await db.batch(
+    screenshots.map(screenshot => ({
+      sql: `INSERT INTO lp_screenshots
+        (id, project_id, revision_id, viewport, kind, section_index, section_id, mime_type, width, height, image, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        crypto.randomUUID(),
+        revision.projectId,
+        revision.id,
+        screenshot.viewport,
+        screenshot.kind,
+        screenshot.sectionIndex,
+        screenshot.sectionId,
+        screenshot.mimeType,
+        screenshot.width,
+        screenshot.height,
+        screenshot.image,
+        createdAt,
+      ],
+    })),
+    'write'
+  );
+}
+
+// Chromium は重いので撮影は一度に1つずつ行い、同じリビジョンの撮影要求はまとめる
+let renderQueue: Promise<unknown> = Promise.resolve();
+const pendingRenders = new Map<string, Promise<LPScreenshotSummary[]>>();
+
+// 撮影に失敗したリビジョンは、しばらくの間撮り直さずに同じエラーを返す
+const FAILED_RENDER_TTL_MS = 10 * 60_000;
+const failedRenders = new Map<string, { error: unknown; failedAt: number }>();
+
+/**
+ * The screenshots of a revision, or the pending capture while they are
+ * being rendered in the background.
+ */
+export type RevisionScreenshots =
+  | { status: 'ready'; screenshots: LPScreenshotSummary[] }
+  | { status: 'pending'; render: Promise<unknown> };
+
+function throwIfRecentlyFailed(revisionId: string) {
+  const failed = failedRenders.get(revisionId);
+  if (!failed) return;
+  if (Date.now() - failed.failedAt < FAILED_RENDER_TTL_MS) throw failed.error;
+  failedRenders.delete(revisionId);
+}
+
+function recordFailedRender(revisionId: string, error: unknown) {
+  const now = Date.now();
+  for (const [id, failed] of failedRenders) {
+    if (now - failed.failedAt >= FAILED_RENDER_TTL_MS) failedRenders.delete(id);
+  }
+  failedRenders.set(revisionId, { error, failedAt: now });
+  console.warn(`⚠️ Screenshots of revision ${revisionId} failed:`, error instanceof Error ? error.message : error);
+}
+
+function renderScreenshots(revision: LPRevision, title?: string): Promise<LPScreenshotSummary[]> {
+  const pending = pendingRenders.get(revision.id);
+  if (pending) return pending;
+
+  const render = renderQueue.then(async () => {
+    const screenshots = await captureScreenshots({
+      title,
+      htmlContent: revision.htmlContent,
+      cssContent: revision.cssContent,
+    });
+    await saveScreenshots(revision, screenshots);
+    return listScreenshots(revision.id);
+  });
+  renderQueue = render.catch(() => undefined);
+  pendingRenders.set(revision.id, render);
+  render.then(
+    () => pendingRenders.delete(revision.id),
+    error => {
+      pendingRenders.delete(revision.id);
+      recordFailedRender(revision.id, error);
+    }
+  );
+  return render;
+}
+
+/**
+ * Returns the screenshots of a revision, rendering and storing them on first
+ * request. Revisions never change, so the screenshots are kept for good; a
+ * failed capture is remembered and rethrown for a while instead of retried.
+ */
+export async function ensureRevisionScreenshots(revision: LPRevision, title?: string): Promise<LPScreenshotSummary[]> {
+  const existing = await listScreenshots(revision.id);
+  if (existing.length > 0 || !revision.htmlContent.trim()) return existing;
+
+  throwIfRecentlyFailed(revision.id);
+  return renderScreenshots(revision, title);
+}
+
+/**
+ * Like ensureRevisionScreenshots, but starts a missing capture in the
+ * background instead of waiting for it.
+ */
+export async function requestRevisionScreenshots(revision: LPRevision, title?: string): Promise<RevisionScreenshots> {
+  const existing = await listScreenshots(revision.id);
+  if (existing.length > 0 || !revision.htmlContent.trim()) return { status: 'ready', screenshots: existing };
+
+  throwIfRecentlyFailed(revision.id);
+  return { status: 'pending', render: renderScreenshots(revision, title).catch(() => undefined) };
+}
+
+export async function deleteScreenshots(projectId: string): Promise<void> {
+  const db = await getClient();
+  await db.execute({ sql: 'DELETE FROM lp_screenshots WHERE project_id = ?', args: [projectId] });
+}
@@ -0,0 +1,177 @@
+import type { Row } from '@libsql/client';
+import { createUsageRecorder, type PipelineStep, type UsageAttribution, type UsageEntry, type UsageRecorder, type UsageTotals } from '../providers';
+import { getClient } from './client';
+
+export interface ProjectUsage {
+  projectId: string;
+  totals: UsageTotals;
+  byStep: Partial<Record<PipelineStep, UsageTotals>>;
+  bySection: Array<{ sectionIndex: number; totals: UsageTotals }>;
+}
+
+export interface MonthlyUserUsage {
+  userId: string;
+  totals: UsageTotals;
+  byStep: Partial<Record<PipelineStep, UsageTotals>>;
+  // projectId が null の行はプロジェクトとして保存されなかった生成
+  byProject: Array<{ projectId: string | null; title: string | null; totals: UsageTotals }>;
+}
+
+export interface MonthlyUsageReport {
+  month: string;
+  totals: UsageTotals;
+  users: MonthlyUserUsage[];
+}
+
+// Usage rows with the project they belong to: their own, or the one their chat
+// session was linked to later (rows may still be written after the link)
+const USAGE_ROWS = 'lp_usage u LEFT JOIN lp_usage_sessions s ON s.session_id = u.session_id';
+const PROJECT_ID = 'COALESCE(u.project_id, s.project_id)';
+
+const TOTALS_COLUMNS = `SUM(prompt_tokens) AS prompt_tokens,
+  SUM(completion_tokens) AS completion_tokens,
+  SUM(COALESCE(cost_usd, 0)) AS cost_usd,
+  COUNT(*) AS calls,
+  SUM(CASE WHEN cost_usd IS NULL THEN 1 ELSE 0 END) AS unpriced_calls`;
+
+function rowToTotals(row: Row | undefined): UsageTotals {
+  const promptTokens = Number(row?.prompt_tokens ?? 0);
+  const completionTokens = Number(row?.completion_tokens ?? 0);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    costUsd: Number(row?.cost_usd ?? 0),
+    calls: Number(row?.calls ?? 0),
+    unpricedCalls: Number(row?.unpriced_calls ?? 0),
+  };
+}
+
+export async function appendUsage(entry: UsageEntry, attribution: UsageAttribution): Promise<void> {
+  const db = await getClient();
+  await db.execute({
+    sql: `INSERT INTO lp_usage (id, user_id, project_id, session_id, step, section_index, provider, model_id, prompt_tokens, completion_tokens, cost_usd, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      crypto.randomUUID(),
+      attribution.userId,
+      attribution.projectId,
+      attribution.sessionId,
+      entry.step,
+      entry.sectionIndex,
+      entry.provider,
+      entry.modelId,
+      entry.promptTokens,
+      entry.completionTokens,
+      entry.costUsd,
+      new Date().toISOString(),
+    ],
+  });
+}
+
+/**
+ * A recorder that stores every entry. Storing happens in the background so a
+ * failing write never fails the generation it accounts for.
+ */
+export function createStoredUsageRecorder(attribution: UsageAttribution): UsageRecorder {
+  return createUsageRecorder(attribution, (entry, recordedFor) => {
+    appendUsage(entry, recordedFor).catch(error => {
+      console.error('❌ Failed to record token usage:', error);
+    });
+  });
+}
+
+/**
+ * Attributes a chat session's usage from before its project was first saved
+ * to the project, including usage of the session recorded afterwards.
+ */
+export async function linkUsageToProject(sessionId: string, projectId: string): Promise<void> {
+  const db = await getClient();
+  await db.batch([
+    { sql: 'INSERT OR IGNORE INTO lp_usage_sessions (session_id, project_id) VALUES (?, ?)', args: [sessionId, projectId] },
+    { sql: 'UPDATE lp_usage SET project_id = ? WHERE session_id = ? AND project_id IS NULL', args: [projectId, sessionId] },
+  ], 'write');
+}
+
+export async function getProjectUsage(projectId: string): Promise<ProjectUsage> {
+  const db = await getClient();
+  const [totals, bySteps, bySections] = await Promise.all([
+    db.execute({ sql: `SELECT ${TOTALS_COLUMNS} FROM ${USAGE_ROWS} WHERE ${PROJECT_ID} = ?`, args: [projectId] }),
+    db.execute({ sql: `SELECT u.step, ${TOTALS_COLUMNS} FROM ${USAGE_ROWS} WHERE ${PROJECT_ID} = ? GROUP BY u.step`, args: [projectId] }),
+    db.execute({
+      sql: `SELECT u.section_index, ${TOTALS_COLUMNS} FROM ${USAGE_ROWS}
+            WHERE ${PROJECT_ID} = ? AND u.section_index IS NOT NULL
+            GROUP BY u.section_index ORDER BY u.section_index`,
+      args: [projectId],
+    }),
+  ]);
+
+  return {
+    projectId,
+    totals: rowToTotals(totals.rows[0]),
+    byStep: Object.fromEntries(bySteps.rows.map(row => [String(row.step), rowToTotals(row)])),
+    bySection: bySections.rows.map(row => ({ sectionIndex: Number(row.section_index), totals: rowToTotals(row) })),
+  };
+}
+
+// "2025-06" → ["2025-06-01T00:00:00.000Z", "2025-07-01T00:00:00.000Z"]
+function monthRange(month: string): [string, string] {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return [new Date(Date.UTC(year, monthNumber - 1, 1)).toISOString(), new Date(Date.UTC(year, monthNumber, 1)).toISOString()];
+}
+
+/**
+ * Usage for a calendar month (UTC, "YYYY-MM") per user, optionally for one
+ * user only.
+ */
+export async function getMonthlyUsage(month: string, userId?: string): Promise<MonthlyUsageReport> {
+  const db = await getClient();
+  const [from, to] = monthRange(month);
+  const where = `u.created_at >= ? AND u.created_at < ?${userId ? ' AND u.user_id = ?' : ''}`;
+  const args = userId ? [from, to, userId] : [from, to];
+
+  const [byUsers, bySteps, byProjects] = await Promise.all([
+    db.execute({ sql: `SELECT u.user_id, ${TOTALS_COLUMNS} FROM lp_usage u WHERE ${where} GROUP BY u.user_id ORDER BY u.user_id`, args }),
+    db.execute({ sql: `SELECT u.user_id, u.step, ${TOTALS_COLUMNS} FROM lp_usage u WHERE ${where} GROUP BY u.user_id, u.step`, args }),
+    db.execute({
+      sql: `SELECT u.user_id, ${PROJECT_ID} AS project_id, p.title, ${TOTALS_COLUMNS} FROM ${USAGE_ROWS}
+            LEFT JOIN lp_projects p ON p.id = ${PROJECT_ID}
+            WHERE ${where} GROUP BY u.user_id, ${PROJECT_ID} ORDER BY cost_usd DESC`,
+      args,
+    }),
+  ]);
+
+  const users = byUsers.rows.map<MonthlyUserUsage>(row => {
+    const id = String(row.user_id);
+    return {
+      userId: id,
+      totals: rowToTotals(row),
+      byStep: Object.fromEntries(
+        bySteps.rows.filter(stepRow => String(stepRow.user_id) === id).map(stepRow => [String(stepRow.step), rowToTotals(stepRow)])
+      ),
+      byProject: byProjects.rows
+        .filter(projectRow => String(projectRow.user_id) === id)
+        .map(projectRow => ({
+          projectId: projectRow.project_id == null ? null : String(projectRow.project_id),
+          title: projectRow.title == null ? null : String(projectRow.title),
+          totals: rowToTotals(projectRow),
+        })),
+    };
+  });
+
+  return {
+    month,
+    totals: users.reduce<UsageTotals>(
+      (sum, user) => ({
+        promptTokens: sum.promptTokens + user.totals.promptTokens,
+        completionTokens: sum.completionTokens + user.totals.completionTokens,
+        totalTokens: sum.totalTokens + user.totals.totalTokens,
+        costUsd: sum.costUsd + user.totals.costUsd,
+        calls: sum.calls + user.totals.calls,
+        unpricedCalls: sum.unpricedCalls + user.totals.unpricedCalls,
+      }),
+      rowToTotals(undefined)
+    ),
+    users,
+  };
+}
@@ -0,0 +1,11 @@
+// There are no accounts yet, so a user is a browser: the middleware issues a
+// cookie per browser and passes its value to handlers in this header,
+// replacing any value the client sent. This module has no storage imports so
+// the middleware can use it.
+export const USAGE_USER_HEADER = 'x-lp-creator-user';
+export const USAGE_USER_COOKIE = 'lp_creator_user';
+export const ANONYMOUS_USER_ID = 'anonymous';
+
+export function resolveUsageUserId(headers: Pick<Headers, 'get'>): string {
+  return headers.get(USAGE_USER_HEADER)?.trim() || ANONYMOUS_USER_ID;
+}
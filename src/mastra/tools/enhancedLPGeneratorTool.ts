@@ -1,8 +1,20 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import { generateUnifiedLP } from './lpGeneratorTool';
+import { designStyleSchema, type LPGenerationProgressHandler } from '../schemas';
+import { normalizeLPHtml } from '../normalization';
+import type { ModelRouting, UsageRecorder } from '../providers';
 
-export const enhancedLPGeneratorTool = tool({
+/**
+ * Creates the generator tool. `onProgress` receives the structure and each
+ * section as they finish, so callers can stream them to the client. `routing`
+ * picks the models of the generation steps and `usage` records their tokens.
+ */
+export const createEnhancedLPGeneratorTool = ({
+  onProgress,
+  routing,
+  usage,
+}: { onProgress?: LPGenerationProgressHandler; routing?: ModelRouting; usage?: UsageRecorder } = {}) => tool({
   description: 'Enhanced unified landing page generator that creates complete, high-quality landing pages with improved prompts and structure generation inspired by Open_SuperAgent.',
   parameters: z.object({
     topic: z.string().describe('The main topic, business, or product/service for the landing page.'),
@@ -10,7 +22,7 @@ export const enhancedLPGeneratorTool = tool({
     businessGoal: z.string().optional().describe('Primary business goal (e.g., "lead generation", "product sales", "newsletter signup").'),
     industry: z.string().optional().describe('Industry or business category (e.g., "SaaS", "e-commerce", "consulting").'),
     competitiveAdvantage: z.string().optional().describe('Unique selling proposition or competitive advantage.'),
-    designStyle: z.enum(['modern', 'minimalist', 'corporate', 'creative', 'tech', 'startup']).optional().default('modern').describe('Preferred design style for the landing page.'),
+    designStyle: designStyleSchema.optional().default('modern').describe('Preferred design style for the landing page.'),
   }),
   execute: async ({ topic, targetAudience, businessGoal, industry, competitiveAdvantage, designStyle }) => {
     console.log(`🚀 Enhanced LP Generator: Starting generation for "${topic}"`);
@@ -26,7 +38,10 @@ export const enhancedLPGeneratorTool = tool({
     
     try {
       const result = await generateUnifiedLP({ 
-        topic: enhancedTopic 
+        topic: enhancedTopic,
+        onProgress,
+        routing,
+        usage,
       });
       
       console.log(`✅ Enhanced LP Generator: Successfully generated LP for "${topic}"`);
@@ -37,6 +52,7 @@ export const enhancedLPGeneratorTool = tool({
         htmlContent: result.htmlContent,
         cssContent: result.cssContent,
         structure: result.structure,
+        document: result.document,
         metadata: {
           ...result.metadata,
           originalTopic: topic,
@@ -57,7 +73,8 @@ export const enhancedLPGeneratorTool = tool({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
         title: `${topic} - エラー`,
-        htmlContent: `<section class="py-16 bg-red-50 border border-red-200">
+        // トピックはユーザー入力なのでエラー表示にも無害化を通す
+        htmlContent: normalizeLPHtml(`<section class="py-16 bg-red-50 border border-red-200">
           <div class="container mx-auto px-4 text-center">
             <h2 class="text-3xl font-bold text-red-800 mb-4">生成エラー</h2>
             <p class="text-red-600 mb-4">ランディングページの生成中にエラーが発生しました。</p>
@@ -66,9 +83,10 @@ export const enhancedLPGeneratorTool = tool({
               再試行
             </button>
           </div>
-        </section>`,
+        </section>`, { source: 'enhancedLPGeneratorTool error' }).html,
         cssContent: '',
         structure: null,
+        document: null,
         metadata: {
           originalTopic: topic,
           error: true,
@@ -78,4 +96,6 @@ export const enhancedLPGeneratorTool = tool({
       };
     }
   }
-});
\ No newline at end of file
+});
+
+export const enhancedLPGeneratorTool = createEnhancedLPGeneratorTool();
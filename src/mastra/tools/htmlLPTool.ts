@@ -1,23 +1,23 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import { anthropic } from '@ai-sdk/anthropic';
 import { generateText } from 'ai';
+import { colorSchemeSchema, createSectionId, designStyleSchema, sectionTypeSchema, type LPDocumentSection } from '../schemas';
+import { normalizeLPHtml } from '../normalization';
+import { getStepModel, type ModelRouting, type UsageRecorder } from '../providers';
 
-export const htmlLPTool = tool({
+/**
+ * Creates the section tool. Sections use the model routed for the `section` step.
+ */
+export const createHtmlLPTool = ({ routing, usage }: { routing?: ModelRouting; usage?: UsageRecorder } = {}) => tool({
   description: 'Generates HTML content for a specific section of a landing page using AI. Creates modern, responsive, and conversion-optimized sections.',
   parameters: z.object({
     topic: z.string().describe('The main topic or business focus of the landing page.'),
-    sectionType: z.enum(['hero', 'features', 'testimonials', 'cta', 'faq', 'footer', 'about', 'pricing', 'contact']).describe('The type of section to generate.'),
+    sectionType: sectionTypeSchema.describe('The type of section to generate.'),
     sectionIndex: z.number().optional().describe('Current section number in sequence (for ordering).'),
     totalSections: z.number().optional().describe('Total sections in the landing page (for context).'),
     content: z.string().optional().describe('Specific content requirements or key points for this section.'),
-    colorScheme: z.object({
-      primaryColor: z.string().optional().describe('Primary brand color hex code (e.g., #0056B1).'),
-      accentColor: z.string().optional().describe('Accent color hex code (e.g., #FFB400).'),
-      bgColor: z.string().optional().describe('Background color hex code (e.g., #F5F7FA).'),
-      textColor: z.string().optional().describe('Main text color hex code (e.g., #333333).'),
-    }).optional().describe('Color scheme for the section.'),
-    designStyle: z.enum(['modern', 'minimalist', 'corporate', 'creative', 'tech', 'startup']).optional().default('modern').describe('Overall design style for the section.'),
+    colorScheme: colorSchemeSchema.partial().optional().describe('Color scheme for the section.'),
+    designStyle: designStyleSchema.optional().default('modern').describe('Overall design style for the section.'),
     conversionGoal: z.string().optional().describe('Specific conversion goal (e.g., "email signup", "purchase", "demo request").'),
   }),
   execute: async ({ 
@@ -30,7 +30,7 @@ export const htmlLPTool = tool({
     designStyle, 
     conversionGoal 
   }) => {
-    const uniqueSectionClass = `lp-section-${sectionType}-${Math.random().toString(36).substring(7)}`;
+    const uniqueSectionClass = createSectionId(sectionType);
 
     // Arguments for the AI prompt
     const promptArgs = {
@@ -87,22 +87,36 @@ ${getSectionSpecificRequirements(sectionType, promptArgs)}
 生成してください：`;
 
     try {
+      const sectionUsage = sectionIndex !== undefined ? usage?.forSection(sectionIndex) : usage;
+      const { model, temperature, maxTokens } = getStepModel('section', routing, sectionUsage);
       const { text } = await generateText({
-        model: anthropic('claude-3-5-sonnet-20241022'),
+        model,
         prompt: baseDesignPrompt,
-        maxTokens: 4000,
-        temperature: 0.7,
+        maxTokens: maxTokens ?? 4000,
+        temperature: temperature ?? 0.7,
       });
 
       console.log(`✅ LP Section ${sectionIndex} (${sectionType}) HTML generated successfully`);
       
-      // HTMLコンテンツの検証と清理
-      const cleanHtml = cleanAndValidateHtml(text, uniqueSectionClass, sectionType, sectionIndex);
+      // HTMLコンテンツの検証と清理（スクリプトやイベントハンドラは保存・表示前に除去）
+      const { html: cleanHtml, sanitization } = normalizeLPHtml(
+        cleanAndValidateHtml(text, uniqueSectionClass, sectionType, sectionIndex),
+        { sectionIndex, source: `htmlLPTool section ${sectionIndex} (${sectionType})` }
+      );
+      const section: LPDocumentSection = {
+        id: uniqueSectionClass,
+        type: sectionType,
+        layoutType: 'default',
+        prompt: promptArgs.content,
+        html: cleanHtml,
+      };
       
       return {
         html: cleanHtml,
+        section,
         sectionType: sectionType,
         sectionIndex: sectionIndex,
+        sanitization,
         metadata: {
           topic: topic,
           designStyle: designStyle,
@@ -115,10 +129,21 @@ ${getSectionSpecificRequirements(sectionType, promptArgs)}
       console.error(`❌ LP Section ${sectionIndex} generation failed:`, error);
       
       // フォールバックHTML
-      const fallbackHtml = generateFallbackHtml(sectionType, sectionIndex, promptArgs);
+      const { html: fallbackHtml } = normalizeLPHtml(
+        generateFallbackHtml(sectionType, sectionIndex, promptArgs),
+        { sectionIndex, source: `htmlLPTool fallback section ${sectionIndex}` }
+      );
+      const section: LPDocumentSection = {
+        id: uniqueSectionClass,
+        type: sectionType,
+        layoutType: 'default',
+        prompt: promptArgs.content,
+        html: fallbackHtml,
+      };
       
       return {
         html: fallbackHtml,
+        section,
         sectionType: sectionType,
         sectionIndex: sectionIndex,
         metadata: {
@@ -131,6 +156,8 @@ ${getSectionSpecificRequirements(sectionType, promptArgs)}
   }
 });
 
+export const htmlLPTool = createHtmlLPTool();
+
 // セクション別の詳細要件を取得
 function getSectionSpecificRequirements(sectionType: string, promptArgs: any): string {
   switch (sectionType) {
@@ -4,8 +4,8 @@ export { generateLPStructure } from './structureTool';
 export { partialUpdateLP } from './partialUpdateTool';
 
 // New Mastra-based tools
-export { htmlLPTool } from './htmlLPTool';
-export { lpStructureTool } from './lpStructureTool';
+export { htmlLPTool, createHtmlLPTool } from './htmlLPTool';
+export { lpStructureTool, createLpStructureTool } from './lpStructureTool';
 export { lpPreviewTool } from './lpPreviewTool';
-export { enhancedLPGeneratorTool } from './enhancedLPGeneratorTool';
-export { partialUpdateMastraTool, aiPartialUpdateTool } from './partialUpdateMastraTool';
\ No newline at end of file
+export { enhancedLPGeneratorTool, createEnhancedLPGeneratorTool } from './enhancedLPGeneratorTool';
+export { partialUpdateMastraTool, aiPartialUpdateTool, createAiPartialUpdateTool } from './partialUpdateMastraTool';
\ No newline at end of file
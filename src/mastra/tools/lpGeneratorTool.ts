@@ -1,46 +1,67 @@
 
-import { createAnthropic } from '@ai-sdk/anthropic';
-import { generateObject, generateText } from 'ai';
+import { generateObject, NoObjectGeneratedError } from 'ai';
 import { z } from 'zod';
-
-// Define the schema for a single section of the LP
-const sectionSchema = z.object({
-  type: z.enum(['hero', 'features', 'testimonials', 'cta', 'faq', 'footer', 'about', 'pricing', 'contact']).describe('The type of section'),
-  prompt: z.string().min(10).describe('A detailed prompt for the AI to generate this specific section.'),
-  layoutType: z.enum(['default', 'image-left', 'image-right', 'full-graphic', 'quote', 'comparison', 'timeline', 'list', 'title', 'section-break', 'data-visualization', 'photo-with-caption']).optional().default('default').describe('The desired layout type for this section.'),
+import {
+  createSectionId,
+  CSS_COLOR_PATTERN,
+  DEFAULT_COLOR_SCHEME,
+  getSectionPrompt,
+  lpSectionSchema,
+  lpStructureSchema,
+  renderLPDocumentHtml,
+  sectionHtmlSchema,
+  type LPDocument,
+  type LPDocumentSection,
+  type LPGenerationProgressHandler,
+  type LPLayoutType,
+  type LPSection,
+  type LPStructure,
+} from '../schemas';
+import { normalizeLPHtml, normalizeSectionIds, repairHtmlObjectText } from '../normalization';
+import { getFailoverReport, getStepModel, summarizeUsage, type ModelRouting, type StepModel, type UsageRecorder } from '../providers';
+import type { SanitizeReport } from '../security';
+
+// The generator asks for a focused outline of 3-10 sections
+const generatorStructureSchema = lpStructureSchema.extend({
+  sections: z.array(lpSectionSchema).min(3).max(10).describe('An array of sections that make up the landing page.'),
 });
 
-// Define the schema for the overall LP structure
-const lpStructureSchema = z.object({
-  title: z.string().describe('The main title of the landing page'),
-  description: z.string().describe('A brief description of the landing page purpose'),
-  sections: z.array(sectionSchema).min(3).max(10).describe('An array of sections that make up the landing page.'),
-  colorScheme: z.object({
-    primaryColor: z.string().default('#0056B1'),
-    accentColor: z.string().default('#FFB400'),
-    bgColor: z.string().default('#F5F7FA'),
-    textColor: z.string().default('#333333'),
-  }).describe('Color scheme for the landing page'),
-  designStyle: z.enum(['modern', 'minimalist', 'corporate', 'creative', 'tech', 'startup']).default('modern').describe('Overall design style'),
-});
+// What is needed to generate the HTML of one section
+type SectionSpec = Pick<LPDocumentSection, 'type' | 'layoutType' | 'prompt'>;
 
-// Define the schema for the generated HTML of a single section
-const sectionHtmlSchema = z.object({
-  html: z.string().min(50).describe('The HTML content for the section, styled with Tailwind CSS. Must be valid HTML without html, head, or body tags.'),
-});
+// How many times a section is requested when the reply does not match sectionHtmlSchema
+const SECTION_OUTPUT_ATTEMPTS = 2;
 
-type LPSection = z.infer<typeof sectionSchema>;
+/**
+ * How the HTML of a section was obtained: the reply matched the schema
+ * (`parsed`), matched after repairing its JSON (`repaired`), or the section
+ * uses the built-in fallback HTML (`fallback`).
+ */
+export type SectionOutputStatus = 'parsed' | 'repaired' | 'fallback';
+
+export interface SectionOutputReport {
+  status: SectionOutputStatus;
+  /** Model calls made for the section */
+  attempts: number;
+  /** The model that wrote the HTML, as "provider:modelId" */
+  model?: string;
+  /** True when the step's own model failed and a failover model wrote the HTML */
+  failedOver?: boolean;
+  /** Why the section fell back */
+  error?: string;
+}
 
 /**
  * Generates the overall structure (outline) of the landing page as a JSON object.
  */
-async function generateLPStructure(topic: string) {
+async function generateLPStructure(topic: string, routing?: ModelRouting, usage?: UsageRecorder): Promise<LPStructure> {
+  const { model, temperature, maxTokens } = getStepModel('structure', routing, usage);
   try {
     const { object: structure } = await generateObject({
-      model: createAnthropic()('claude-3-5-sonnet-20241022'),
-      schema: lpStructureSchema,
-      maxTokens: 2000,
-      temperature: 0.7,
+      model,
+      schema: generatorStructureSchema,
+      maxTokens: maxTokens ?? 2000,
+      temperature: temperature ?? 0.7,
       prompt: `あなたはプロフェッショナルなランディングページ戦略コンサルタントです。
 「${topic}」についての高品質なランディングページ構造を設計してください。
 
@@ -66,6 +87,8 @@ async function generateLPStructure(topic: string) {
 
 各セクションには：
 - type: セクションタイプ
+- title: セクションの見出し
+- description: セクションの内容と目的の要約
 - prompt: 具体的で詳細なセクション生成指示（50文字以上）
 - layoutType: 最適なレイアウトタイプ
 
@@ -83,21 +106,29 @@ async function generateLPStructure(topic: string) {
       sections: [
         {
           type: 'hero' as const,
+          title: 'ヒーロー',
+          description: 'ファーストビューで価値を伝える',
           prompt: `${topic}のためのインパクトのあるヒーローセクションを作成。強力なヘッドライン、価値提案、明確なCTAボタンを含める。視覚的に魅力的で信頼性を演出する`,
           layoutType: 'full-graphic' as const
         },
         {
           type: 'features' as const,
+          title: '主な特徴',
+          description: '主要な特徴と利益の紹介',
           prompt: `${topic}の主要な特徴と利益を3-6個のポイントで紹介。各特徴にはアイコンと簡潔な説明文を付ける。ユーザーの問題解決に焦点を当てる`,
           layoutType: 'default' as const
         },
         {
           type: 'testimonials' as const,
+          title: 'お客様の声',
+          description: '顧客の証言で信頼性を高める',
           prompt: `${topic}の顧客体験談セクション。3-4個の信頼できる証言、顧客写真、評価スター、具体的な成果を含める。信頼性を高める要素を追加`,
           layoutType: 'quote' as const
         },
         {
           type: 'cta' as const,
+          title: '今すぐ始めよう',
+          description: '行動を促すコールトゥアクション',
           prompt: `${topic}のための強力なコールトゥアクションセクション。緊急性を演出し、行動を促す明確なメッセージとボタンを配置。背景にコントラストを効かせる`,
           layoutType: 'full-graphic' as const
         }
@@ -114,14 +145,19 @@ async function generateLPStructure(topic: string) {
 }
 
 /**
- * Generate CSS custom properties for dynamic color scheme
+ * Generate CSS custom properties for dynamic color scheme.
+ * Values that are not plain colors fall back to the default scheme.
  */
 function generateColorVariables(colorScheme: any): string {
-  const colors = colorScheme || {
-    primaryColor: '#0056B1',
-    accentColor: '#FFB400',
-    bgColor: '#F5F7FA',
-    textColor: '#333333'
+  const colorOf = (key: keyof typeof DEFAULT_COLOR_SCHEME): string => {
+    const value = colorScheme?.[key];
+    return typeof value === 'string' && CSS_COLOR_PATTERN.test(value) ? value : DEFAULT_COLOR_SCHEME[key];
+  };
+  const colors = {
+    primaryColor: colorOf('primaryColor'),
+    accentColor: colorOf('accentColor'),
+    bgColor: colorOf('bgColor'),
+    textColor: colorOf('textColor'),
   };
   
   return `
@@ -223,23 +259,28 @@ function generateCustomCSS(colorScheme: any, designStyle: string): string {
 }
 
 /**
- * Generates the HTML for a single section based on its definition using enhanced prompts from Open_SuperAgent style.
+ * Generates the sanitized HTML of one section, with `uniqueSectionClass` on
+ * its root element. Replies that don't match sectionHtmlSchema are repaired or
+ * requested again, and fallback HTML is used as a last resort; `output` reports
+ * which happened and `sanitization` what was removed. Uses the model routed for
+ * the `section` step unless `stepModel` is given.
  */
-async function generateSectionHtml(section: LPSection, sectionIndex: number, structure: any) {
-  const uniqueSectionClass = `lp-section-${section.type}-${Math.random().toString(36).substring(7)}`;
+export async function generateSectionHtml(
+  section: SectionSpec,
+  sectionIndex: number,
+  structure: any,
+  uniqueSectionClass: string = createSectionId(section.type),
+  stepModel: StepModel = getStepModel('section')
+): Promise<{ html: string; sanitization: SanitizeReport; output: SectionOutputReport }> {
   
   // Enhanced prompt based on Open_SuperAgent's htmlSlideTool approach
   const enhancedPrompt = `あなたはプロフェッショナルな「ランディングページデザイナー」です。
 企業レベルの高品質なランディングページセクションを作成してください。
 
 【🚨 最重要：出力形式の絶対的ルール 🚨】
-以下のJSON形式でのみ出力してください。他の形式は一切禁止です：
+完成したHTMLを html フィールドに入れて返してください。
 
-{"html": "完全なHTMLコンテンツをここに記載"}
-
-- 説明文、コメント、マークダウンは一切出力しないでください
-- JSONの外側に何も書かないでください
-- HTMLコンテンツ内のダブルクォート（"）は必ずエスケープ（\"）してください
+- 説明文、コメント、マークダウンは html に含めないでください
 
 【入力パラメータ】
 ・セクションタイプ: ${section.type}
@@ -272,7 +313,7 @@ async function generateSectionHtml(section: LPSection, sectionIndex: number, str
 4. **視覚的情報伝達** - アイコン、図解、視覚要素を効果的に配置
 
 【出力要件】
-1. **JSON形式で出力**: {"html": "HTMLコンテンツ"}
+1. **html フィールドに出力**: セクションのHTMLのみ
 2. **Tailwind CSSクラスのみ使用**
 3. **data-editable-id属性を主要要素に付与**: data-editable-id="section-${sectionIndex}-element-X"
 4. **レスポンシブデザイン**: sm:, md:, lg:, xl: プレフィックスを活用
@@ -296,89 +337,76 @@ ${getSectionDesignGuidelines(section.type)}
 - <html>, <head>, <body>タグの使用
 - インラインスタイルの使用
 - 外部画像URL（SVGアイコンは可）
-- 説明文、コメント、マークダウンの出力
-- JSON以外の形式での出力`;
+- 説明文、コメント、マークダウンの出力`;
 
+  let attempts = 0;
   try {
-    const { text } = await generateText({
-      model: createAnthropic()('claude-3-5-sonnet-20241022'),
-      prompt: enhancedPrompt,
-      maxTokens: 4000,
-      temperature: 0.7,
-    });
-    
-    // Parse JSON response with improved extraction logic
     let htmlContent = '';
-    
-    console.log(`🔍 Parsing response for section ${sectionIndex}:`, text.substring(0, 200) + '...');
-    
-    try {
-      // First try to parse as complete JSON
-      const jsonResponse = JSON.parse(text.trim());
-      htmlContent = jsonResponse.html || text;
-      console.log(`✅ Section ${sectionIndex}: JSON parsed successfully`);
-    } catch (parseError) {
-      console.log(`⚠️ Section ${sectionIndex}: JSON parse failed, trying extraction...`);
-      
-      // Improved regex to handle complex HTML content with nested quotes
-      const patterns = [
-        // Pattern 1: Complete JSON object
-        /\{\s*"html"\s*:\s*"([\s\S]*?)"\s*\}/,
-        // Pattern 2: Just the HTML value with escaped quotes
-        /"html"\s*:\s*"([\s\S]*?)"/,
-        // Pattern 3: HTML value at the end of the response
-        /"html"\s*:\s*"([\s\S]*?)"\s*\}?\s*$/,
-        // Pattern 4: Look for any string after "html":
-        /"html"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/
-      ];
-      
-      let extracted = false;
-      for (const pattern of patterns) {
-        const match = text.trim().match(pattern);
-        if (match && match[1]) {
-          // Properly unescape JSON string
-          htmlContent = match[1]
-            .replace(/\\"/g, '"')
-            .replace(/\\n/g, '\n')
-            .replace(/\\t/g, '\t')
-            .replace(/\\\\/g, '\\');
-          console.log(`✅ Section ${sectionIndex}: Extracted HTML using pattern ${patterns.indexOf(pattern) + 1}`);
-          extracted = true;
-          break;
-        }
-      }
-      
-      if (!extracted) {
-        // Final fallback: Check if the text itself looks like HTML
-        if (text.trim().includes('<') && text.trim().includes('>')) {
-          htmlContent = text.trim();
-          console.log(`⚠️ Section ${sectionIndex}: Using raw text as HTML (contains HTML tags)`);
-        } else {
-          throw new Error(`Failed to extract HTML content from AI response: ${text.substring(0, 100)}...`);
-        }
+    let repaired = false;
+    let retryNote = '';
+    let servedBy: Pick<SectionOutputReport, 'model' | 'failedOver'> = {};
+
+    for (;;) {
+      attempts++;
+      try {
+        const { object, providerMetadata } = await generateObject({
+          model: stepModel.model,
+          schema: sectionHtmlSchema,
+          prompt: enhancedPrompt + retryNote,
+          maxTokens: stepModel.maxTokens ?? 4000,
+          temperature: stepModel.temperature ?? 0.7,
+          experimental_repairText: async ({ text, error }) => {
+            const repairedText = repairHtmlObjectText(text);
+            console.log(`🔧 Section ${sectionIndex}: ${repairedText ? 'repaired' : 'could not repair'} output (${error.message.split('\n')[0]})`);
+            if (repairedText) repaired = true;
+            return repairedText;
+          },
+        });
+        htmlContent = object.html;
+        const failover = getFailoverReport(providerMetadata);
+        servedBy = failover
+          ? { model: `${failover.provider}:${failover.modelId}`, failedOver: failover.failedOver }
+          : { model: `${stepModel.model.provider}:${stepModel.model.modelId}`, failedOver: false };
+        break;
+      } catch (error) {
+        if (!NoObjectGeneratedError.isInstance(error) || attempts >= SECTION_OUTPUT_ATTEMPTS) throw error;
+        console.warn(`⚠️ Section ${sectionIndex}: output did not match the schema, retrying (${attempts}/${SECTION_OUTPUT_ATTEMPTS})`);
+        retryNote = `\n\n【再出力のお願い】前回の出力は形式が不正でした（${error.message}）。html フィールドに50文字以上のHTMLを入れてください。`;
       }
     }
-    
-    // HTMLコンテンツの検証と清理
-    if (!htmlContent || htmlContent.length < 50) {
-      throw new Error('Generated HTML is too short or invalid');
-    }
-    
+
     // Ensure proper section wrapper
     if (!htmlContent.includes('<section')) {
       htmlContent = `<section class="${uniqueSectionClass} py-16" data-editable-id="section-${sectionIndex}-root">\n${htmlContent}\n</section>`;
     }
-    
-    console.log(`✅ Section ${sectionIndex} (${section.type}) HTML generated successfully`);
-    return htmlContent;
+
+    const status: SectionOutputStatus = repaired ? 'repaired' : 'parsed';
+    console.log(`✅ Section ${sectionIndex} (${section.type}) HTML generated successfully (${status}, ${attempts} attempts, ${servedBy.model})`);
+    const { html, sanitization } = normalizeLPHtml(htmlContent, { sectionIndex, source: `section ${sectionIndex} (${section.type})` });
+    return { html, sanitization, output: { status, attempts, ...servedBy } };
   } catch (error) {
     console.error(`❌ Section ${sectionIndex} generation failed:`, error);
     
-    // Enhanced fallback HTML with better design
-    return generateEnhancedFallbackHtml(section, sectionIndex, uniqueSectionClass);
+    // Enhanced fallback HTML with better design (the section prompt is user input)
+    const { html, sanitization } = normalizeLPHtml(
+      generateEnhancedFallbackHtml(section, sectionIndex, uniqueSectionClass),
+      { sectionIndex, source: `fallback section ${sectionIndex}` }
+    );
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    return { html, sanitization, output: { status: 'fallback', attempts, error: message } };
   }
 }
 
+function toDocumentSection(section: LPSection, id: string, html: string): LPDocumentSection {
+  return {
+    id,
+    type: section.type,
+    layoutType: section.layoutType || 'default',
+    prompt: getSectionPrompt(section),
+    html,
+  };
+}
+
 // Layout-specific requirements
 function getLayoutSpecificRequirements(layoutType: string): string {
   switch (layoutType) {
@@ -455,7 +483,7 @@ function getSectionDesignGuidelines(sectionType: string): string {
 }
 
 // Enhanced fallback HTML generator with dynamic colors
-function generateEnhancedFallbackHtml(section: LPSection, sectionIndex: number, uniqueClass: string): string {
+function generateEnhancedFallbackHtml(section: SectionSpec, sectionIndex: number, uniqueClass: string): string {
   
   return `<section class="${uniqueClass} py-16 hero-gradient" data-editable-id="section-${sectionIndex}-root">
     <div class="container mx-auto px-4 text-center">
@@ -469,7 +497,7 @@ function generateEnhancedFallbackHtml(section: LPSection, sectionIndex: number,
           ${section.type.charAt(0).toUpperCase() + section.type.slice(1)} Section
         </h2>
         <p class="text-xl text-custom opacity-80 mb-8 leading-relaxed" data-editable-id="section-${sectionIndex}-description">
-          このセクションは現在生成中です。高品質なコンテンツをお届けするため、少々お待ちください。
+          このセクションは生成できませんでした。「再生成する」から再度お試しください。
         </p>
         <div class="bg-white rounded-lg shadow-lg p-6 border-l-4 border-accent feature-card" data-editable-id="section-${sectionIndex}-content">
           <p class="text-custom text-left">
@@ -478,7 +506,7 @@ function generateEnhancedFallbackHtml(section: LPSection, sectionIndex: number,
             <strong>生成指示:</strong> ${section.prompt}
           </p>
         </div>
-        <button class="mt-8 inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-primary hover-primary transition-all duration-200" data-editable-id="section-${sectionIndex}-cta">
+        <button class="mt-8 inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-primary hover-primary transition-all duration-200" data-editable-id="section-${sectionIndex}-cta" data-lp-action="regenerate-section">
           再生成する
           <svg class="ml-2 -mr-1 w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"></path>
@@ -489,83 +517,112 @@ function generateEnhancedFallbackHtml(section: LPSection, sectionIndex: number,
   </section>`;
 }
 
-export async function generateUnifiedLP({ topic }: { topic: string }) {
+/**
+ * Generates a complete landing page. When `structure` is given (e.g. approved
+ * in the confirmation UI), exactly those sections are generated in that order
+ * instead of planning a new outline. When `onProgress` is given, the structure
+ * and each finished section are reported as soon as they are available.
+ * `routing` picks the models of the `structure` and `section` steps, and
+ * `usage` records their token usage by step and section.
+ */
+export async function generateUnifiedLP({
+    topic,
+    structure: approvedStructure,
+    onProgress,
+    routing,
+    usage,
+}: {
+    topic: string;
+    structure?: LPStructure;
+    onProgress?: LPGenerationProgressHandler;
+    routing?: ModelRouting;
+    usage?: UsageRecorder;
+}) {
     console.log(`🚀 Starting LP generation for: ${topic}`);
     const startTime = Date.now();
+    const generationId = crypto.randomUUID();
+    // The recorder may be shared with the rest of the request, e.g. the chat model
+    const usageStart = usage?.entries().length ?? 0;
 
     try {
-        // Step 1: Generate the structure (faster with reduced complexity)
-        console.log('📋 Step 1: Generating LP structure...');
-        const structureStart = Date.now();
-        const structure = await generateLPStructure(topic);
-        console.log(`✅ LP Structure generated in ${Date.now() - structureStart}ms:`, structure);
+        // Step 1: Use the approved structure, or generate one (faster with reduced complexity)
+        let structure: LPStructure;
+        if (approvedStructure) {
+            console.log('📋 Step 1: Using approved LP structure...');
+            structure = lpStructureSchema.parse(approvedStructure);
+        } else {
+            console.log('📋 Step 1: Generating LP structure...');
+            const structureStart = Date.now();
+            structure = await generateLPStructure(topic, routing, usage);
+            console.log(`✅ LP Structure generated in ${Date.now() - structureStart}ms:`, structure);
+        }
+
+        // Section ids are fixed up front so streamed sections can be matched to their placeholders
+        const plannedSections = structure.sections.map(section => toDocumentSection(section, createSectionId(section.type), ''));
+        const emitSection = (index: number, section: LPDocumentSection) => {
+            onProgress?.({ type: 'lp-section', generationId, index, section });
+            return section;
+        };
+        onProgress?.({
+            type: 'lp-structure',
+            generationId,
+            document: {
+                title: structure.title,
+                description: structure.description,
+                sections: plannedSections,
+                cssContent: generateCustomCSS(structure.colorScheme, structure.designStyle),
+                colorScheme: structure.colorScheme,
+                designStyle: structure.designStyle,
+            },
+        });
 
         // Step 2: Generate HTML for each section in parallel with concurrency limit
         console.log('🎨 Step 2: Generating HTML for each section...');
         const htmlStart = Date.now();
         
-        // Process in smaller batches with retry logic to avoid API rate limits
+        // Process in smaller batches to avoid API rate limits. generateSectionHtml
+        // handles retries and fallbacks per section, so a batch never fails as a whole.
         const batchSize = 2;
-        const maxRetries = 3;
-        const retryDelay = 1000; // 1 second
-        const sectionHtmls: string[] = [];
+        const batchDelay = 1000; // 1 second
+        const sections: LPDocumentSection[] = [];
+        const sanitization: Array<SanitizeReport & { sectionIndex: number }> = [];
+        const sectionOutputs: Array<SectionOutputReport & { sectionIndex: number }> = [];
         
         for (let i = 0; i < structure.sections.length; i += batchSize) {
-            const batch = structure.sections.slice(i, i + batchSize);
+            const batch = plannedSections.slice(i, i + batchSize);
             const batchIndex = Math.floor(i/batchSize) + 1;
             const totalBatches = Math.ceil(structure.sections.length/batchSize);
             
             console.log(`⚡ Processing batch ${batchIndex}/${totalBatches} (sections ${i}-${Math.min(i + batchSize - 1, structure.sections.length - 1)})`);
             
-            let batchAttempt = 0;
-            let batchSuccess = false;
-            
-            while (batchAttempt < maxRetries && !batchSuccess) {
-                try {
-                    const batchPromises = batch.map((section, batchLocalIndex) => 
-                        generateSectionHtml(section, i + batchLocalIndex, structure)
-                    );
-                    
-                    const batchResults = await Promise.all(batchPromises);
-                    sectionHtmls.push(...batchResults);
-                    batchSuccess = true;
-                    
-                    console.log(`✅ Batch ${batchIndex} completed successfully`);
-                    
-                    // Add delay between batches to avoid rate limits
-                    if (i + batchSize < structure.sections.length) {
-                        await new Promise(resolve => setTimeout(resolve, retryDelay));
-                    }
-                } catch (error) {
-                    batchAttempt++;
-                    console.error(`❌ Batch ${batchIndex} attempt ${batchAttempt} failed:`, error);
-                    
-                    if (batchAttempt < maxRetries) {
-                        const backoffDelay = retryDelay * Math.pow(2, batchAttempt - 1);
-                        console.log(`⏳ Retrying batch ${batchIndex} in ${backoffDelay}ms...`);
-                        await new Promise(resolve => setTimeout(resolve, backoffDelay));
-                    } else {
-                        console.error(`💥 Batch ${batchIndex} failed after ${maxRetries} attempts`);
-                        // Generate fallback HTML for failed sections
-                        for (let j = 0; j < batch.length; j++) {
-                            const section = batch[j];
-                            const sectionIndex = i + j;
-                            const uniqueClass = `lp-section-${section.type}-${Math.random().toString(36).substring(7)}`;
-                            const fallbackHtml = generateEnhancedFallbackHtml(section, sectionIndex, uniqueClass);
-                            sectionHtmls.push(fallbackHtml);
-                        }
-                        batchSuccess = true; // Continue with fallback
-                    }
+            const batchResults = await Promise.all(batch.map(async (section, batchLocalIndex) => {
+                const sectionIndex = i + batchLocalIndex;
+                const sectionModel = getStepModel('section', routing, usage?.forSection(sectionIndex));
+                const { html, sanitization: report, output } = await generateSectionHtml(section, sectionIndex, structure, section.id, sectionModel);
+                if (report.removed.length > 0) {
+                    sanitization.push({ sectionIndex, ...report });
                 }
+                sectionOutputs.push({ sectionIndex, ...output });
+                return emitSection(sectionIndex, { ...section, html });
+            }));
+            sections.push(...batchResults);
+            
+            console.log(`✅ Batch ${batchIndex} completed successfully`);
+            
+            // Add delay between batches to avoid rate limits
+            if (i + batchSize < structure.sections.length) {
+                await new Promise(resolve => setTimeout(resolve, batchDelay));
             }
         }
         
         console.log(`✅ All sections HTML generated in ${Date.now() - htmlStart}ms`);
 
-        // Step 3: Combine all HTML parts
+        // Step 3: Combine all HTML parts (sections stay available individually on the document)
         console.log('🔧 Step 3: Combining all HTML sections...');
         const combineStart = Date.now();
-        const fullHtmlContent = sectionHtmls.join('\n\n');
+        // Sections are generated separately, so ids are only unique page-wide after this pass
+        const { sections: normalizedSections } = normalizeSectionIds(sections, { source: 'generated LP' });
+        const fullHtmlContent = renderLPDocumentHtml({ sections: normalizedSections });
         console.log(`✅ HTML combined in ${Date.now() - combineStart}ms`);
 
         const totalTime = Date.now() - startTime;
@@ -577,20 +634,76 @@ export async function generateUnifiedLP({ topic }: { topic: string }) {
         const customCSS = generateCustomCSS(structure.colorScheme, structure.designStyle);
         console.log(`✅ Custom CSS generated in ${Date.now() - cssStart}ms`);
 
+        const document: LPDocument = {
+            title: structure.title,
+            description: structure.description,
+            sections: normalizedSections,
+            cssContent: customCSS,
+            colorScheme: structure.colorScheme,
+            designStyle: structure.designStyle,
+        };
+
+        onProgress?.({ type: 'lp-complete', generationId });
+
         // Return the final object
         return {
             htmlContent: fullHtmlContent,
             cssContent: customCSS,
             structure,
+            document,
             metadata: {
                 generationTime: totalTime,
                 sectionCount: structure.sections.length,
-                topic: topic
+                topic: topic,
+                // Unsafe markup removed from the generated sections, by section
+                sanitization,
+                // Whether each section's reply was parsed, repaired or replaced by fallback HTML
+                sectionOutputs: sectionOutputs.sort((a, b) => a.sectionIndex - b.sectionIndex),
+                // Tokens and estimated cost of this generation's model calls
+                usage: usage ? summarizeUsage(usage.entries().slice(usageStart)) : undefined,
             }
         };
     } catch (error) {
         const totalTime = Date.now() - startTime;
         console.error(`❌ LP generation failed after ${totalTime}ms:`, error);
+        onProgress?.({ type: 'lp-complete', generationId });
         throw error;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Regenerates one section of an existing document in place, optionally with
+ * extra instructions or a different layout. Only that section's model call is
+ * made, with the model routed for the `sectionEdit` step.
+ */
+export async function regenerateDocumentSection(
+    document: LPDocument,
+    sectionIndex: number,
+    {
+        instructions,
+        layoutType,
+        routing,
+        usage,
+    }: { instructions?: string; layoutType?: LPLayoutType; routing?: ModelRouting; usage?: UsageRecorder } = {}
+): Promise<{ section: LPDocumentSection; sanitization: SanitizeReport; output: SectionOutputReport }> {
+    const current = document.sections[sectionIndex];
+    if (!current) {
+        throw new Error(`Section with index ${sectionIndex} not found.`);
+    }
+
+    const basePrompt = current.prompt || `${current.type}セクションを作成`;
+    const section: SectionSpec = {
+        type: current.type,
+        prompt: instructions ? `${basePrompt}\n\n追加の指示: ${instructions}` : basePrompt,
+        layoutType: layoutType ?? current.layoutType,
+    };
+
+    console.log(`🔁 Regenerating section ${sectionIndex} (${current.type}, ${section.layoutType})`);
+    const { html, sanitization, output } = await generateSectionHtml(section, sectionIndex, document, current.id, getStepModel('sectionEdit', routing, usage?.forSection(sectionIndex)));
+    const { sections } = normalizeSectionIds(
+        document.sections.map((existing, index) => (index === sectionIndex ? { ...current, html } : existing)),
+        { changed: [sectionIndex], source: `regenerated section ${sectionIndex}` }
+    );
+
+    return { section: { ...current, layoutType: section.layoutType, html: sections[sectionIndex].html }, sanitization, output };
+}
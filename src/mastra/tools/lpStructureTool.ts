@@ -1,34 +1,20 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import { anthropic } from '@ai-sdk/anthropic';
 import { generateObject } from 'ai';
+import { LP_LAYOUT_TYPES, LP_SECTION_TYPES, designStyleSchema, lpSectionSchema, lpStructureSchema } from '../schemas';
+import { getStepModel, type ModelRouting, type UsageRecorder } from '../providers';
 
-// セクション構造のスキーマ
-const SectionSchema = z.object({
-  type: z.enum(['hero', 'features', 'testimonials', 'cta', 'faq', 'footer', 'about', 'pricing', 'contact']),
-  title: z.string(),
-  description: z.string(),
-  priority: z.number().min(1).max(10),
-  content: z.string().optional(),
-});
-
-// LP構造のスキーマ
-const LPStructureSchema = z.object({
-  title: z.string(),
-  description: z.string(),
+// 戦略情報と重要度を必須にしたLP構造のスキーマ
+const StrategyStructureSchema = lpStructureSchema.extend({
   targetAudience: z.string(),
   conversionGoal: z.string(),
-  sections: z.array(SectionSchema).min(3).max(12),
-  colorScheme: z.object({
-    primaryColor: z.string(),
-    accentColor: z.string(),
-    bgColor: z.string(),
-    textColor: z.string(),
-  }),
-  designStyle: z.enum(['modern', 'minimalist', 'corporate', 'creative', 'tech', 'startup']),
+  sections: z.array(lpSectionSchema.extend({ priority: z.number().min(1).max(10) })).min(3).max(12),
 });
 
-export const lpStructureTool = tool({
+/**
+ * Creates the structure tool. The outline uses the model routed for the `structure` step.
+ */
+export const createLpStructureTool = ({ routing, usage }: { routing?: ModelRouting; usage?: UsageRecorder } = {}) => tool({
   description: 'Creates a comprehensive structure and strategy for a landing page based on the business topic and goals.',
   parameters: z.object({
     topic: z.string().describe('The main business topic or product/service for the landing page.'),
@@ -36,7 +22,7 @@ export const lpStructureTool = tool({
     businessGoal: z.string().optional().describe('Primary business goal (e.g., lead generation, sales, sign-ups).'),
     industry: z.string().optional().describe('Industry or business category.'),
     competitiveAdvantage: z.string().optional().describe('Unique selling proposition or competitive advantage.'),
-    designPreference: z.enum(['modern', 'minimalist', 'corporate', 'creative', 'tech', 'startup']).optional().default('modern'),
+    designPreference: designStyleSchema.optional().default('modern'),
   }),
   execute: async ({ 
     topic, 
@@ -74,11 +60,12 @@ export const lpStructureTool = tool({
 - Footer: 必要な情報
 
 各セクションには以下を含める：
-- type: セクションタイプ
+- type: セクションタイプ（${LP_SECTION_TYPES.join(', ')}）
 - title: セクションタイトル
 - description: セクションの説明・目的
 - priority: 重要度（1-10）
-- content: 具体的なコンテンツ指示
+- prompt: 具体的なコンテンツ・デザインの生成指示
+- layoutType: レイアウトタイプ（${LP_LAYOUT_TYPES.join(', ')}）
 
 # カラースキーム要件
 - ブランドに適した配色
@@ -89,12 +76,13 @@ export const lpStructureTool = tool({
 JSON形式で構造化された設計を出力してください。`;
 
     try {
+      const { model, temperature, maxTokens } = getStepModel('structure', routing, usage);
       const { object: structure } = await generateObject({
-        model: anthropic('claude-3-5-sonnet-20241022'),
-        schema: LPStructureSchema,
+        model,
+        schema: StrategyStructureSchema,
         prompt: prompt,
-        maxTokens: 3000,
-        temperature: 0.7,
+        maxTokens: maxTokens ?? 3000,
+        temperature: temperature ?? 0.7,
       });
 
       console.log('✅ LP Structure generated successfully:', structure.title);
@@ -123,21 +111,21 @@ JSON形式で構造化された設計を出力してください。`;
             title: 'Hero Section',
             description: `Compelling introduction for ${topic}`,
             priority: 10,
-            content: `Create an impactful hero section that immediately communicates the value of ${topic}`,
+            prompt: `Create an impactful hero section that immediately communicates the value of ${topic}`,
           },
           {
             type: 'features' as const,
             title: 'Key Features',
             description: `Main features and benefits of ${topic}`,
             priority: 9,
-            content: `Highlight the most important features and benefits`,
+            prompt: `Highlight the most important features and benefits`,
           },
           {
             type: 'cta' as const,
             title: 'Call to Action',
             description: 'Drive conversions with clear CTA',
             priority: 10,
-            content: 'Strong call-to-action to achieve the business goal',
+            prompt: 'Strong call-to-action to achieve the business goal',
           },
         ],
         colorScheme: {
@@ -146,7 +134,7 @@ JSON形式で構造化された設計を出力してください。`;
           bgColor: '#F5F7FA',
           textColor: '#333333',
         },
-        designStyle: designPreference as any,
+        designStyle: designPreference,
       };
 
       return {
@@ -161,4 +149,6 @@ JSON形式で構造化された設計を出力してください。`;
       };
     }
   }
-});
\ No newline at end of file
+});
+
+export const lpStructureTool = createLpStructureTool();
\ No newline at end of file
@@ -1,8 +1,10 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import { createAnthropic } from '@ai-sdk/anthropic';
 import { generateText } from 'ai';
 import { JSDOM } from 'jsdom';
+import { normalizeLPHtml } from '../normalization';
+import { getStepModel, type ModelRouting, type UsageRecorder } from '../providers';
+import { getSectionIndexFromElementId } from '../schemas';
 
 export const partialUpdateMastraTool = tool({
   description: 'Updates specific elements in the landing page by modifying their content while preserving the overall structure.',
@@ -56,13 +58,17 @@ export const partialUpdateMastraTool = tool({
         }
       }
       
+      // ページ全体がツール引数として渡されるため、返す前にまとめて無害化する
+      const { html: sanitizedHTML, sanitization } = normalizeLPHtml(updatedHTML, { source: 'partialUpdateMastraTool', keepDocument: true });
+      
       console.log(`✅ Partial Update completed for element: ${elementId}`);
       
       return {
         success: true,
         elementId: elementId,
         updatedContent: newContent,
-        htmlContent: updatedHTML,
+        htmlContent: sanitizedHTML,
+        sanitization,
         message: `要素 "${elementId}" が正常に更新されました`
       };
       
@@ -79,8 +85,8 @@ export const partialUpdateMastraTool = tool({
   }
 });
 
-// AI駆動の高度な部分更新ツール（将来の拡張用）
-export const aiPartialUpdateTool = tool({
+// AI駆動の高度な部分更新ツール（将来の拡張用）。新しい文章は copy ステップのモデルで生成する
+export const createAiPartialUpdateTool = ({ routing, usage }: { routing?: ModelRouting; usage?: UsageRecorder } = {}) => tool({
   description: 'Uses AI to intelligently update landing page elements while maintaining design consistency and context.',
   parameters: z.object({
     elementId: z.string().describe('The data-editable-id of the element to update'),
@@ -134,18 +140,26 @@ ${context || 'なし'}
 
 新しいコンテンツ:`;
 
+      // 使用量は要素 ID が示すセクションに計上する
+      const sectionIndex = getSectionIndexFromElementId(elementId);
+      const copyUsage = sectionIndex !== null ? usage?.forSection(sectionIndex) : usage;
+      const { model, temperature, maxTokens } = getStepModel('copy', routing, copyUsage);
       const { text: newContent } = await generateText({
-        model: createAnthropic()('claude-3-5-sonnet-20241022'),
+        model,
         prompt: prompt,
-        maxTokens: 500,
-        temperature: 0.7,
+        maxTokens: maxTokens ?? 500,
+        temperature: temperature ?? 0.7,
       });
       
       // 生成されたコンテンツで要素を更新
       targetElement.textContent = newContent.trim();
       
-      // 更新されたHTMLを取得
-      const updatedHTML = dom.serialize();
+      // 更新されたHTMLを取得（完全なドキュメントでなければbody内のみを返す）
+      const updatedHTML = htmlContent.trim().startsWith('<!DOCTYPE') || htmlContent.trim().startsWith('<html')
+        ? dom.serialize()
+        : doc.body?.innerHTML || dom.serialize();
+      
+      const { html: sanitizedHTML, sanitization } = normalizeLPHtml(updatedHTML, { source: 'aiPartialUpdateTool', keepDocument: true });
       
       console.log(`✅ AI Partial Update completed for element: ${elementId}`);
       
@@ -154,7 +168,8 @@ ${context || 'なし'}
         elementId: elementId,
         originalContent: currentContent,
         updatedContent: newContent.trim(),
-        htmlContent: updatedHTML,
+        htmlContent: sanitizedHTML,
+        sanitization,
         message: `AI により要素 "${elementId}" が改善されました`
       };
       
@@ -169,4 +184,6 @@ ${context || 'なし'}
       };
     }
   }
-});
\ No newline at end of file
+});
+
+export const aiPartialUpdateTool = createAiPartialUpdateTool();
\ No newline at end of file
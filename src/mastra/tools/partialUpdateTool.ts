@@ -1,39 +1,48 @@
-import { createAnthropic } from '@ai-sdk/anthropic';
 import { generateObject } from 'ai';
-import { z } from 'zod';
-
-// Previously defined schemas (can be imported from lpGeneratorTool if refactored)
-const sectionSchema = z.object({
-  type: z.enum(['hero', 'features', 'testimonials', 'cta', 'faq', 'footer']),
-  prompt: z.string().describe('A detailed prompt for the AI to generate this specific section.'),
-});
-
-const lpStructureSchema = z.object({
-  sections: z.array(sectionSchema).describe('An array of sections that make up the landing page.'),
-});
-
-const sectionHtmlSchema = z.object({
-  html: z.string().describe('The HTML content for the section, styled with Tailwind CSS.'),
-});
+import {
+  findSectionIndexByElementId,
+  renderLPDocumentHtml,
+  replaceLPSection,
+  sectionHtmlSchema,
+  type LPDocument,
+  type LPDocumentSection,
+} from '../schemas';
+import { normalizeLPHtml, normalizeSectionIds, repairHtmlObjectText } from '../normalization';
+import { getStepModel, type ModelRouting, type UsageRecorder } from '../providers';
+import type { SanitizeReport } from '../security';
 
 /**
  * Regenerates a specific section of the landing page based on a modification prompt.
  */
-async function regenerateSectionHtml(section: z.infer<typeof sectionSchema>, modificationPrompt: string, sectionIndex: number) {
+async function regenerateSectionHtml(
+  section: LPDocumentSection,
+  modificationPrompt: string,
+  sectionIndex: number,
+  routing?: ModelRouting,
+  usage?: UsageRecorder
+) {
+  const { model, temperature, maxTokens } = getStepModel('sectionEdit', routing, usage?.forSection(sectionIndex));
   const { object } = await generateObject({
-    model: createAnthropic()('claude-3-5-sonnet-20240620'),
+    model,
     schema: sectionHtmlSchema,
+    temperature,
+    maxTokens,
+    // generateSectionHtml と同じく、壊れた JSON の返答は修復してから検証する
+    experimental_repairText: async ({ text }) => repairHtmlObjectText(text),
     prompt: `You are tasked with modifying a specific section of an existing landing page. 
     The user wants to change an element within this section.
 
     **Original Section Prompt:**
     ${section.prompt}
 
+    **Current Section HTML:**
+    ${section.html}
+
     **User's Modification Request:**
     ${modificationPrompt}
 
     Based on the user's request, regenerate the HTML for this entire section, incorporating the change. 
-    Maintain the overall structure and style of the section.
+    Maintain the overall structure and style of the section, and keep the "${section.id}" class on the root element.
     
     *** IMPORTANT INSTRUCTION ***
     For every editable element (like headings, paragraphs, buttons, list items), add a unique 'data-editable-id' attribute. The ID should be structured as 'section-${sectionIndex}-element-ELEMENT_INDEX', where ELEMENT_INDEX starts from 0 for each section. For example: 'data-editable-id="section-${sectionIndex}-element-0"', 'data-editable-id="section-${sectionIndex}-element-1"'.
@@ -43,27 +52,38 @@ async function regenerateSectionHtml(section: z.infer<typeof sectionSchema>, mod
   return object.html;
 }
 
-export async function partialUpdateLP({ 
+/**
+ * Regenerates only the section containing the selected element. The other
+ * sections are taken unchanged from the document, so this costs one model call
+ * (the `sectionEdit` step of `routing`).
+ */
+export async function partialUpdateLP<T extends { document: LPDocument }>({ 
   currentLP, 
   modificationPrompt, 
-  selectedElementId 
+  selectedElementId,
+  routing,
+  usage,
 }: {
-  currentLP: z.infer<typeof lpStructureSchema> & { htmlContent: string };
+  currentLP: T;
   modificationPrompt: string;
   selectedElementId: string;
-}) {
+  routing?: ModelRouting;
+  usage?: UsageRecorder;
+}): Promise<T & { htmlContent: string; sanitization: SanitizeReport }> {
   console.log('--- Starting Partial LP Update ---');
   console.log('Selected Element ID:', selectedElementId);
 
+  if (!currentLP.document) {
+    throw new Error('The current LP has no section document to update.');
+  }
+
   // 1. Identify which section the selected element belongs to.
-  const match = selectedElementId.match(/section-(\d+)-element-\d+/);
-  if (!match || match.length < 2) { // matchがnull、または期待するキャプチャグループがない場合
-    console.error('Invalid selectedElementId format:', selectedElementId);
-    throw new Error(`Invalid selectedElementId format: ${selectedElementId}. Expected format like 'section-X-element-Y'.`);
+  const sectionIndexToUpdate = findSectionIndexByElementId(currentLP.document, selectedElementId);
+  if (sectionIndexToUpdate === null) {
+    console.error('Unknown selectedElementId:', selectedElementId);
+    throw new Error(`Element ${selectedElementId} was not found in any section.`);
   }
-  // 要素IDのパース処理を継続
-  const sectionIndexToUpdate = parseInt(match[1], 10);
-  const sectionToUpdate = currentLP.sections[sectionIndexToUpdate];
+  const sectionToUpdate = currentLP.document.sections[sectionIndexToUpdate];
 
   if (!sectionToUpdate) {
     throw new Error(`Section with index ${sectionIndexToUpdate} not found.`);
@@ -72,38 +92,24 @@ export async function partialUpdateLP({
 
   // 2. Regenerate the HTML for only that section.
   console.log('Regenerating HTML for the section...');
-  const updatedSectionHtml = await regenerateSectionHtml(sectionToUpdate, modificationPrompt, sectionIndexToUpdate);
+  const { html: updatedSectionHtml, sanitization } = normalizeLPHtml(
+    await regenerateSectionHtml(sectionToUpdate, modificationPrompt, sectionIndexToUpdate, routing, usage),
+    { sectionIndex: sectionIndexToUpdate, source: `partialUpdateLP section ${sectionIndexToUpdate}` }
+  );
 
-  // 3. Reconstruct the full HTML by replacing the old section with the new one.
+  // 3. Swap the section into the document and re-render the full HTML.
   console.log('Reconstructing full HTML...');
-  const allSectionsHtml = await Promise.all(currentLP.sections.map(async (section, index) => {
-    if (index === sectionIndexToUpdate) {
-      return updatedSectionHtml;
-    }
-    // This is a simplification. In a real scenario, you'd re-generate or have the original HTML available.
-    // For now, we assume the original `htmlContent` is a join of all sections and we can't easily split it.
-    // So, we must regenerate the other sections as well to be safe.
-    // A better approach would be to store each section's HTML separately.
-    const { object } = await generateObject({
-        model: createAnthropic()('claude-3-5-sonnet-20240620'),
-        schema: sectionHtmlSchema,
-        prompt: `Generate the HTML for a landing page section based on the following prompt. Use Tailwind CSS for styling. Make it visually appealing and responsive. 
-
-    *** IMPORTANT INSTRUCTION ***
-    For every editable element (like headings, paragraphs, buttons, list items), add a unique 'data-editable-id' attribute. The ID should be structured as 'section-${index}-element-ELEMENT_INDEX', where ELEMENT_INDEX starts from 0 for each section. For example: 'data-editable-id="section-${index}-element-0"', 'data-editable-id="section-${index}-element-1"'.
-
-    Do not include <html>, <head>, or <body> tags. Only generate the content for this specific section.
-
-    Prompt: ${section.prompt}`,
-    });
-    return object.html;
-  }));
-
-  const fullHtmlContent = allSectionsHtml.join('\n');
+  const document = replaceLPSection(currentLP.document, sectionIndexToUpdate, { html: updatedSectionHtml });
+  const { sections } = normalizeSectionIds(document.sections, {
+    changed: [sectionIndexToUpdate],
+    source: `partialUpdateLP section ${sectionIndexToUpdate}`,
+  });
 
   const updatedLP = {
     ...currentLP,
-    htmlContent: fullHtmlContent,
+    document: { ...document, sections },
+    htmlContent: renderLPDocumentHtml({ sections }),
+    sanitization,
   };
 
   console.log('--- Partial LP Update Finished ---');
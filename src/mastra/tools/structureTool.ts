@@ -1,51 +1,50 @@
-import { createAnthropic } from '@ai-sdk/anthropic';
 import { generateObject } from 'ai';
 import { z } from 'zod';
+import { getStepModel, type ModelRouting, type UsageRecorder } from '../providers';
+import { LP_LAYOUT_TYPES, LP_SECTION_TYPES, lpSectionSchema, lpStructureSchema, type LPStructure } from '../schemas';
 
-// Define the schema for a single section of the LP
-const sectionSchema = z.object({
-  type: z.enum(['hero', 'features', 'testimonials', 'cta', 'faq', 'footer']).describe('The type of section'),
-  title: z.string().describe('A clear, concise title for this section'),
-  description: z.string().describe('A detailed description of what this section will contain'),
+// The confirmation step proposes a short outline of 3-8 sections
+const proposalStructureSchema = lpStructureSchema.extend({
+  sections: z.array(lpSectionSchema).min(3).max(8).describe('An array of sections that make up the landing page.'),
 });
 
-// Define the schema for the overall LP structure
-const lpStructureSchema = z.object({
-  title: z.string().describe('The main title/heading for the landing page'),
-  sections: z.array(sectionSchema).min(3).max(8).describe('An array of sections that make up the landing page.'),
-});
-
-type LPStructure = z.infer<typeof lpStructureSchema>;
-
 /**
- * Generates the overall structure (outline) of the landing page as a JSON object.
+ * Generates the overall structure (outline) of the landing page as a JSON object,
+ * with the model routed for the `structure` step.
  */
-export async function generateLPStructure(topic: string): Promise<LPStructure> {
+export async function generateLPStructure(topic: string, routing?: ModelRouting, usage?: UsageRecorder): Promise<LPStructure> {
+  const { model, temperature, maxTokens } = getStepModel('structure', routing, usage);
   try {
     const { object: structure } = await generateObject({
-      model: createAnthropic()('claude-3-5-sonnet-20240620'),
-      schema: lpStructureSchema,
-      maxTokens: 1500,
-      temperature: 0.7,
-      prompt: `You must create a JSON object with a "title" and "sections" array for a landing page about: "${topic}".
+      model,
+      schema: proposalStructureSchema,
+      maxTokens: maxTokens ?? 1500,
+      temperature: temperature ?? 0.7,
+      prompt: `You must create a JSON object with a "title", "description" and "sections" array for a landing page about: "${topic}".
 
 The structure should include:
 - "title": The main page title/heading
+- "description": A brief description of the landing page purpose
 - "sections": An array of sections
 
 Each section must have:
-- "type": one of ["hero", "features", "testimonials", "cta", "faq", "footer"]
+- "type": one of [${LP_SECTION_TYPES.map(type => `"${type}"`).join(', ')}]
 - "title": A clear, concise title for this section (e.g., "Hero Section", "Key Features", "Customer Testimonials")
 - "description": A detailed description of what this section will contain
+- "prompt": A detailed instruction for generating this section's content and design
+- "layoutType": one of [${LP_LAYOUT_TYPES.map(type => `"${type}"`).join(', ')}]
 
 Example structure:
 {
   "title": "AI Photo Editor Pro",
+  "description": "Landing page for an AI-powered photo editing app",
   "sections": [
     {
       "type": "hero",
       "title": "Hero Section",
-      "description": "Compelling headline, subheading, hero image, and primary call-to-action button to capture visitor attention"
+      "description": "Compelling headline, subheading, hero image, and primary call-to-action button to capture visitor attention",
+      "prompt": "Create a bold hero with a headline about effortless AI photo editing, a short subheading, a before/after visual and a 'Try it free' button",
+      "layoutType": "image-right"
     },
     {
       "type": "features", 
@@ -72,26 +71,26 @@ Create a complete landing page structure with 4-6 sections that makes sense for
     return structure;
   } catch (error) {
     console.error('❌ Structure generation failed:', error);
-    // Fallback structure
-    return {
+    // Fallback structure (defaults filled in by the shared schema)
+    return lpStructureSchema.parse({
       title: `${topic} Landing Page`,
       sections: [
         {
-          type: 'hero' as const,
+          type: 'hero',
           title: 'Hero Section',
           description: `Compelling hero section for ${topic} with headline, subheading, and call-to-action button`
         },
         {
-          type: 'features' as const,
+          type: 'features',
           title: 'Key Features',
           description: `Showcase the main features and benefits of ${topic}`
         },
         {
-          type: 'cta' as const,
+          type: 'cta',
           title: 'Call to Action',
           description: `Encouraging call-to-action section for ${topic}`
         }
       ]
-    };
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { expect, test } from '@playwright/test';
+import { JSDOM } from 'jsdom';
+import { normalizeSectionIds } from '../../src/mastra/normalization';
+import { ensureEditableIds } from '../../src/mastra/normalization/editableIds';
+import { findSectionIndexByElementId } from '../../src/mastra/schemas';
+
+const parse = (html: string) => new JSDOM(`<body>${html}</body>`).window.document.body;
+const idsOf = (root: Element) =>
+  Array.from(root.querySelectorAll('[data-editable-id]')).map(element => element.getAttribute('data-editable-id'));
+
+test.describe('ensureEditableIds', () => {
+  test('gives text, buttons, links and images ids but not their inline children', () => {
+    const body = parse(`<section>
+      <div class="badge">新着</div>
+      <p>本文 <strong>強調</strong></p>
+      <a href="#"><span>リンク</span></a>
+      <button>送信</button>
+      <img src="/a.png" alt="">
+      <svg><text>icon</text></svg>
+    </section>`);
+    ensureEditableIds([{ container: body, sectionIndex: 0 }]);
+
+    expect(body.querySelector('.badge')?.getAttribute('data-editable-id')).toBe('section-0-element-0');
+    expect(body.querySelector('p')?.getAttribute('data-editable-id')).toBe('section-0-element-1');
+    expect(body.querySelector('a')?.getAttribute('data-editable-id')).toBe('section-0-element-2');
+    expect(body.querySelector('button')?.getAttribute('data-editable-id')).toBe('section-0-element-3');
+    expect(body.querySelector('img')?.getAttribute('data-editable-id')).toBe('section-0-element-4');
+    expect(body.querySelector('strong')?.hasAttribute('data-editable-id')).toBe(false);
+    expect(body.querySelector('span')?.hasAttribute('data-editable-id')).toBe(false);
+    expect(body.querySelector('text')?.hasAttribute('data-editable-id')).toBe(false);
+  });
+
+  test('assigns the same ids every time', () => {
+    const html = '<section><h2>A</h2><p data-editable-id="x">B</p><p data-editable-id="x">C</p></section>';
+    const first = parse(html);
+    const second = parse(html);
+    ensureEditableIds([{ container: first, sectionIndex: 2 }]);
+    ensureEditableIds([{ container: second, sectionIndex: 2 }]);
+
+    expect(first.innerHTML).toBe(second.innerHTML);
+    expect(idsOf(first)).toEqual(['section-2-root', 'section-2-element-0', 'x', 'section-2-element-1']);
+  });
+
+  test('leaves pages with unique ids untouched', () => {
+    const html = '<section data-editable-id="hero"><h1 data-editable-id="hero-title">A</h1></section>';
+    const body = parse(html);
+
+    expect(ensureEditableIds([{ container: body, sectionIndex: 0 }])).toEqual([]);
+    expect(body.innerHTML).toBe(html);
+  });
+});
+
+test.describe('normalizeSectionIds', () => {
+  test('makes ids unique across sections, keeping those of unchanged sections', () => {
+    const sections = [
+      { html: '<section data-editable-id="section-0-root"><h2 data-editable-id="section-0-element-0">A</h2></section>' },
+      { html: '<section data-editable-id="section-0-root"><h2 data-editable-id="section-0-element-0">B</h2></section>' },
+    ];
+    const result = normalizeSectionIds(sections, { changed: [0] });
+
+    expect(result.sections[1]).toBe(sections[1]);
+    expect(idsOf(parse(result.sections[0].html))).toEqual(['section-0-element-1', 'section-0-element-2']);
+  });
+});
+
+test.describe('findSectionIndexByElementId', () => {
+  const document = {
+    sections: [
+      { html: '<section data-editable-id="section-0-root"><h1 data-editable-id="hero-title">A</h1></section>' },
+      { html: '<section data-editable-id="section-1-root"><p data-editable-id="section-0-element-3">B</p></section>' },
+    ],
+  };
+
+  test('finds root ids and ids that do not follow the numbering', () => {
+    expect(findSectionIndexByElementId(document, 'section-1-root')).toBe(1);
+    expect(findSectionIndexByElementId(document, 'hero-title')).toBe(0);
+    expect(findSectionIndexByElementId(document, 'section-0-element-3')).toBe(1);
+  });
+
+  test('falls back to the index encoded in unknown ids', () => {
+    expect(findSectionIndexByElementId(document, 'section-4-element-0')).toBe(4);
+    expect(findSectionIndexByElementId(document, 'unknown')).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { expect, test } from '@playwright/test';
+import { generateText, streamText } from 'ai';
+import {
+  getFailoverReport,
+  getModelWithFailover,
+  getStepModel,
+  resetCircuitBreakers,
+  UNAVAILABLE_MOCK_MODEL,
+} from '../../src/mastra/providers';
+import { generateUnifiedLP } from '../../src/mastra/tools';
+
+const unavailable = { provider: 'mock', modelName: UNAVAILABLE_MOCK_MODEL } as const;
+const backup = { provider: 'mock', modelName: 'mock-backup' } as const;
+
+test.describe('provider failover', () => {
+  // Failover is disabled while a provider is forced for the whole app
+  let forcedProvider: string | undefined;
+  test.beforeEach(() => {
+    forcedProvider = process.env.LP_CREATOR_LLM_PROVIDER;
+    delete process.env.LP_CREATOR_LLM_PROVIDER;
+    resetCircuitBreakers();
+  });
+  test.afterEach(() => {
+    if (forcedProvider !== undefined) process.env.LP_CREATOR_LLM_PROVIDER = forcedProvider;
+    delete process.env.LP_CREATOR_CIRCUIT_FAILURES;
+    delete process.env.LP_CREATOR_CIRCUIT_COOLDOWN_MS;
+    resetCircuitBreakers();
+  });
+
+  test('answers from the next model when the first one fails', async () => {
+    const { providerMetadata } = await generateText({
+      model: getModelWithFailover(unavailable, [backup]),
+      prompt: 'hero セクション',
+    });
+
+    expect(getFailoverReport(providerMetadata)).toEqual({
+      provider: 'mock',
+      modelId: 'mock-backup',
+      failedOver: true,
+      skipped: [{ model: 'mock:unavailable', reason: 'Mock model is unavailable' }],
+    });
+  });
+
+  test('reports the model that answered a stream on its finish part', async () => {
+    const result = streamText({ model: getModelWithFailover(unavailable, [backup]), prompt: 'hero' });
+    await result.consumeStream();
+
+    expect(getFailoverReport(await result.providerMetadata)).toMatchObject({ modelId: 'mock-backup', failedOver: true });
+  });
+
+  test('stops calling a model once its circuit is open', async () => {
+    process.env.LP_CREATOR_CIRCUIT_FAILURES = '2';
+    const model = getModelWithFailover(unavailable, [backup]);
+
+    await generateText({ model, prompt: 'hero' });
+    await generateText({ model, prompt: 'hero' });
+    const { providerMetadata } = await generateText({ model, prompt: 'hero' });
+
+    expect(getFailoverReport(providerMetadata)?.skipped).toEqual([{ model: 'mock:unavailable', reason: 'circuit open' }]);
+  });
+
+  test('lets a single trial call through once the cooldown has passed', async () => {
+    process.env.LP_CREATOR_CIRCUIT_FAILURES = '1';
+    process.env.LP_CREATOR_CIRCUIT_COOLDOWN_MS = '1';
+    const model = getModelWithFailover(unavailable, [backup]);
+    const options = {
+      inputFormat: 'prompt',
+      mode: { type: 'regular' },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hero' }] }],
+    } satisfies Parameters<typeof model.doGenerate>[0];
+
+    await model.doGenerate(options);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const results = await Promise.all([model.doGenerate(options), model.doGenerate(options)]);
+
+    expect(results.map(result => getFailoverReport(result.providerMetadata)?.skipped[0].reason)).toEqual([
+      'Mock model is unavailable',
+      'circuit open',
+    ]);
+  });
+
+  test('throws the last error when every model fails', async () => {
+    const model = getModelWithFailover(unavailable, [{ provider: 'mock', modelName: `${UNAVAILABLE_MOCK_MODEL}-backup` }]);
+    await expect(generateText({ model, prompt: 'hero', maxRetries: 0 })).rejects.toThrow('Mock model is unavailable');
+  });
+
+  test('does not fail over when the step has no fallbacks configured', async () => {
+    const { model } = getStepModel('section', { section: unavailable });
+    await expect(generateText({ model, prompt: 'hero', maxRetries: 0 })).rejects.toThrow('Mock model is unavailable');
+  });
+
+  test('reports which sections came from failover models or fallback HTML', async () => {
+    const structure = { provider: 'mock', modelName: 'mock-structure' } as const;
+
+    const failedOver = await generateUnifiedLP({
+      topic: 'テスト',
+      routing: { structure, section: { ...unavailable, fallbacks: [backup] } },
+    });
+    expect(failedOver.metadata.sectionOutputs.map(output => [output.status, output.model, output.failedOver])).toEqual(
+      Array(4).fill(['parsed', 'mock:mock-backup', true])
+    );
+
+    const placeholders = await generateUnifiedLP({
+      topic: 'テスト',
+      routing: { structure, section: { ...unavailable, fallbacks: [] } },
+    });
+    expect(placeholders.metadata.sectionOutputs.map(output => output.status)).toEqual(Array(4).fill('fallback'));
+    expect(placeholders.document.sections[0].html).toContain('このセクションは生成できませんでした');
+  });
+});
@@ -0,0 +1,80 @@
+import { test, expect } from '@playwright/test';
+import { JSDOM } from 'jsdom';
+import { colorSchemeSchema } from '../../src/mastra/schemas';
+import {
+  isSafeUrl,
+  sanitizeCssContent,
+  sanitizeDocument,
+  sanitizeHtml,
+  summarizeSanitizeReport,
+} from '../../src/mastra/security';
+
+const { document } = new JSDOM('<body></body>').window;
+
+test.describe('htmlSanitizer', () => {
+  test('drops scripts, event handlers and javascript: URLs but keeps the content', () => {
+    const { html, report } = sanitizeHtml(
+      '<section class="py-16"><script>alert(1)</script><img src="x.png" onerror="alert(1)"><a href="javascript:alert(1)">Link</a><custom-tag>Text</custom-tag></section>',
+      document
+    );
+
+    expect(html).toBe('<section class="py-16"><img src="x.png"><a>Link</a>Text</section>');
+    expect(summarizeSanitizeReport(report)).toBe('<script> ×1, onerror ×1, href ×1, <custom-tag> ×1');
+  });
+
+  test('allows image data URLs and rejects other schemes', () => {
+    expect(isSafeUrl('data:image/png;base64,AAAA')).toBe(true);
+    expect(isSafeUrl('/images/hero.png')).toBe(true);
+    expect(isSafeUrl('data:text/html,<script>alert(1)</script>')).toBe(false);
+    expect(isSafeUrl(' java\tscript:alert(1)')).toBe(false);
+  });
+
+  test('removes scriptable CSS from style attributes and elements', () => {
+    const { html } = sanitizeHtml(
+      '<div style="background: url(javascript:alert(1))">A</div><style>p { width: expression(alert(1)) }</style><p style="color: red">B</p>',
+      document
+    );
+
+    expect(html).toBe('<div>A</div><p style="color: red">B</p>');
+  });
+
+  test('keeps only the trusted Tailwind script in a document head', () => {
+    const page = new JSDOM(`<!DOCTYPE html><html><head>
+      <script src="https://cdn.tailwindcss.com"></script>
+      <script src="https://evil.example/x.js"></script>
+      <meta http-equiv="refresh" content="0;url=https://evil.example">
+      <style>body { color: #333; }</style>
+    </head><body onload="alert(1)"><p>Hi</p></body></html>`).window.document;
+
+    sanitizeDocument(page);
+
+    expect(Array.from(page.head.querySelectorAll('script'), script => script.getAttribute('src'))).toEqual(['https://cdn.tailwindcss.com']);
+    expect(page.head.querySelector('meta')).toBeNull();
+    expect(page.head.querySelector('style')).not.toBeNull();
+    expect(page.body.hasAttribute('onload')).toBe(false);
+  });
+
+  test('drops markup around page CSS', () => {
+    const { html, report } = sanitizeCssContent(
+      '<style>:root { --primary-color: #000; }</style><script>alert(1)</script>'
+    );
+
+    expect(html).toBe('<style>\n:root { --primary-color: #000; }\n</style>');
+    expect(report.removed.map(removal => removal.reason)).toEqual(['disallowed-element']);
+  });
+
+  test('keeps page CSS from closing its style element', () => {
+    const { html, report } = sanitizeCssContent('a::after { content: "</style><script>alert(1)</script>"; }');
+
+    expect(html).not.toContain('<script');
+    expect(html.match(/<\/style>/g)).toHaveLength(1);
+    expect(report.removed.map(removal => removal.reason)).toEqual(['unsafe-style']);
+    expect(sanitizeCssContent(html).html).toBe(html);
+  });
+
+  test('accepts only plain color values in color schemes', () => {
+    const colors = { primaryColor: '#0056B1', accentColor: 'rgb(255, 180, 0)', bgColor: 'hsl(210 20% 97%)', textColor: '#333' };
+    expect(colorSchemeSchema.safeParse(colors).success).toBe(true);
+    expect(colorSchemeSchema.safeParse({ ...colors, primaryColor: 'red;}</style><script>alert(1)</script>' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,3 @@
+// The storage client reads its URL on import, so specs that use storage import
+// this first to work on a throwaway in-memory database
+process.env.LP_CREATOR_DB_URL = ':memory:';
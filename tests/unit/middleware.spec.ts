@@ -0,0 +1,32 @@
+import { expect, test } from '@playwright/test';
+import { NextRequest } from 'next/server';
+import { middleware } from '../../middleware';
+import { USAGE_USER_COOKIE, USAGE_USER_HEADER } from '../../src/mastra/storage/usageUser';
+
+// NextResponse.next({ request: { headers } }) passes the rewritten request headers on with this prefix
+const forwardedUserId = (response: Response) => response.headers.get(`x-middleware-request-${USAGE_USER_HEADER}`);
+
+test.describe('usage user middleware', () => {
+  test('issues a user cookie and forwards it as the user header', () => {
+    const response = middleware(new NextRequest('http://localhost/api/lp-creator/chat'));
+
+    const userId = forwardedUserId(response);
+    expect(userId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.cookies.get(USAGE_USER_COOKIE)?.value).toBe(userId);
+  });
+
+  test('keeps the cookie of a returning browser', () => {
+    const response = middleware(new NextRequest('http://localhost/', { headers: { cookie: `${USAGE_USER_COOKIE}=user-a` } }));
+
+    expect(forwardedUserId(response)).toBe('user-a');
+    expect(response.cookies.get(USAGE_USER_COOKIE)).toBeUndefined();
+  });
+
+  test('ignores a user header sent by the client', () => {
+    const response = middleware(new NextRequest('http://localhost/api/usage/monthly', {
+      headers: { cookie: `${USAGE_USER_COOKIE}=user-a`, [USAGE_USER_HEADER]: 'user-b' },
+    }));
+
+    expect(forwardedUserId(response)).toBe('user-a');
+  });
+});
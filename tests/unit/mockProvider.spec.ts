@@ -0,0 +1,53 @@
+import { expect, test } from '@playwright/test';
+import { generateText } from 'ai';
+import { JSDOM } from 'jsdom';
+import { getModel } from '../../src/mastra/providers';
+import { createEnhancedLPGeneratorTool, generateLPStructure, generateUnifiedLP, partialUpdateLP } from '../../src/mastra/tools';
+
+process.env.LP_CREATOR_LLM_PROVIDER = 'mock';
+
+test.describe('mock provider', () => {
+  test('answers every model through the registry when forced', () => {
+    const model = getModel({ provider: 'claude', modelName: 'claude-3-5-sonnet-20241022' });
+    expect(model.provider).toBe('mock');
+  });
+
+  test('plans a structure from the fixtures', async () => {
+    const structure = await generateLPStructure('テスト');
+    expect(structure.sections.map(section => section.type)).toEqual(['hero', 'features', 'testimonials', 'cta']);
+  });
+
+  test('runs generation and a partial update offline', async () => {
+    const lp = await generateUnifiedLP({ topic: 'テスト' });
+    const body = new JSDOM(`<body>${lp.htmlContent}</body>`).window.document.body;
+    const ids = Array.from(body.querySelectorAll('[data-editable-id]')).map(element => element.getAttribute('data-editable-id'));
+
+    expect(lp.document.sections).toHaveLength(4);
+    expect(lp.metadata.sectionOutputs.map(output => output.status)).toEqual(['parsed', 'parsed', 'parsed', 'parsed']);
+    expect(body.querySelector('h1')?.textContent).toBe('作業時間を半分に');
+    expect(new Set(ids).size).toBe(ids.length);
+
+    const updated = await partialUpdateLP({
+      currentLP: lp,
+      modificationPrompt: 'ボタンの文言を変えてください',
+      selectedElementId: 'section-3-root',
+    });
+    expect(updated.document.sections[3].html).toContain('無料トライアルに登録');
+    expect(updated.document.sections[0]).toEqual(lp.document.sections[0]);
+  });
+
+  test('calls the generator tool on the first chat turn', async () => {
+    const result = await generateText({
+      model: getModel(),
+      tools: { enhancedLPGeneratorTool: createEnhancedLPGeneratorTool() },
+      maxSteps: 2,
+      prompt: 'カフェのランディングページを作って',
+    });
+
+    expect(result.steps[0].toolCalls[0]).toMatchObject({
+      toolName: 'enhancedLPGeneratorTool',
+      args: { topic: 'カフェのランディングページを作って' },
+    });
+    expect(result.text).toBe('ランディングページを作成しました。プレビューで内容を確認してください。');
+  });
+});
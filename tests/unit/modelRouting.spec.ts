@@ -0,0 +1,65 @@
+import { expect, test } from '@playwright/test';
+import { getStepModel, mergeModelRouting, modelRoutingSchema, type ModelRouting } from '../../src/mastra/providers';
+import { generateUnifiedLP, partialUpdateLP } from '../../src/mastra/tools';
+
+const mockRouting: ModelRouting = {
+  structure: { provider: 'mock', modelName: 'mock-structure' },
+  section: { provider: 'mock', modelName: 'mock-section', temperature: 0.2, maxTokens: 1200 },
+  sectionEdit: { provider: 'mock', modelName: 'mock-edit' },
+};
+
+test.describe('model routing', () => {
+  // Routing is only observable when no provider is forced for the whole app
+  let forcedProvider: string | undefined;
+  test.beforeEach(() => {
+    forcedProvider = process.env.LP_CREATOR_LLM_PROVIDER;
+    delete process.env.LP_CREATOR_LLM_PROVIDER;
+  });
+  test.afterEach(() => {
+    if (forcedProvider !== undefined) process.env.LP_CREATOR_LLM_PROVIDER = forcedProvider;
+  });
+
+  test('lets project steps override global ones', () => {
+    const global: ModelRouting = {
+      structure: { provider: 'openai', modelName: 'gpt-4o' },
+      section: { provider: 'gemini', modelName: 'gemini-1.5-pro' },
+    };
+    const project: ModelRouting = { section: { provider: 'mock', modelName: 'mock-section' } };
+
+    expect(mergeModelRouting(global, project)).toEqual({
+      structure: { provider: 'openai', modelName: 'gpt-4o' },
+      section: { provider: 'mock', modelName: 'mock-section' },
+    });
+    expect(mergeModelRouting(global, null)).toEqual(global);
+  });
+
+  test('rejects unknown providers and out-of-range settings', () => {
+    expect(modelRoutingSchema.safeParse({ chat: { provider: 'unknown', modelName: 'x' } }).success).toBe(false);
+    expect(modelRoutingSchema.safeParse({ copy: { provider: 'mock', modelName: 'x', temperature: 3 } }).success).toBe(false);
+  });
+
+  test('resolves the model and call settings of a step', () => {
+    const section = getStepModel('section', mockRouting);
+    expect(section.model.provider).toBe('mock');
+    expect(section.model.modelId).toBe('mock-section');
+    expect(section).toMatchObject({ temperature: 0.2, maxTokens: 1200 });
+
+    const chat = getStepModel('chat', mockRouting);
+    expect(chat.model.modelId).toBe('claude-3-5-sonnet-20241022');
+    expect(chat.temperature).toBeUndefined();
+  });
+
+  test('routes generation and partial updates to the configured models', async () => {
+    const lp = await generateUnifiedLP({ topic: 'テスト', routing: mockRouting });
+    expect(lp.document.sections).toHaveLength(4);
+    expect(lp.metadata.sectionOutputs.map(output => output.status)).toEqual(['parsed', 'parsed', 'parsed', 'parsed']);
+
+    const updated = await partialUpdateLP({
+      currentLP: lp,
+      modificationPrompt: '見出しを変えてください',
+      selectedElementId: 'section-0-root',
+      routing: mockRouting,
+    });
+    expect(updated.document.sections[0].html).toContain('作業時間を半分に');
+  });
+});
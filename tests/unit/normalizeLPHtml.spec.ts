@@ -0,0 +1,139 @@
+import { test, expect } from '@playwright/test';
+import { JSDOM } from 'jsdom';
+import { normalizeLPHtml } from '../../src/mastra/normalization';
+
+const parse = (html: string) => new JSDOM(`<body>${html}</body>`).window.document.body;
+
+test.describe('normalizeLPHtml', () => {
+  test('keeps escaped text as text instead of turning it into markup', () => {
+    const { html } = normalizeLPHtml(
+      '<section data-editable-id="section-0-root"><p data-editable-id="section-0-element-0">Use &lt;br&gt; or &lt;script&gt; &amp; &quot;quotes&quot;</p></section>'
+    );
+    const body = parse(html);
+
+    expect(body.querySelector('script')).toBeNull();
+    expect(body.querySelector('br')).toBeNull();
+    expect(body.querySelector('p')?.textContent).toBe('Use <br> or <script> & "quotes"');
+  });
+
+  test('repairs attributes left JSON-escaped by the model', () => {
+    const { html, issues } = normalizeLPHtml(
+      '<section class=\\"py-16 bg-white\\" data-editable-id=\\"section-0-root\\">\\n<h2 class=\\"text-3xl\\">見出し</h2>\\n</section>'
+    );
+    const section = parse(html).querySelector('section');
+
+    expect(section?.getAttribute('class')).toBe('py-16 bg-white');
+    expect(section?.getAttribute('data-editable-id')).toBe('section-0-root');
+    expect(section?.querySelector('h2')?.getAttribute('class')).toBe('text-3xl');
+    expect(html).not.toContain('\\n');
+    expect(issues.map(issue => issue.type)).toContain('escaped-markup');
+  });
+
+  test('repairs SVG paths wrapped in escaped quotes', () => {
+    const { html } = normalizeLPHtml(
+      '<section><svg viewBox="0 0 24 24"><path d="\\"M5 13l4 4L19 7\\"" stroke-width="2"></path><path d="\\"></path></svg></section>'
+    );
+    const paths = parse(html).querySelectorAll('path');
+
+    expect(paths[0].getAttribute('d')).toBe('M5 13l4 4L19 7');
+    expect(paths[0].getAttribute('stroke-width')).toBe('2');
+    expect(paths[1].hasAttribute('d')).toBe(false);
+  });
+
+  test('decodes double-encoded attribute values once', () => {
+    const { html } = normalizeLPHtml(
+      '<section><a href="https://example.com/?a=1&amp;amp;b=2">リンク</a></section>'
+    );
+
+    expect(parse(html).querySelector('a')?.getAttribute('href')).toBe('https://example.com/?a=1&b=2');
+  });
+
+  test('drops junk attributes produced by broken quoting', () => {
+    const { html, issues } = normalizeLPHtml('<section><img src="/hero.png" alt="a"b"c"></section>');
+    const image = parse(html).querySelector('img');
+
+    expect(image?.getAttribute('src')).toBe('/hero.png');
+    expect(Array.from(image?.attributes ?? []).every(attribute => /^[\w:-]+$/.test(attribute.name))).toBe(true);
+    expect(issues.some(issue => issue.type === 'removed-attribute')).toBe(true);
+  });
+
+  test('replaces images without a usable source with a placeholder', () => {
+    const { html, issues } = normalizeLPHtml('<section><img src=""><img src="/hero.jpg/"><img src="/ok.jpg"></section>');
+    const body = parse(html);
+
+    expect(body.querySelectorAll('img')).toHaveLength(1);
+    expect(body.textContent).toContain('画像プレースホルダー');
+    expect(issues.filter(issue => issue.type === 'missing-image')).toHaveLength(2);
+  });
+
+  test('strips code fences and wraps loose content in a section', () => {
+    const { html } = normalizeLPHtml('```html\n<h1>タイトル</h1><p>本文</p>\n<section><p>次</p></section>\n```');
+    const sections = parse(html).children;
+
+    expect(html).not.toContain('```');
+    expect(sections).toHaveLength(2);
+    expect(sections[0].localName).toBe('section');
+    expect(sections[0].querySelector('h1')?.textContent).toBe('タイトル');
+  });
+
+  test('gives every editable element a unique data-editable-id', () => {
+    const { html, issues } = normalizeLPHtml(
+      `<section>
+        <h2 data-editable-id="section-0-element-0">A</h2>
+        <p data-editable-id="section-0-element-0">B</p>
+        <a href="#">C</a>
+        <img src="/a.png" alt="">
+      </section>
+      <section data-editable-id="section-1-root"><button>D</button></section>`
+    );
+    const body = parse(html);
+    const ids = Array.from(body.querySelectorAll('[data-editable-id]')).map(element => element.getAttribute('data-editable-id'));
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(body.children[0].getAttribute('data-editable-id')).toBe('section-0-root');
+    expect(body.querySelector('h2')?.getAttribute('data-editable-id')).toBe('section-0-element-0');
+    expect(body.querySelector('p')?.getAttribute('data-editable-id')).toMatch(/^section-0-element-\d+$/);
+    expect(body.querySelector('button')?.getAttribute('data-editable-id')).toMatch(/^section-1-element-\d+$/);
+    expect(issues.map(issue => issue.type)).toEqual(
+      expect.arrayContaining(['missing-root-id', 'duplicate-editable-id', 'missing-editable-id'])
+    );
+  });
+
+  test('numbers new ids from the given section index', () => {
+    const { html } = normalizeLPHtml('<section><h2>A</h2></section>', { sectionIndex: 3 });
+    const body = parse(html);
+
+    expect(body.children[0].getAttribute('data-editable-id')).toBe('section-3-root');
+    expect(body.querySelector('h2')?.getAttribute('data-editable-id')).toBe('section-3-element-0');
+  });
+
+  test('removes scripts and event handlers', () => {
+    const { html, sanitization } = normalizeLPHtml(
+      '<section><script>alert(1)</script><img src="/a.png" onerror="alert(2)"><a href="javascript:alert(3)">x</a></section>'
+    );
+
+    expect(html).not.toMatch(/script|onerror|javascript:/);
+    expect(sanitization.removed).toHaveLength(3);
+  });
+
+  test('reduces complete documents to their body content', () => {
+    const { html } = normalizeLPHtml(
+      '<!DOCTYPE html><html><head><script src="https://cdn.tailwindcss.com"></script></head><body><section><p>本文</p></section></body></html>'
+    );
+
+    expect(html).not.toMatch(/<html|<head|<body|<script/);
+    expect(parse(html).querySelector('section p')?.textContent).toBe('本文');
+  });
+
+  test('keeps complete documents whole when asked to', () => {
+    const { html } = normalizeLPHtml(
+      '<!DOCTYPE html><html><head><script src="https://cdn.tailwindcss.com"></script><script>alert(1)</script></head><body><section><p>本文</p></section></body></html>',
+      { keepDocument: true }
+    );
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<script src="https://cdn.tailwindcss.com"></script>');
+    expect(html).not.toContain('alert(1)');
+    expect(html).toContain('data-editable-id="section-0-element-0"');
+  });
+});
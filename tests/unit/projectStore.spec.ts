@@ -0,0 +1,27 @@
+import { expect, test } from '@playwright/test';
+import './memoryDb';
+import { createProject, updateProject } from '../../src/mastra/storage';
+
+const UNSAFE_HTML = '<section data-editable-id="section-0-root"><h1 onclick="alert(1)">見出し</h1><script>alert(1)</script></section>';
+
+test.describe('project storage', () => {
+  test('sanitizes page HTML and sections before storing them', async () => {
+    const created = await createProject({
+      title: 'テスト',
+      htmlContent: UNSAFE_HTML,
+      cssContent: '',
+      sections: [{ id: 'lp-section-hero-abc1234', type: 'hero', layoutType: 'default', prompt: '', html: UNSAFE_HTML }],
+      messages: [],
+    });
+
+    for (const html of [created.htmlContent, created.sections[0].html]) {
+      expect(html).toContain('見出し');
+      expect(html).not.toContain('<script');
+      expect(html).not.toContain('onclick');
+    }
+
+    const updated = await updateProject(created.id, { htmlContent: `${UNSAFE_HTML}<a href="javascript:alert(1)">link</a>` });
+    expect(updated?.htmlContent).not.toContain('javascript:');
+    expect(updated?.sections.every(section => !section.html.includes('<script'))).toBe(true);
+  });
+});
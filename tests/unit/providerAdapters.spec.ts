@@ -0,0 +1,79 @@
+import { expect, test } from '@playwright/test';
+import { generateText, streamText, tool, type LanguageModelV1, type LanguageModelV1CallOptions } from 'ai';
+import { z } from 'zod';
+import { createLPCreatorAgent } from '../../src/mastra/agents/lpCreatorAgent';
+import { adaptModel } from '../../src/mastra/providers';
+
+// A Responses API model that cannot stream and fills left-out tool parameters with null
+function createReasoningModel(calls: LanguageModelV1CallOptions[]): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider: 'openai.responses',
+    modelId: 'o3-pro-2025-06-10',
+    defaultObjectGenerationMode: 'json',
+    supportsStructuredOutputs: true,
+    async doGenerate(options) {
+      calls.push(options);
+      const answered = options.prompt.some(message => message.role === 'tool');
+      return {
+        ...(answered
+          ? { text: '完了しました', finishReason: 'stop' as const }
+          : {
+              toolCalls: [{ toolCallType: 'function' as const, toolCallId: 'call-1', toolName: 'createLP', args: '{"topic":"カフェ","designStyle":null}' }],
+              finishReason: 'tool-calls' as const,
+            }),
+        usage: { promptTokens: 1, completionTokens: 1 },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+    async doStream() {
+      throw new Error('Streaming is not supported');
+    },
+  };
+}
+
+const createLP = tool({
+  parameters: z.object({ topic: z.string(), designStyle: z.string().optional().default('modern') }),
+  execute: async ({ topic, designStyle }) => `${topic}:${designStyle}`,
+});
+
+test.describe('provider adapters', () => {
+  test('leaves models without known differences unchanged', () => {
+    const model = createReasoningModel([]);
+    expect(adaptModel('claude', 'claude-3-5-sonnet-20241022', model)).toBe(model);
+    expect(adaptModel('openai', 'gpt-4o', model)).toBe(model);
+  });
+
+  test('adapts the o3-pro responses model to the tool-calling agent', async () => {
+    const calls: LanguageModelV1CallOptions[] = [];
+    const model = adaptModel('openai', 'o3-pro-2025-06-10', createReasoningModel(calls));
+
+    const result = await generateText({ model, tools: { createLP }, maxSteps: 2, maxTokens: 500, prompt: 'カフェのLP' });
+
+    expect(result.steps[0].toolResults[0].result).toBe('カフェ:modern');
+    expect(calls[0].maxTokens).toBeUndefined();
+    expect(calls[0].providerMetadata?.openai).toEqual({ strictSchemas: false });
+  });
+
+  test('streams replies of models whose API does not stream', async () => {
+    const model = adaptModel('openai', 'o3-pro-2025-06-10', createReasoningModel([]));
+    const result = streamText({ model, tools: { createLP }, maxSteps: 2, prompt: 'カフェのLP' });
+    await result.consumeStream();
+
+    expect(await result.text).toBe('完了しました');
+    expect((await result.steps)[0].toolResults[0].result).toBe('カフェ:modern');
+  });
+
+  test('runs the agent and its tools with any provider', async () => {
+    process.env.LP_CREATOR_LLM_PROVIDER = 'mock';
+    try {
+      const agent = createLPCreatorAgent('openai', 'o3-pro-2025-06-10');
+      const result = await agent.generate('カフェのランディングページを作って', { maxSteps: 2 });
+
+      expect(result.steps[0].toolCalls[0].toolName).toBe('enhancedLPGeneratorTool');
+      expect(result.steps[0].toolResults[0].result).toMatchObject({ success: true });
+    } finally {
+      delete process.env.LP_CREATOR_LLM_PROVIDER;
+    }
+  });
+});
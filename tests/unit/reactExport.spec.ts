@@ -0,0 +1,29 @@
+import { expect, test } from '@playwright/test';
+import ts from 'typescript';
+import { buildReactExport } from '../../src/mastra/export/reactExport';
+
+test.describe('React export', () => {
+  test('writes attribute values with quotes and backslashes as valid TSX', () => {
+    const alt = 'He said "hi" in C:\\path';
+    const files = buildReactExport({
+      sections: [{
+        id: 'lp-section-hero-abc1234',
+        type: 'hero',
+        layoutType: 'default',
+        prompt: '',
+        html: `<section class="py-16"><img src="/hero.png" alt="${alt.replace(/"/g, '&quot;')}" title="plain"></section>`,
+      }],
+    });
+
+    const section = String(files.find(file => file.path.endsWith('.tsx') && file.path.includes('sections/'))?.content);
+    expect(section).toContain(`alt={${JSON.stringify(alt)}}`);
+    expect(section).toContain('title="plain"');
+
+    const { diagnostics } = ts.transpileModule(section, {
+      reportDiagnostics: true,
+      compilerOptions: { jsx: ts.JsxEmit.Preserve },
+      fileName: 'section.tsx',
+    });
+    expect(diagnostics).toEqual([]);
+  });
+});
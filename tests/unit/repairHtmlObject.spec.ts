@@ -0,0 +1,38 @@
+import { expect, test } from '@playwright/test';
+import { repairHtmlObjectText } from '../../src/mastra/normalization';
+
+const SECTION = '<section class="py-16"><h2 class="text-3xl">見出し</h2><p>説明文がここに入ります</p></section>';
+
+const repairedHtml = (text: string) => {
+  const repaired = repairHtmlObjectText(text);
+  return repaired === null ? null : (JSON.parse(repaired) as { html: string }).html;
+};
+
+test.describe('repairHtmlObjectText', () => {
+  test('strips code fences and text around the object', () => {
+    const text = `以下がHTMLです。\n\`\`\`json\n${JSON.stringify({ html: SECTION })}\n\`\`\``;
+    expect(repairedHtml(text)).toBe(SECTION);
+  });
+
+  test('accepts the HTML under another key or nested', () => {
+    expect(repairedHtml(JSON.stringify({ content: SECTION }))).toBe(SECTION);
+    expect(repairedHtml(JSON.stringify({ section: { html: SECTION } }))).toBe(SECTION);
+  });
+
+  test('decodes an object encoded twice', () => {
+    expect(repairedHtml(JSON.stringify(JSON.stringify({ html: SECTION })))).toBe(SECTION);
+  });
+
+  test('recovers HTML with unescaped quotes', () => {
+    expect(repairedHtml(`{"html": "${SECTION}"}`)).toBe(SECTION);
+  });
+
+  test('wraps bare HTML', () => {
+    expect(repairedHtml(SECTION)).toBe(SECTION);
+  });
+
+  test('gives up on replies without usable HTML', () => {
+    expect(repairHtmlObjectText('申し訳ありませんが作成できません')).toBeNull();
+    expect(repairHtmlObjectText('{"html": "<p>短い</p>"}')).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import { expect, test } from '@playwright/test';
+import './memoryDb';
+import { diffRevisionHtml } from '../../src/mastra/storage';
+
+const section = (index: number, type: string, heading: string) =>
+  `<section class="lp-section-${type}-abc1234" data-editable-id="section-${index}-root"><h2 data-editable-id="section-${index}-element-0">${heading}</h2></section>`;
+
+test.describe('diffRevisionHtml', () => {
+  test('reports text changes by section', () => {
+    const { changes, summary } = diffRevisionHtml(section(0, 'hero', '旧見出し'), section(0, 'hero', '新見出し'));
+
+    expect(summary).toEqual({ added: 0, removed: 0, text: 1, attributes: 0 });
+    expect(changes[0]).toMatchObject({ id: 'section-0-element-0', type: 'text', sectionIndex: 0, before: '旧見出し', after: '新見出し' });
+  });
+
+  test('reports only the inserted section when later ids are renumbered', () => {
+    const before = [section(0, 'hero', 'A'), section(1, 'features', 'B'), section(2, 'cta', 'C')].join('\n');
+    const after = [section(0, 'hero', 'A'), section(1, 'testimonials', 'New'), section(2, 'features', 'B'), section(3, 'cta', 'C')].join('\n');
+
+    const { changes, summary } = diffRevisionHtml(before, after);
+
+    expect(summary).toEqual({ added: 2, removed: 0, text: 0, attributes: 0 });
+    expect(changes.every(change => change.sectionIndex === 1)).toBe(true);
+  });
+
+  test('ignores reordered sections and still finds edits inside them', () => {
+    const before = [section(0, 'hero', 'A'), section(1, 'features', 'B'), section(2, 'cta', 'C')].join('\n');
+    const after = [section(0, 'hero', 'A'), section(1, 'cta', 'C'), section(2, 'features', 'B2')].join('\n');
+
+    const { changes } = diffRevisionHtml(before, after);
+
+    expect(changes.map(change => [change.id, change.type, change.before, change.after])).toEqual([
+      ['section-2-element-0', 'text', 'B', 'B2'],
+    ]);
+  });
+});
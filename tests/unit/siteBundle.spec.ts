@@ -0,0 +1,69 @@
+import { expect, test } from '@playwright/test';
+import { buildSiteBundle } from '../../src/mastra/export/siteBundle';
+import { buildStaticExport } from '../../src/mastra/export/staticExport';
+
+const PIXEL = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+const fileOf = (files: Awaited<ReturnType<typeof buildSiteBundle>>, filePath: string) =>
+  String(files.find(file => file.path === filePath)?.content ?? '');
+
+test.describe('site bundle assets', () => {
+  test('moves inline images, SVGs and CSS data URLs into asset files', async () => {
+    const files = await buildSiteBundle({
+      title: 'テスト',
+      htmlContent: `<section>
+  <img src="data:image/png;base64,${PIXEL}" alt="pixel">
+  <svg class="w-12 h-12" viewBox="0 0 10 10" aria-label="logo"><circle cx="5" cy="5" r="4" fill="#0056B1"/></svg>
+  <div class="hero" style="background-image: url('data:image/png;base64,${PIXEL}')"></div>
+</section>`,
+      cssContent: `<style>.pattern { background: url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg'/%3E"); }</style>`,
+    });
+
+    const assetPaths = files.map(file => file.path).filter(filePath => filePath.startsWith('assets/'));
+    expect(assetPaths).toHaveLength(3);
+
+    const html = fileOf(files, 'index.html');
+    expect(html).not.toContain('data:');
+    expect(html).not.toContain('<svg');
+    expect(html).toMatch(/<img class="w-12 h-12" alt="logo" src="assets\/image-\w+\.svg">/);
+    expect(html).toMatch(/url\(assets\/image-\w+\.png\)/);
+    expect(fileOf(files, 'styles.css')).toMatch(/url\("?assets\/image-\w+\.svg"?\)/);
+
+    const svgPath = html.match(/assets\/image-\w+\.svg/)?.[0] ?? '';
+    expect(fileOf(files, svgPath)).toContain('xmlns="http://www.w3.org/2000/svg"');
+  });
+
+  test('keeps SVGs that take their colors from the page inline', async () => {
+    const files = await buildSiteBundle({
+      title: 'テスト',
+      htmlContent: '<svg class="w-6 h-6 text-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M5 13l4 4L19 7"/></svg>',
+    });
+
+    expect(fileOf(files, 'index.html')).toContain('stroke="currentColor"');
+    expect(files.some(file => file.path.startsWith('assets/'))).toBe(false);
+  });
+
+  test('keeps going when a URL has a stray percent sign', async () => {
+    const svg = "data:image/svg+xml,<svg xmlns='http://www.w3.org/2000/svg' width='100%' height='100%'><rect width='100%' height='100%' fill='red'/></svg>";
+    const files = await buildSiteBundle({
+      title: 'テスト',
+      htmlContent: `<img src="${svg}" alt="bg"><img src="/100%.png" alt="missing">`,
+    });
+
+    const html = fileOf(files, 'index.html');
+    const svgPath = html.match(/assets\/image-\w+\.svg/)?.[0] ?? '';
+    expect(fileOf(files, svgPath)).toContain("width='100%'");
+    expect(html).toContain('src="/100%.png"');
+  });
+});
+
+test.describe('static export', () => {
+  test('exports sanitized HTML', async () => {
+    const { html } = await buildStaticExport({
+      htmlContent: '<section><button onclick="steal()">申し込む</button><script>steal()</script><a href="javascript:steal()">詳細</a></section>',
+    });
+
+    expect(html).toContain('申し込む');
+    expect(html).not.toMatch(/onclick|<script|javascript:/);
+  });
+});
@@ -0,0 +1,86 @@
+import { expect, test } from '@playwright/test';
+import { generateText, streamText } from 'ai';
+import {
+  createUsageRecorder,
+  estimateCostUsd,
+  getModel,
+  getModelWithFailover,
+  resetCircuitBreakers,
+  summarizeUsage,
+  trackUsage,
+  UNAVAILABLE_MOCK_MODEL,
+  type ModelRouting,
+} from '../../src/mastra/providers';
+import { generateUnifiedLP } from '../../src/mastra/tools';
+
+const attribution = { projectId: 'project-1', userId: 'tester', sessionId: null };
+
+test.describe('usage accounting', () => {
+  // Routing and failover are only observable when no provider is forced for the whole app
+  let forcedProvider: string | undefined;
+  test.beforeEach(() => {
+    forcedProvider = process.env.LP_CREATOR_LLM_PROVIDER;
+    delete process.env.LP_CREATOR_LLM_PROVIDER;
+    resetCircuitBreakers();
+  });
+  test.afterEach(() => {
+    if (forcedProvider !== undefined) process.env.LP_CREATOR_LLM_PROVIDER = forcedProvider;
+    resetCircuitBreakers();
+  });
+
+  test('estimates costs from list prices', () => {
+    expect(estimateCostUsd('anthropic', 'claude-3-5-sonnet-20241022', 1_000_000, 100_000)).toBeCloseTo(4.5);
+    expect(estimateCostUsd('openai', 'gpt-4o-mini', 1_000_000, 0)).toBeCloseTo(0.15);
+    expect(estimateCostUsd('mock', 'mock-section', 1_000_000, 1_000_000)).toBe(0);
+    expect(estimateCostUsd('openai', 'unknown-model', 1, 1)).toBeNull();
+  });
+
+  test('records generated and streamed calls by step and section', async () => {
+    const usage = createUsageRecorder(attribution);
+    const model = getModel({ provider: 'mock', modelName: 'mock-chat' });
+
+    await generateText({ model: trackUsage(model, 'copy', usage.forSection(2)), prompt: 'コピーを改善' });
+    const streamed = streamText({ model: trackUsage(model, 'chat', usage), prompt: 'LPを作成' });
+    await streamed.consumeStream();
+
+    const entries = usage.entries();
+    expect(entries.map(entry => [entry.step, entry.sectionIndex, entry.modelId])).toEqual([
+      ['copy', 2, 'mock-chat'],
+      ['chat', null, 'mock-chat'],
+    ]);
+    expect(entries.every(entry => entry.promptTokens > 0 && entry.completionTokens > 0)).toBe(true);
+    expect(summarizeUsage(entries)).toMatchObject({ calls: 2, costUsd: 0, unpricedCalls: 0 });
+  });
+
+  test('records the model that answered after a failover', async () => {
+    const usage = createUsageRecorder(attribution);
+    const model = getModelWithFailover({ provider: 'mock', modelName: UNAVAILABLE_MOCK_MODEL }, [
+      { provider: 'mock', modelName: 'mock-backup' },
+    ]);
+
+    await generateText({ model: trackUsage(model, 'section', usage), prompt: 'hero' });
+    await streamText({ model: trackUsage(model, 'chat', usage), prompt: 'hero' }).consumeStream();
+
+    expect(usage.entries().map(entry => entry.modelId)).toEqual(['mock-backup', 'mock-backup']);
+  });
+
+  test('attributes a generation to its structure and section calls', async () => {
+    const routing: ModelRouting = {
+      structure: { provider: 'mock', modelName: 'mock-structure' },
+      section: { provider: 'mock', modelName: 'mock-section' },
+    };
+    const usage = createUsageRecorder(attribution);
+
+    const result = await generateUnifiedLP({ topic: 'テスト', routing, usage });
+
+    const entries = usage.entries();
+    expect(entries.filter(entry => entry.step === 'structure').map(entry => entry.sectionIndex)).toEqual([null]);
+    expect(
+      entries
+        .filter(entry => entry.step === 'section')
+        .map(entry => entry.sectionIndex ?? -1)
+        .sort((a, b) => a - b)
+    ).toEqual(result.document.sections.map((_, index) => index));
+    expect(result.metadata.usage).toEqual(summarizeUsage(entries));
+  });
+});
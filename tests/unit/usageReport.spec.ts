@@ -0,0 +1,82 @@
+import { expect, test } from '@playwright/test';
+import { NextRequest } from 'next/server';
+import './memoryDb';
+import { GET as getMonthlyReport } from '../../app/api/usage/monthly/route';
+import type { UsageEntry } from '../../src/mastra/providers';
+import {
+  ANONYMOUS_USER_ID,
+  appendUsage,
+  createProject,
+  getMonthlyUsage,
+  getProjectUsage,
+  resolveUsageUserId,
+  USAGE_USER_HEADER,
+} from '../../src/mastra/storage';
+
+const entry = (step: UsageEntry['step'], promptTokens: number, completionTokens: number): UsageEntry => ({
+  step,
+  sectionIndex: step === 'section' ? 0 : null,
+  provider: 'mock',
+  modelId: 'mock-section',
+  promptTokens,
+  completionTokens,
+  costUsd: 0,
+});
+
+test.describe('monthly usage report', () => {
+  test('reports each user separately', async () => {
+    const alice = resolveUsageUserId(new Headers({ [USAGE_USER_HEADER]: 'alice' }));
+    const bob = resolveUsageUserId(new Headers({ [USAGE_USER_HEADER]: ' bob ' }));
+
+    await appendUsage(entry('structure', 100, 50), { userId: alice, projectId: null, sessionId: 'chat-a' });
+    await appendUsage(entry('section', 200, 100), { userId: alice, projectId: null, sessionId: 'chat-a' });
+    await appendUsage(entry('section', 30, 20), { userId: bob, projectId: null, sessionId: 'chat-b' });
+
+    const month = new Date().toISOString().slice(0, 7);
+    const report = await getMonthlyUsage(month);
+    expect(report.users.map(user => [user.userId, user.totals.calls, user.totals.totalTokens])).toEqual([
+      ['alice', 2, 450],
+      ['bob', 1, 50],
+    ]);
+    expect(Object.keys(report.users[0].byStep).sort()).toEqual(['section', 'structure']);
+    expect(Object.keys(report.users[1].byStep)).toEqual(['section']);
+    expect(report.totals.totalTokens).toBe(500);
+
+    const bobOnly = await getMonthlyUsage(month, 'bob');
+    expect(bobOnly.users.map(user => user.userId)).toEqual(['bob']);
+    expect(bobOnly.totals.calls).toBe(1);
+  });
+
+  test('serves only the requesting user from the report route', async () => {
+    await appendUsage(entry('chat', 10, 10), { userId: 'carol', projectId: null, sessionId: null });
+    await appendUsage(entry('chat', 10, 10), { userId: 'dave', projectId: null, sessionId: null });
+
+    // Asking for another user in the query has no effect
+    const response = await getMonthlyReport(new NextRequest('http://localhost/api/usage/monthly?userId=dave', {
+      headers: { [USAGE_USER_HEADER]: 'carol' },
+    }));
+
+    const report = await response.json();
+    expect(report.users.map((user: { userId: string }) => user.userId)).toEqual(['carol']);
+  });
+
+  test('attributes usage written after the project was first saved', async () => {
+    await appendUsage(entry('structure', 40, 20), { userId: 'erin', projectId: null, sessionId: 'chat-e' });
+    const project = await createProject({ title: 'テスト', htmlContent: '', cssContent: '', messages: [], usageSessionId: 'chat-e' });
+    // e.g. a section whose usage was still being stored when the page was saved
+    await appendUsage(entry('section', 30, 10), { userId: 'erin', projectId: null, sessionId: 'chat-e' });
+
+    const usage = await getProjectUsage(project.id);
+    expect(usage.totals).toMatchObject({ calls: 2, totalTokens: 100 });
+    expect(usage.bySection.map(section => section.sectionIndex)).toEqual([0]);
+
+    const report = await getMonthlyUsage(new Date().toISOString().slice(0, 7), 'erin');
+    expect(report.users[0].byProject.map(byProject => [byProject.projectId, byProject.title, byProject.totals.calls])).toEqual([
+      [project.id, 'テスト', 2],
+    ]);
+  });
+
+  test('falls back to the anonymous user without the header', () => {
+    expect(resolveUsageUserId(new Headers())).toBe(ANONYMOUS_USER_ID);
+  });
+});